@@ -1,255 +1,415 @@
 "use client";
 
 import { useState, useCallback, useEffect, useMemo } from "react";
-import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js";
 import { ChatKitPanel, type FactAction } from "@/components/ChatKitPanel";
+import { useI18n } from "@/components/I18nProvider";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import SaveSlotSelector from "./components/SaveSlotSelector";
+import JournalPanel from "./components/JournalPanel";
+import InventoryPanel from "./components/InventoryPanel";
+import QuestLog from "./components/QuestLog";
+import RollLog from "./components/RollLog";
+import BattleHud from "./components/BattleHud";
+import CharacterHud from "./components/CharacterHud";
+import CharacterCreator from "./components/CharacterCreator";
+import SignInScreen from "./components/SignInScreen";
+import SaveConflictDialog from "./components/SaveConflictDialog";
 import { getSupabaseClient } from "@/lib/supabaseClient";
+import { createLocalSaveRepository } from "@/lib/localSaveRepository";
+import { createSupabaseSaveRepository } from "@/lib/supabaseSaveRepository";
+import { createSaveApiClient } from "@/lib/saveApi";
+import { buildCharacterGameState, type CharacterDraft } from "@/lib/character";
+import { getCampaign } from "@/lib/campaigns";
+import { parseSaveState, persistThreadId, readThreadId } from "@/lib/saves";
+import { START_SCREEN_FACTS, buildStartScreen } from "@/lib/startScreen";
+import { useGameState } from "@/hooks/useGameState";
+import { useSaveStorage } from "@/hooks/useSaveStorage";
+import { useSupabaseSession } from "@/hooks/useSupabaseSession";
 
-const AUTOSAVE_INTERVAL_MS = 30_000;
-
-async function persistAutosave(
-  client: SupabaseClient,
-  slotId: number
-): Promise<void> {
-  const now = new Date().toISOString();
-  await client
-    .from("rpg_saves")
-    .update({
-      game_state: {
-        last_activity: now,
-        playing: true,
-      },
-      last_save: now,
-    })
-    .eq("save_slot", slotId);
-}
+type QuickSaveStatus = "idle" | "saving" | "saved" | "error";
 
 export default function App() {
   const [selectedSlot, setSelectedSlot] = useState<number | null>(null);
-  const [characterName, setCharacterName] = useState<string>("");
-  const [showNameInput, setShowNameInput] = useState(false);
-  const { scheme, setScheme } = useColorScheme();
+  const [saveUid, setSaveUid] = useState<string | null>(null);
+  // `last_save` of the selected slot when it was opened, checked by the
+  // character creator's write.
+  const [slotLastSave, setSlotLastSave] = useState<string | null>(null);
+  const [showCharacterCreator, setShowCharacterCreator] = useState(false);
+  const [creatingCharacter, setCreatingCharacter] = useState(false);
+  const [creationError, setCreationError] = useState<string | null>(null);
+  const [journalVersion, setJournalVersion] = useState(0);
+  const [initialThreadId, setInitialThreadId] = useState<string | null>(null);
+  const [characterName, setCharacterName] = useState<string | null>(null);
+  const [recentFacts, setRecentFacts] = useState<string[]>([]);
+  const { scheme, guildTheme, setScheme, setGuildTheme } = useColorScheme();
+  const { messages } = useI18n();
   const supabase = useMemo(() => getSupabaseClient(), []);
-  const supabaseUnavailable = !supabase;
+  const { storage, setStorage } = useSaveStorage(Boolean(supabase));
+  const {
+    session,
+    loading: authLoading,
+    signOut,
+  } = useSupabaseSession(storage === "supabase" ? supabase : null);
+  const userId = session?.user.id ?? null;
+  const getAccessToken = useCallback(async () => {
+    // Local saves play under an anonymous per-browser ChatKit identity.
+    if (!supabase || storage === "local") {
+      return null;
+    }
+    const { data } = await supabase.auth.getSession();
+    return data.session?.access_token ?? null;
+  }, [storage, supabase]);
 
-  useEffect(() => {
-    if (!selectedSlot || !supabase) {
-      return;
+  const repository = useMemo(() => {
+    if (storage === "local") {
+      return createLocalSaveRepository();
     }
+    return supabase && userId
+      ? createSupabaseSaveRepository(
+          supabase,
+          userId,
+          createSaveApiClient(getAccessToken)
+        )
+      : null;
+  }, [getAccessToken, storage, supabase, userId]);
+  const {
+    gameState,
+    conflict,
+    resetGameState,
+    flushGameState,
+    quickSave,
+    resolveConflict,
+    applyClientTool,
+  } = useGameState(repository, selectedSlot);
+  const [quickSaveStatus, setQuickSaveStatus] =
+    useState<QuickSaveStatus>("idle");
 
-    let cancelled = false;
+  const autosave = useCallback(async () => {
+    if (!selectedSlot || !repository) {
+      return;
+    }
+    try {
+      await flushGameState();
+    } catch (error) {
+      console.error("[autosave] failed to persist progress", error);
+    }
+  }, [flushGameState, repository, selectedSlot]);
 
-    const runAutosave = async () => {
-      try {
-        await persistAutosave(supabase, selectedSlot);
-        if (process.env.NODE_ENV !== "production") {
-          console.debug(
-            "[autosave]",
-            `slot ${selectedSlot} saved at ${new Date().toLocaleTimeString("fr-FR")}`
-          );
-        }
-      } catch (error) {
-        console.error("[autosave] failed to persist progress", error);
+  useEffect(() => {
+    // Save before the tab is hidden or closed rather than on a timer.
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        void autosave();
       }
     };
+    const handlePageHide = () => void autosave();
 
-    void runAutosave();
-    const interval = setInterval(() => {
-      if (!cancelled) {
-        void runAutosave();
-      }
-    }, AUTOSAVE_INTERVAL_MS);
-
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", handlePageHide);
     return () => {
-      cancelled = true;
-      clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", handlePageHide);
     };
-  }, [selectedSlot, supabase]);
+  }, [autosave]);
 
   const handleSelectSlot = useCallback(
     async (slotNumber: number) => {
-      if (!supabase) {
+      if (!repository) {
         return;
       }
 
       try {
-        const { data, error } = await supabase
-          .from("rpg_saves")
-          .select("character_name")
-          .eq("save_slot", slotNumber)
-          .single();
-
-        if (error) {
-          handleSupabaseError("Failed to load save slot", error);
+        const data = await repository.getSlot(slotNumber);
+        const parsedState = parseSaveState(data);
+        if (!parsedState.ok) {
+          console.error(
+            `[save-slot] slot ${slotNumber} has an invalid game state`,
+            parsedState.error
+          );
           return;
         }
 
-        if (!data?.character_name) {
+        resetGameState(parsedState.state, data.last_save);
+        setInitialThreadId(
+          data.character_name ? readThreadId(data.conversation_history) : null
+        );
+        setSaveUid(data.save_uid);
+        setSlotLastSave(data.last_save);
+        setCharacterName(data.character_name);
+        setRecentFacts([]);
+
+        if (!data.character_name) {
           setSelectedSlot(slotNumber);
-          setShowNameInput(true);
+          setShowCharacterCreator(true);
         } else {
           setSelectedSlot(slotNumber);
+          try {
+            const journal = await repository.listJournal(slotNumber);
+            setRecentFacts(
+              journal
+                .slice(0, START_SCREEN_FACTS)
+                .map((entry) => entry.fact_text)
+            );
+          } catch (error) {
+            console.warn("[start-screen] failed to load recent facts", error);
+          }
         }
       } catch (error) {
-        console.error("[save-slot] unexpected error", error);
+        console.error("[save-slot] failed to load save slot", error);
       }
     },
-    [supabase]
+    [repository, resetGameState]
   );
 
-  const handleStartNewGame = useCallback(async () => {
-    if (!characterName.trim() || !selectedSlot || !supabase) {
-      return;
-    }
-
-    try {
-      const { error } = await supabase
-        .from("rpg_saves")
-        .update({
-          character_name: characterName.trim(),
-          save_name: `Aventure de ${characterName.trim()}`,
-          location: "Magnolia - Devant la guilde",
-          level: 1,
-        })
-        .eq("save_slot", selectedSlot);
-
-      if (error) {
-        handleSupabaseError("Failed to create character", error);
+  const handleStartNewGame = useCallback(
+    async (draft: CharacterDraft) => {
+      if (!selectedSlot || !repository) {
         return;
       }
 
-      setShowNameInput(false);
-    } catch (error) {
-      console.error("[new-game] unexpected error", error);
-    }
-  }, [characterName, selectedSlot, supabase]);
+      const name = draft.name.trim();
+      const initialState = buildCharacterGameState(draft);
+      setCreatingCharacter(true);
+      setCreationError(null);
+
+      try {
+        const lastSave = new Date().toISOString();
+        const result = await repository.updateSlot(
+          selectedSlot,
+          {
+            character_name: name,
+            save_name: messages.app.defaultSaveName(name),
+            location: initialState.location,
+            level: initialState.stats.level,
+            game_state: initialState,
+            last_save: lastSave,
+          },
+          slotLastSave
+        );
+        if (!result.ok) {
+          throw new Error(`Slot ${selectedSlot} was saved elsewhere`);
+        }
+
+        resetGameState(initialState, lastSave);
+        setCharacterName(name);
+        setShowCharacterCreator(false);
+      } catch (error) {
+        console.error("[new-game] failed to create character", error);
+        setCreationError(messages.app.createCharacterFailed);
+      } finally {
+        setCreatingCharacter(false);
+      }
+    },
+    [messages, repository, resetGameState, selectedSlot, slotLastSave]
+  );
 
   const handleBackToMenu = useCallback(() => {
     setSelectedSlot(null);
-    setShowNameInput(false);
-    setCharacterName("");
-  }, []);
+    setSaveUid(null);
+    setShowCharacterCreator(false);
+    setCreationError(null);
+    setInitialThreadId(null);
+    setCharacterName(null);
+    setRecentFacts([]);
+    resetGameState(null, null);
+  }, [resetGameState]);
 
-  const handleWidgetAction = useCallback(async (action: FactAction) => {
-    if (process.env.NODE_ENV !== "production") {
-      console.info("[ChatKitPanel] widget action", action);
+  useEffect(() => {
+    // Slot numbers are per storage owner; drop the open one when that changes.
+    handleBackToMenu();
+  }, [handleBackToMenu, repository]);
+
+  const startScreen = useMemo(
+    () =>
+      buildStartScreen(
+        { characterName, state: gameState, recentFacts },
+        messages
+      ),
+    [characterName, gameState, messages, recentFacts]
+  );
+
+  const handleSignOut = useCallback(async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error("[auth] sign-out failed", error);
     }
-  }, []);
+  }, [signOut]);
+
+  const handleThreadChange = useCallback(
+    async (threadId: string | null) => {
+      if (!repository || !selectedSlot) {
+        return;
+      }
+
+      try {
+        await persistThreadId(repository, selectedSlot, threadId);
+      } catch (error) {
+        console.error("[thread] failed to persist active thread", error);
+      }
+    },
+    [repository, selectedSlot]
+  );
+
+  const handleWidgetAction = useCallback(
+    async (action: FactAction) => {
+      if (process.env.NODE_ENV !== "production") {
+        console.info("[ChatKitPanel] widget action", action);
+      }
+
+      if (!repository || !selectedSlot || !action.factText) {
+        return;
+      }
+
+      try {
+        await repository.recordJournalFact(selectedSlot, action);
+        setJournalVersion((current) => current + 1);
+        const factText = action.factText;
+        setRecentFacts((current) =>
+          [factText, ...current].slice(0, START_SCREEN_FACTS)
+        );
+      } catch (error) {
+        console.error("[journal] failed to record fact", error);
+      }
+    },
+    [repository, selectedSlot]
+  );
 
   const handleResponseEnd = useCallback(() => {
     if (process.env.NODE_ENV !== "production") {
       console.debug("[ChatKitPanel] response end");
     }
-  }, []);
+    void autosave();
+  }, [autosave]);
+
+  const handleQuickSave = useCallback(async () => {
+    setQuickSaveStatus("saving");
+    try {
+      await quickSave();
+      setQuickSaveStatus("saved");
+    } catch (error) {
+      console.error("[snapshot] quick-save failed", error);
+      setQuickSaveStatus("error");
+    }
+  }, [quickSave]);
 
-  if (supabaseUnavailable) {
+  useEffect(() => {
+    if (quickSaveStatus !== "saved" && quickSaveStatus !== "error") {
+      return;
+    }
+    const timeout = setTimeout(() => setQuickSaveStatus("idle"), 2500);
+    return () => clearTimeout(timeout);
+  }, [quickSaveStatus]);
+
+  const handleReturnToMenu = useCallback(async () => {
+    await autosave();
+    handleBackToMenu();
+  }, [autosave, handleBackToMenu]);
+
+  // The save backend is only known once mounted in the browser.
+  if (!storage || authLoading) {
     return (
-      <main className="flex min-h-screen flex-col items-center justify-center bg-slate-100 p-6 text-center dark:bg-slate-950">
-        <div className="max-w-xl rounded-2xl border border-slate-200 bg-white p-8 shadow-lg dark:border-slate-800 dark:bg-slate-900">
-          <h1 className="mb-4 text-2xl font-semibold text-slate-900 dark:text-slate-100">
-            Supabase configuration required
-          </h1>
-          <p className="text-sm text-slate-600 dark:text-slate-300">
-            Set the environment variables{" "}
-            <code className="rounded bg-slate-100 px-1 py-0.5 text-xs dark:bg-slate-800">
-              NEXT_PUBLIC_SUPABASE_URL
-            </code>{" "}
-            and{" "}
-            <code className="rounded bg-slate-100 px-1 py-0.5 text-xs dark:bg-slate-800">
-              NEXT_PUBLIC_SUPABASE_ANON_KEY
-            </code>{" "}
-            to enable save slots and game progress.
-          </p>
+      <div className="flex min-h-screen flex-col items-center justify-center bg-gradient-to-br from-indigo-500 to-purple-700 p-6">
+        <div className="rounded-xl bg-white/20 px-6 py-4 text-lg font-semibold text-white backdrop-blur">
+          {messages.app.connecting}
         </div>
-      </main>
+      </div>
     );
   }
 
-  if (!supabase) {
+  if (storage === "supabase" && supabase && !userId) {
+    return (
+      <SignInScreen
+        supabase={supabase}
+        onPlayLocally={() => setStorage("local")}
+      />
+    );
+  }
+
+  if (!repository) {
     return null;
   }
 
-  if (!selectedSlot) {
+  if (!selectedSlot || !saveUid) {
     return (
       <SaveSlotSelector
-        supabase={supabase}
+        key={repository.ownerId}
+        repository={repository}
+        supabaseAvailable={Boolean(supabase)}
+        onStorageChange={setStorage}
         onSelectSlot={handleSelectSlot}
+        onSignOut={userId ? () => void handleSignOut() : null}
       />
     );
   }
 
-  if (showNameInput) {
+  if (showCharacterCreator) {
     return (
-      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-indigo-500 to-purple-700 p-5">
-        <div className="w-full max-w-xl rounded-2xl bg-white p-10 shadow-2xl">
-          <h2 className="text-center text-3xl font-semibold text-orange-500">
-            Nouvelle aventure
-          </h2>
-          <p className="mt-3 text-center text-slate-500">
-            Quel est le nom de ton mage ?
-          </p>
-          <input
-            type="text"
-            value={characterName}
-            onChange={(event) => setCharacterName(event.target.value)}
-            placeholder="Ex: Natsu, Lucy, Gray..."
-            maxLength={20}
-            className="mt-8 w-full rounded-lg border-2 border-slate-200 p-4 text-lg outline-none focus:border-orange-500"
-            onKeyDown={(event) => {
-              if (event.key === "Enter" && characterName.trim()) {
-                void handleStartNewGame();
-              }
-            }}
-          />
-          <div className="mt-6 flex gap-3">
-            <button
-              type="button"
-              onClick={handleBackToMenu}
-              className="flex-1 rounded-lg bg-slate-200 px-4 py-3 text-lg font-semibold text-slate-600 transition hover:bg-slate-300"
-            >
-              Retour
-            </button>
-            <button
-              type="button"
-              onClick={() => void handleStartNewGame()}
-              disabled={!characterName.trim()}
-              className="flex-[1.5] rounded-lg bg-orange-500 px-4 py-3 text-lg font-semibold text-white transition hover:bg-orange-600 disabled:cursor-not-allowed disabled:bg-slate-400"
-            >
-              Commencer l&apos;aventure
-            </button>
-          </div>
-        </div>
-      </div>
+      <CharacterCreator
+        submitting={creatingCharacter}
+        error={creationError}
+        onCancel={handleBackToMenu}
+        onComplete={(draft) => void handleStartNewGame(draft)}
+      />
     );
   }
 
   return (
-    <main className="flex min-h-screen flex-col items-center justify-end bg-slate-100 dark:bg-slate-950">
-      <div className="fixed left-5 top-5 z-50">
+    <main className="flex min-h-screen flex-col items-center justify-end bg-background text-foreground">
+      {conflict && (
+        <SaveConflictDialog conflict={conflict} onResolve={resolveConflict} />
+      )}
+      <div className="fixed left-5 top-5 z-50 flex gap-2">
         <button
           type="button"
-          onClick={handleBackToMenu}
-          className="rounded-lg bg-orange-500 px-5 py-2 font-semibold text-white shadow-md transition hover:bg-orange-600"
+          onClick={() => void handleReturnToMenu()}
+          className="rounded-lg bg-guild-accent px-5 py-2 font-semibold text-guild-accent-foreground shadow-md transition hover:brightness-110"
         >
-          Retour au menu
+          {messages.app.backToMenu}
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleQuickSave()}
+          disabled={quickSaveStatus === "saving" || Boolean(conflict)}
+          title={messages.app.quickSaveTitle}
+          className="rounded-lg bg-white px-5 py-2 font-semibold text-slate-700 shadow-md transition hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60 dark:bg-slate-800 dark:text-slate-100 dark:hover:bg-slate-700"
+        >
+          {messages.app.quickSave[quickSaveStatus]}
         </button>
       </div>
-      <div className="mx-auto w-full max-w-5xl">
-        <ChatKitPanel
-          theme={scheme}
-          onWidgetAction={handleWidgetAction}
-          onResponseEnd={handleResponseEnd}
-          onThemeRequest={setScheme}
-        />
+      <div className="mx-auto flex w-full max-w-7xl flex-col gap-4 lg:flex-row lg:items-end">
+        <div className="relative min-w-0 flex-1">
+          <BattleHud combat={gameState?.combat ?? null} />
+          <ChatKitPanel
+            key={`${repository.ownerId}:${saveUid}`}
+            slotId={selectedSlot}
+            saveUid={saveUid}
+            workflowId={getCampaign(gameState?.campaign).workflowId}
+            initialThreadId={initialThreadId}
+            startScreen={startScreen}
+            getAccessToken={getAccessToken}
+            theme={scheme}
+            guildTheme={guildTheme}
+            onWidgetAction={handleWidgetAction}
+            onResponseEnd={handleResponseEnd}
+            onThemeRequest={setScheme}
+            onGuildThemeRequest={setGuildTheme}
+            onThreadChange={handleThreadChange}
+            onGameTool={applyClientTool}
+          />
+        </div>
+        <div className="flex w-full flex-col gap-4 lg:w-80">
+          <CharacterHud characterName={characterName} gameState={gameState} />
+          <QuestLog gameState={gameState} />
+          <InventoryPanel gameState={gameState} />
+          <RollLog gameState={gameState} />
+          <JournalPanel
+            repository={repository}
+            slotId={selectedSlot}
+            refreshToken={journalVersion}
+          />
+        </div>
       </div>
     </main>
   );
 }
-
-function handleSupabaseError(message: string, error: PostgrestError): void {
-  if (process.env.NODE_ENV !== "production") {
-    console.error(`[supabase] ${message}`, error);
-  }
-}
@@ -0,0 +1,325 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockSessionResponse, isMockScenario } from "@/lib/mockChatKit";
+
+const WORKFLOW_ID = "wf_contract";
+const SAVE_UID = "0b6f7d2e-4a53-4c1f-9d8e-2f1a3b4c5d6e";
+const SUPABASE_URL = "http://supabase.test";
+const SIGNED_IN_USER_ID = "3f0c9a5e-8d21-4b7e-a6c4-1e2d3f4a5b6c";
+
+type RouteModule = typeof import("./route");
+
+let upstreamRequests: Request[];
+
+/**
+ * Loads a fresh copy of the route, which reads its environment and keeps its
+ * rate-limit buckets at module level. ChatKit is answered by the same mock
+ * the `/api/mock-chatkit/<scenario>` route serves, picked from the URL.
+ */
+async function loadRoute(
+  scenario: string,
+  env: Record<string, string> = {}
+): Promise<RouteModule> {
+  vi.stubEnv("OPENAI_API_KEY", "sk-test");
+  vi.stubEnv(
+    "CHATKIT_API_BASE",
+    `http://mock.test/api/mock-chatkit/${scenario}`
+  );
+  vi.stubEnv("CHATKIT_WORKFLOW_ALLOWLIST", WORKFLOW_ID);
+  vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "");
+  vi.stubEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY", "");
+  vi.stubEnv("SUPABASE_SERVICE_ROLE_KEY", "");
+  vi.stubEnv("RATE_LIMIT_STORE", "");
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+  vi.resetModules();
+  return import("./route");
+}
+
+async function fakeUpstream(
+  input: RequestInfo | URL,
+  init?: RequestInit
+): Promise<Response> {
+  const request = new Request(input, init);
+  const url = new URL(request.url);
+
+  if (url.pathname === "/auth/v1/user") {
+    return request.headers.get("authorization") === "Bearer valid-token"
+      ? Response.json({ id: SIGNED_IN_USER_ID, aud: "authenticated" })
+      : Response.json({ message: "invalid JWT" }, { status: 401 });
+  }
+
+  upstreamRequests.push(request.clone());
+  const match = url.pathname.match(
+    /^\/api\/mock-chatkit\/([^/]+)\/v1\/chatkit\/sessions$/
+  );
+  if (!match || !isMockScenario(match[1])) {
+    return new Response(null, { status: 404 });
+  }
+  return createMockSessionResponse(match[1], request);
+}
+
+function sessionRequest(
+  options: { headers?: Record<string, string>; body?: unknown } = {}
+): Request {
+  return new Request("http://localhost/api/create-session", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Forwarded-For": "203.0.113.7",
+      ...options.headers,
+    },
+    body: JSON.stringify(
+      options.body ?? {
+        workflow: { id: WORKFLOW_ID },
+        save_uid: SAVE_UID,
+        locale: "en",
+      }
+    ),
+  });
+}
+
+async function readUpstreamBody(index = 0): Promise<Record<string, unknown>> {
+  return (await upstreamRequests[index].json()) as Record<string, unknown>;
+}
+
+beforeEach(() => {
+  upstreamRequests = [];
+  vi.stubGlobal("fetch", vi.fn<typeof fetch>(fakeUpstream));
+  vi.spyOn(console, "info").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("POST /api/create-session against the mock scenarios", () => {
+  it("returns the secret and its expiry on success", async () => {
+    const { POST } = await loadRoute("success");
+    const now = Math.floor(Date.now() / 1000);
+
+    const response = await POST(sessionRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.client_secret).toMatch(/^ek_mock_/);
+    expect(body.expires_at).toBeGreaterThanOrEqual(now + 600);
+    expect(body.expires_at).toBeLessThanOrEqual(now + 601);
+    expect(upstreamRequests[0].headers.get("authorization")).toBe(
+      "Bearer sk-test"
+    );
+    expect(await readUpstreamBody()).toMatchObject({
+      workflow: { id: WORKFLOW_ID, state_variables: { locale: "en" } },
+    });
+  });
+
+  it("passes a short-lived secret's expiry through", async () => {
+    const { POST } = await loadRoute("short_lived");
+    const now = Math.floor(Date.now() / 1000);
+
+    const body = await (await POST(sessionRequest())).json();
+
+    expect(body.expires_at).toBeGreaterThanOrEqual(now + 90);
+    expect(body.expires_at).toBeLessThanOrEqual(now + 91);
+  });
+
+  it("passes a rejected workflow through as a 400 with ChatKit's message", async () => {
+    const { POST } = await loadRoute("bad_request");
+
+    const response = await POST(sessionRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toBe(`Workflow '${WORKFLOW_ID}' does not exist.`);
+    expect(body.details).toEqual({
+      error: {
+        type: "invalid_request_error",
+        message: `Workflow '${WORKFLOW_ID}' does not exist.`,
+      },
+    });
+  });
+
+  it("reports a refused API key as a bad gateway, not the player's 401", async () => {
+    const { POST } = await loadRoute("unauthorized");
+
+    const response = await POST(sessionRequest());
+
+    expect(response.status).toBe(502);
+    expect((await response.json()).error).toBe("Incorrect API key provided.");
+  });
+
+  it("keeps ChatKit's Retry-After when it is rate limited", async () => {
+    const { POST } = await loadRoute("rate_limited");
+
+    const response = await POST(sessionRequest());
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("20");
+    expect((await response.json()).error).toBe(
+      "Rate limit reached for chatkit sessions."
+    );
+  });
+
+  it("passes a server error through", async () => {
+    const { POST } = await loadRoute("server_error");
+
+    const response = await POST(sessionRequest());
+
+    expect(response.status).toBe(500);
+    expect(response.headers.get("Retry-After")).toBeNull();
+  });
+
+  it("answers a truncated upstream body without a secret", async () => {
+    const { POST } = await loadRoute("malformed");
+
+    const response = await POST(sessionRequest());
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      client_secret: null,
+      expires_after: null,
+      expires_at: null,
+    });
+  });
+});
+
+describe("POST /api/create-session identity", () => {
+  it("gives a new browser an anonymous id and a session cookie", async () => {
+    const { POST } = await loadRoute("success");
+
+    const response = await POST(sessionRequest());
+    const cookie = response.headers.get("Set-Cookie") ?? "";
+    const sessionId = cookie.match(/^chatkit_session_id=([^;]+);/)?.[1];
+
+    expect(sessionId).toBeTruthy();
+    expect(cookie).toContain("HttpOnly");
+    expect(cookie).toContain("SameSite=Lax");
+    expect((await readUpstreamBody()).user).toBe(
+      `anon:${sessionId}:save-${SAVE_UID}`
+    );
+  });
+
+  it("reuses the id of a returning browser without a new cookie", async () => {
+    const { POST } = await loadRoute("success");
+
+    const response = await POST(
+      sessionRequest({ headers: { Cookie: "chatkit_session_id=returning" } })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Set-Cookie")).toBeNull();
+    expect((await readUpstreamBody()).user).toBe(
+      `anon:returning:save-${SAVE_UID}`
+    );
+  });
+
+  it("still sets the new cookie when ChatKit fails", async () => {
+    const { POST } = await loadRoute("server_error");
+
+    const response = await POST(sessionRequest());
+
+    expect(response.headers.get("Set-Cookie")).toMatch(/^chatkit_session_id=/);
+  });
+
+  it("scopes a signed-in player to their Supabase account", async () => {
+    const { POST } = await loadRoute("success", {
+      NEXT_PUBLIC_SUPABASE_URL: SUPABASE_URL,
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: "anon-key",
+    });
+
+    const response = await POST(
+      sessionRequest({ headers: { Authorization: "Bearer valid-token" } })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Set-Cookie")).toBeNull();
+    expect((await readUpstreamBody()).user).toBe(
+      `${SIGNED_IN_USER_ID}:save-${SAVE_UID}`
+    );
+  });
+
+  it("rejects an invalid token before calling ChatKit", async () => {
+    const { POST } = await loadRoute("success", {
+      NEXT_PUBLIC_SUPABASE_URL: SUPABASE_URL,
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: "anon-key",
+    });
+
+    const response = await POST(
+      sessionRequest({ headers: { Authorization: "Bearer expired-token" } })
+    );
+
+    expect(response.status).toBe(401);
+    expect(upstreamRequests).toHaveLength(0);
+  });
+
+  it("fails a token it cannot verify without Supabase configured", async () => {
+    const { POST } = await loadRoute("success");
+
+    const response = await POST(
+      sessionRequest({ headers: { Authorization: "Bearer valid-token" } })
+    );
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toBe(
+      "Missing Supabase environment variables"
+    );
+    expect(upstreamRequests).toHaveLength(0);
+  });
+});
+
+describe("POST /api/create-session guards", () => {
+  it("fails without an OpenAI key", async () => {
+    const { POST } = await loadRoute("success", { OPENAI_API_KEY: "" });
+
+    const response = await POST(sessionRequest());
+
+    expect(response.status).toBe(500);
+    expect(upstreamRequests).toHaveLength(0);
+  });
+
+  it("refuses a workflow outside the allowlist", async () => {
+    const { POST } = await loadRoute("success");
+
+    const response = await POST(
+      sessionRequest({ body: { workflow: { id: "wf_other" } } })
+    );
+
+    expect(response.status).toBe(403);
+    expect(upstreamRequests).toHaveLength(0);
+  });
+
+  it("limits an address before resolving who is calling", async () => {
+    const { POST } = await loadRoute("success", {
+      SESSION_RATE_LIMIT_IP: "1/600",
+    });
+
+    await POST(sessionRequest());
+    const response = await POST(
+      sessionRequest({ headers: { Authorization: "Bearer valid-token" } })
+    );
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("600");
+    expect(upstreamRequests).toHaveLength(1);
+  });
+
+  it("makes new visitors from one address share a bucket", async () => {
+    const { POST } = await loadRoute("success", {
+      SESSION_RATE_LIMIT_IDENTITY: "1/600",
+    });
+
+    const first = await POST(sessionRequest());
+    const second = await POST(sessionRequest());
+    const returning = await POST(
+      sessionRequest({ headers: { Cookie: "chatkit_session_id=returning" } })
+    );
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(429);
+    expect(returning.status).toBe(200);
+  });
+});
@@ -1,4 +1,27 @@
 import { WORKFLOW_ID } from "@/lib/config";
+import { readWorkflowAllowlist } from "@/lib/campaigns";
+import { isLocale } from "@/lib/i18n";
+import {
+  checkRateLimits,
+  getRateLimitStore,
+  parseRateLimitRule,
+  readClientIp,
+  readClientIpOptions,
+  type RateLimitDecision,
+} from "@/lib/rateLimit";
+import {
+  buildSessionStateVariables,
+  readFlagAllowlist,
+  type SessionStateVariables,
+} from "@/lib/sessionState";
+import { isSaveUid } from "@/lib/saveRepository";
+import {
+  extractUpstreamError,
+  resolveUserId,
+  type UserIdentity,
+} from "@/lib/sessionRoute";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+import { createSupabaseSaveSlotStore } from "@/lib/supabaseSaveSlotStore";
 
 export const runtime = "edge";
 
@@ -6,6 +29,9 @@ interface CreateSessionRequestBody {
   workflow?: { id?: string | null } | null;
   scope?: { user_id?: string | null } | null;
   workflowId?: string | null;
+  save_slot?: number | null;
+  save_uid?: string | null;
+  locale?: string | null;
   chatkit_configuration?: {
     file_upload?: {
       enabled?: boolean;
@@ -14,8 +40,16 @@ interface CreateSessionRequestBody {
 }
 
 const DEFAULT_CHATKIT_BASE = "https://api.openai.com";
-const SESSION_COOKIE_NAME = "chatkit_session_id";
-const SESSION_COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+const WORKFLOW_ALLOWLIST = readWorkflowAllowlist();
+const IDENTITY_RATE_LIMIT = parseRateLimitRule(
+  process.env.SESSION_RATE_LIMIT_IDENTITY,
+  { capacity: 10, windowSeconds: 600 }
+);
+const IP_RATE_LIMIT = parseRateLimitRule(process.env.SESSION_RATE_LIMIT_IP, {
+  capacity: 30,
+  windowSeconds: 600,
+});
+const CLIENT_IP_OPTIONS = readClientIpOptions();
 
 export async function POST(request: Request): Promise<Response> {
   if (request.method !== "POST") {
@@ -36,10 +70,50 @@ export async function POST(request: Request): Promise<Response> {
       );
     }
 
+    // The address is limited before anything else, token checks included,
+    // so a flood of requests cannot spend work or quota on any of them.
+    const clientIp = readClientIp(request, CLIENT_IP_OPTIONS);
+    const ipLimit = await checkRateLimits(getRateLimitStore(), [
+      {
+        key: `create-session:ip:${clientIp ?? "unknown"}`,
+        rule: IP_RATE_LIMIT,
+      },
+    ]);
+    if (!ipLimit.allowed) {
+      return rateLimitedResponse(ipLimit, sessionCookie);
+    }
+
+    const identity = await resolveUserId(request);
+    if (!identity.ok) {
+      return buildJsonResponse(
+        { error: identity.error },
+        identity.status,
+        { "Content-Type": "application/json" },
+        sessionCookie
+      );
+    }
+    sessionCookie = identity.sessionCookie;
+
+    const identityLimit = await checkIdentityRateLimit(identity, clientIp);
+    if (!identityLimit.allowed) {
+      return rateLimitedResponse(identityLimit, sessionCookie);
+    }
+
     const parsedBody = await safeParseJson<CreateSessionRequestBody>(request);
-    const { userId, sessionCookie: resolvedSessionCookie } =
-      await resolveUserId(request);
-    sessionCookie = resolvedSessionCookie;
+    const saveSlot = readSaveSlot(parsedBody?.save_slot);
+    const saveUid = readSaveUid(parsedBody?.save_uid);
+    const scopedUserId = scopeUserToSave(identity.userId, saveUid);
+    const characterState =
+      identity.authenticated && saveSlot && saveUid
+        ? await loadCharacterState(identity.userId, saveSlot, saveUid)
+        : null;
+    // The interface language is forwarded even for local saves, so the
+    // narrator answers in the player's language.
+    const locale = isLocale(parsedBody?.locale) ? parsedBody.locale : null;
+    const stateVariables: SessionStateVariables | null =
+      locale || characterState
+        ? { ...characterState, ...(locale ? { locale } : {}) }
+        : null;
     const resolvedWorkflowId =
       parsedBody?.workflow?.id ?? parsedBody?.workflowId ?? WORKFLOW_ID;
 
@@ -59,6 +133,18 @@ export async function POST(request: Request): Promise<Response> {
       );
     }
 
+    if (!WORKFLOW_ALLOWLIST.has(resolvedWorkflowId)) {
+      console.warn("[create-session] rejected workflow", {
+        resolvedWorkflowId,
+      });
+      return buildJsonResponse(
+        { error: "Workflow not allowed" },
+        403,
+        { "Content-Type": "application/json" },
+        sessionCookie
+      );
+    }
+
     const apiBase = process.env.CHATKIT_API_BASE ?? DEFAULT_CHATKIT_BASE;
     const url = `${apiBase}/v1/chatkit/sessions`;
     const upstreamResponse = await fetch(url, {
@@ -69,8 +155,11 @@ export async function POST(request: Request): Promise<Response> {
         "OpenAI-Beta": "chatkit_beta=v1",
       },
       body: JSON.stringify({
-        workflow: { id: resolvedWorkflowId },
-        user: userId,
+        workflow: {
+          id: resolvedWorkflowId,
+          ...(stateVariables ? { state_variables: stateVariables } : {}),
+        },
+        user: scopedUserId,
         chatkit_configuration: {
           file_upload: {
             enabled:
@@ -105,17 +194,19 @@ export async function POST(request: Request): Promise<Response> {
             `Failed to create session: ${upstreamResponse.statusText}`,
           details: upstreamJson,
         },
-        upstreamResponse.status,
-        { "Content-Type": "application/json" },
+        toClientStatus(upstreamResponse.status),
+        upstreamHeaders(upstreamResponse),
         sessionCookie
       );
     }
 
     const clientSecret = upstreamJson?.client_secret ?? null;
     const expiresAfter = upstreamJson?.expires_after ?? null;
+    const expiresAt = upstreamJson?.expires_at ?? null;
     const responsePayload = {
       client_secret: clientSecret,
       expires_after: expiresAfter,
+      expires_at: expiresAt,
     };
 
     return buildJsonResponse(
@@ -146,63 +237,117 @@ function methodNotAllowedResponse(): Response {
   });
 }
 
-async function resolveUserId(request: Request): Promise<{
-  userId: string;
-  sessionCookie: string | null;
-}> {
-  const existing = getCookieValue(
-    request.headers.get("cookie"),
-    SESSION_COOKIE_NAME
+/**
+ * Each session spends OpenAI quota, so on top of the address bucket the
+ * player draws from their own. A caller without a cookie would get a fresh
+ * anonymous identity on every request, so new visitors share one bucket per
+ * address instead. Anonymous cookies are not signed, which is why the address
+ * bucket is checked first for everyone.
+ */
+function checkIdentityRateLimit(
+  identity: Extract<UserIdentity, { ok: true }>,
+  clientIp: string | null
+): Promise<RateLimitDecision> {
+  const key = identity.sessionCookie
+    ? `create-session:new-visitor:${clientIp ?? "unknown"}`
+    : `create-session:user:${identity.userId}`;
+  return checkRateLimits(getRateLimitStore(), [
+    { key, rule: IDENTITY_RATE_LIMIT },
+  ]);
+}
+
+function rateLimitedResponse(
+  limit: Extract<RateLimitDecision, { allowed: false }>,
+  sessionCookie: string | null
+): Response {
+  return buildJsonResponse(
+    {
+      error: "Too many sessions created, please retry later",
+      retry_after: limit.retryAfterSeconds,
+    },
+    429,
+    {
+      "Content-Type": "application/json",
+      "Retry-After": String(limit.retryAfterSeconds),
+    },
+    sessionCookie
   );
-  if (existing) {
-    return { userId: existing, sessionCookie: null };
-  }
+}
 
-  const generated =
-    typeof crypto.randomUUID === "function"
-      ? crypto.randomUUID()
-      : Math.random().toString(36).slice(2);
+/**
+ * A 401 or 403 from ChatKit means the server's API key was refused, which the
+ * player cannot fix by signing in again, so it is reported as a bad gateway
+ * rather than passed through as their own authentication failure.
+ */
+function toClientStatus(upstreamStatus: number): number {
+  return upstreamStatus === 401 || upstreamStatus === 403
+    ? 502
+    : upstreamStatus;
+}
 
+/** Keeps ChatKit's cooldown, so the panel waits as long as it asks. */
+function upstreamHeaders(upstreamResponse: Response): Record<string, string> {
+  const retryAfter = upstreamResponse.headers.get("Retry-After");
   return {
-    userId: generated,
-    sessionCookie: serializeSessionCookie(generated),
+    "Content-Type": "application/json",
+    ...(upstreamResponse.status === 429 && retryAfter
+      ? { "Retry-After": retryAfter }
+      : {}),
   };
 }
 
-function getCookieValue(
-  cookieHeader: string | null,
-  name: string
-): string | null {
-  if (!cookieHeader) {
+function readSaveSlot(saveSlot: unknown): number | null {
+  return typeof saveSlot === "number" &&
+    Number.isInteger(saveSlot) &&
+    saveSlot >= 1
+    ? saveSlot
+    : null;
+}
+
+function readSaveUid(saveUid: unknown): string | null {
+  return typeof saveUid === "string" && isSaveUid(saveUid) ? saveUid : null;
+}
+
+/**
+ * ChatKit lists threads per `user`, so each save gets its own identity to
+ * keep two adventures of the same player out of each other's history. The
+ * save's `save_uid` is used rather than its slot number, which is reused once
+ * a slot is deleted or replaced by an import.
+ */
+function scopeUserToSave(userId: string, saveUid: string | null): string {
+  return saveUid ? `${userId}:save-${saveUid}` : userId;
+}
+
+/**
+ * Reads the player's slot with server credentials and turns it into workflow
+ * state variables, so the narrator knows the character from the first
+ * message. Local saves never reach the server and start without them. A
+ * missing context never blocks the session.
+ */
+async function loadCharacterState(
+  userId: string,
+  saveSlot: number,
+  saveUid: string
+): Promise<SessionStateVariables | null> {
+  const client = createSupabaseAdminClient();
+  if (!client) {
     return null;
   }
 
-  const cookies = cookieHeader.split(";");
-  for (const cookie of cookies) {
-    const [rawName, ...rest] = cookie.split("=");
-    if (!rawName || rest.length === 0) {
-      continue;
-    }
-    if (rawName.trim() === name) {
-      return rest.join("=").trim();
+  try {
+    const slot = await createSupabaseSaveSlotStore(client, userId).getSlot(
+      saveSlot
+    );
+    if (slot.save_uid !== saveUid) {
+      // The slot number now holds another save than the one being played.
+      return null;
     }
+    const variables = buildSessionStateVariables(slot, readFlagAllowlist());
+    return Object.keys(variables).length > 0 ? variables : null;
+  } catch (error) {
+    console.warn("[create-session] could not load character state", error);
+    return null;
   }
-  return null;
-}
-
-function serializeSessionCookie(value: string): string {
-  const attributes = [
-    `${SESSION_COOKIE_NAME}=${encodeURIComponent(value)}`,
-    "Path=/",
-    `Max-Age=${SESSION_COOKIE_MAX_AGE}`,
-    "HttpOnly",
-    "SameSite=Lax",
-  ];
-
-  if (process.env.NODE_ENV === "production") {
-    attributes.push("Secure");
-  }
-  return attributes.join("; ");
 }
 
 function buildJsonResponse(
@@ -234,50 +379,3 @@ async function safeParseJson<T>(req: Request): Promise<T | null> {
     return null;
   }
 }
-
-function extractUpstreamError(
-  payload: Record<string, unknown> | undefined
-): string | null {
-  if (!payload) {
-    return null;
-  }
-
-  const error = payload.error;
-  if (typeof error === "string") {
-    return error;
-  }
-
-  if (
-    error &&
-    typeof error === "object" &&
-    "message" in error &&
-    typeof (error as { message?: unknown }).message === "string"
-  ) {
-    return (error as { message: string }).message;
-  }
-
-  const details = payload.details;
-  if (typeof details === "string") {
-    return details;
-  }
-
-  if (details && typeof details === "object" && "error" in details) {
-    const nestedError = (details as { error?: unknown }).error;
-    if (typeof nestedError === "string") {
-      return nestedError;
-    }
-    if (
-      nestedError &&
-      typeof nestedError === "object" &&
-      "message" in nestedError &&
-      typeof (nestedError as { message?: unknown }).message === "string"
-    ) {
-      return (nestedError as { message: string }).message;
-    }
-  }
-
-  if (typeof payload.message === "string") {
-    return payload.message;
-  }
-  return null;
-}
@@ -0,0 +1,31 @@
+import {
+  MOCK_SCENARIOS,
+  createMockSessionResponse,
+  isMockScenario,
+} from "@/lib/mockChatKit";
+
+export const runtime = "edge";
+
+type MockRouteContext = { params: Promise<{ scenario: string }> };
+
+export async function POST(
+  request: Request,
+  context: MockRouteContext
+): Promise<Response> {
+  // The stand-in never ships: production builds answer as if it did not exist.
+  if (process.env.NODE_ENV === "production") {
+    return new Response(null, { status: 404 });
+  }
+
+  const { scenario } = await context.params;
+  if (!isMockScenario(scenario)) {
+    return new Response(
+      JSON.stringify({
+        error: `Unknown mock scenario "${scenario}", expected one of: ${MOCK_SCENARIOS.join(", ")}`,
+      }),
+      { status: 404, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  return createMockSessionResponse(scenario, request);
+}
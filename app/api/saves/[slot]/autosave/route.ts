@@ -0,0 +1,53 @@
+import type { AutosaveResponse, SaveConflictResponse } from "@/lib/saveApi";
+import {
+  errorResponse,
+  jsonResponse,
+  readJsonBody,
+  readSlotParam,
+  withSaveSlotStore,
+  type SlotRouteContext,
+} from "@/lib/saveRoutes";
+import { validateAutosave } from "@/lib/saveValidation";
+
+export const runtime = "edge";
+
+/**
+ * Stores the client's game state if nobody saved the slot since the client
+ * loaded it; answers 409 with the winning `last_save` otherwise. The server
+ * stamps the save time and derives the slot card columns from the state.
+ */
+export async function POST(
+  request: Request,
+  context: SlotRouteContext
+): Promise<Response> {
+  const slotNumber = await readSlotParam(context);
+  if (!slotNumber) {
+    return errorResponse("Invalid save slot", 400);
+  }
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return body.response;
+  }
+  const autosave = validateAutosave(body.body);
+  if (!autosave.ok) {
+    return errorResponse(autosave.error, 400);
+  }
+
+  return withSaveSlotStore(request, async (store) => {
+    const { state, baseLastSave } = autosave.value;
+    const result = await store.saveGameState(slotNumber, state, baseLastSave);
+    if (!result.ok) {
+      const conflict: SaveConflictResponse = {
+        error: "The save slot was updated elsewhere",
+        last_save: result.conflict.lastSave,
+      };
+      return jsonResponse(conflict, 409);
+    }
+
+    const payload: AutosaveResponse = {
+      game_state: result.state,
+      last_save: result.lastSave,
+    };
+    return jsonResponse(payload);
+  });
+}
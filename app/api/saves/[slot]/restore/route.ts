@@ -0,0 +1,56 @@
+import type { SaveConflictResponse } from "@/lib/saveApi";
+import {
+  errorResponse,
+  jsonResponse,
+  readJsonBody,
+  readSlotParam,
+  withSaveSlotStore,
+  type SlotRouteContext,
+} from "@/lib/saveRoutes";
+import { validateSnapshotRestore } from "@/lib/saveValidation";
+
+export const runtime = "edge";
+
+/**
+ * Rewinds the slot to one of its snapshots, game state and journal together,
+ * if nobody saved the slot since the client read it; answers 409 with the
+ * winning `last_save` otherwise, and 400 when the snapshot's state is out of
+ * the bounds a save may hold.
+ */
+export async function POST(
+  request: Request,
+  context: SlotRouteContext
+): Promise<Response> {
+  const slotNumber = await readSlotParam(context);
+  if (!slotNumber) {
+    return errorResponse("Invalid save slot", 400);
+  }
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return body.response;
+  }
+  const restore = validateSnapshotRestore(body.body);
+  if (!restore.ok) {
+    return errorResponse(restore.error, 400);
+  }
+
+  return withSaveSlotStore(request, async (store) => {
+    const { snapshotId, baseLastSave } = restore.value;
+    const result = await store.restoreSnapshot(
+      slotNumber,
+      snapshotId,
+      baseLastSave
+    );
+    if (!result.ok && "invalid" in result) {
+      return errorResponse(`Snapshot ${result.invalid}`, 400);
+    }
+    if (!result.ok) {
+      const conflict: SaveConflictResponse = {
+        error: "The save slot was updated elsewhere",
+        last_save: result.conflict.lastSave,
+      };
+      return jsonResponse(conflict, 409);
+    }
+    return jsonResponse({ ok: true });
+  });
+}
@@ -0,0 +1,80 @@
+import type { SaveConflictResponse, SaveSlotResponse } from "@/lib/saveApi";
+import {
+  errorResponse,
+  jsonResponse,
+  readJsonBody,
+  readSlotParam,
+  withSaveSlotStore,
+  type SlotRouteContext,
+} from "@/lib/saveRoutes";
+import { validateSlotUpdate } from "@/lib/saveValidation";
+
+export const runtime = "edge";
+
+export async function GET(
+  request: Request,
+  context: SlotRouteContext
+): Promise<Response> {
+  const slotNumber = await readSlotParam(context);
+  if (!slotNumber) {
+    return errorResponse("Invalid save slot", 400);
+  }
+
+  return withSaveSlotStore(request, async (store) => {
+    const payload: SaveSlotResponse = {
+      slot: await store.getSlot(slotNumber),
+    };
+    return jsonResponse(payload);
+  });
+}
+
+/**
+ * Updates slot columns. Updates that replace the game state carry the
+ * `base_last_save` they started from and get 409 with the winning
+ * `last_save` when the slot was saved since.
+ */
+export async function PUT(
+  request: Request,
+  context: SlotRouteContext
+): Promise<Response> {
+  const slotNumber = await readSlotParam(context);
+  if (!slotNumber) {
+    return errorResponse("Invalid save slot", 400);
+  }
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return body.response;
+  }
+  const update = validateSlotUpdate(body.body);
+  if (!update.ok) {
+    return errorResponse(update.error, 400);
+  }
+
+  return withSaveSlotStore(request, async (store) => {
+    const { changes, baseLastSave } = update.value;
+    const result = await store.updateSlot(slotNumber, changes, baseLastSave);
+    if (!result.ok) {
+      const conflict: SaveConflictResponse = {
+        error: "The save slot was updated elsewhere",
+        last_save: result.conflict.lastSave,
+      };
+      return jsonResponse(conflict, 409);
+    }
+    return jsonResponse({ ok: true });
+  });
+}
+
+export async function DELETE(
+  request: Request,
+  context: SlotRouteContext
+): Promise<Response> {
+  const slotNumber = await readSlotParam(context);
+  if (!slotNumber) {
+    return errorResponse("Invalid save slot", 400);
+  }
+
+  return withSaveSlotStore(request, async (store) => {
+    await store.deleteSlot(slotNumber);
+    return jsonResponse({ ok: true });
+  });
+}
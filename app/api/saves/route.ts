@@ -0,0 +1,39 @@
+import type { SaveCreateResponse, SaveListResponse } from "@/lib/saveApi";
+import {
+  errorResponse,
+  jsonResponse,
+  readJsonBody,
+  withSaveSlotStore,
+} from "@/lib/saveRoutes";
+import { validateSlotChanges } from "@/lib/saveValidation";
+
+export const runtime = "edge";
+
+export async function GET(request: Request): Promise<Response> {
+  return withSaveSlotStore(request, async (store) => {
+    const [slots, limit] = await Promise.all([
+      store.listSlots(),
+      store.getSlotLimit(),
+    ]);
+    const payload: SaveListResponse = { slots, limit };
+    return jsonResponse(payload);
+  });
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return body.response;
+  }
+  const contents = validateSlotChanges(body.body);
+  if (!contents.ok) {
+    return errorResponse(contents.error, 400);
+  }
+
+  return withSaveSlotStore(request, async (store) => {
+    const payload: SaveCreateResponse = {
+      save_slot: await store.createSlot(contents.value),
+    };
+    return jsonResponse(payload, 201);
+  });
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import type { CombatState, Combatant } from "@/lib/gameState";
+import { PLAYER_COMBATANT_ID } from "@/lib/combat";
+import StatBar from "./StatBar";
+
+type BattleHudProps = {
+  combat: CombatState | null;
+};
+
+export default function BattleHud({ combat }: BattleHudProps) {
+  const { messages } = useI18n();
+
+  if (!combat) {
+    return null;
+  }
+
+  const activeId = combat.turn_order[combat.turn_index];
+
+  return (
+    <div className="pointer-events-none absolute inset-x-0 top-0 z-20 flex justify-center p-3">
+      <div className="pointer-events-auto w-full max-w-3xl rounded-xl border border-orange-300 bg-white/95 p-3 shadow-lg backdrop-blur dark:border-orange-500/50 dark:bg-slate-900/95">
+        <div className="mb-2 flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-orange-500">
+          <span>{messages.battle.title}</span>
+          <span>{messages.battle.round(combat.round)}</span>
+        </div>
+        <ul className="grid gap-2 sm:grid-cols-2">
+          {combat.combatants.map((combatant) => (
+            <CombatantRow
+              key={combatant.id}
+              combatant={combatant}
+              active={combatant.id === activeId}
+            />
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+function CombatantRow({
+  combatant,
+  active,
+}: {
+  combatant: Combatant;
+  active: boolean;
+}) {
+  const { messages } = useI18n();
+  const text = messages.battle;
+  const defeated = combatant.hp <= 0;
+  const isPlayer = combatant.id === PLAYER_COMBATANT_ID;
+
+  return (
+    <li
+      className={`rounded-lg px-2 py-1 text-xs ${
+        active ? "ring-2 ring-orange-400" : ""
+      } ${defeated ? "opacity-40" : ""}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate font-semibold text-slate-800 dark:text-slate-100">
+          {isPlayer ? text.you : combatant.name}
+        </span>
+        <span className="text-slate-400">
+          {combatant.element !== "neutral" && `${combatant.element} · `}
+          {text.level(combatant.level)}
+        </span>
+      </div>
+      <StatBar
+        value={combatant.hp}
+        max={combatant.max_hp}
+        color={isPlayer ? "bg-emerald-500" : "bg-red-500"}
+        label={text.hp}
+      />
+      {combatant.max_mp > 0 && (
+        <StatBar
+          value={combatant.mp}
+          max={combatant.max_mp}
+          color="bg-sky-500"
+          label={text.mp}
+        />
+      )}
+      {combatant.statuses.length > 0 && (
+        <p className="mt-0.5 text-[10px] text-slate-500 dark:text-slate-400">
+          {combatant.statuses
+            .map((status) => `${text.statuses[status.type]} (${status.turns})`)
+            .join(" · ")}
+        </p>
+      )}
+    </li>
+  );
+}
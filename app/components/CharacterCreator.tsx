@@ -0,0 +1,381 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { getAvailableCampaigns, getCampaign } from "@/lib/campaigns";
+import {
+  ALLOCATABLE_STATS,
+  BASE_STAT_VALUE,
+  MAGIC_SCHOOLS,
+  MAX_APPEARANCE_LENGTH,
+  MAX_BACKSTORY_LENGTH,
+  MAX_CHARACTER_NAME_LENGTH,
+  MAX_POINTS_PER_STAT,
+  STAT_POINTS_TO_SPEND,
+  createCharacterDraft,
+  getMagicSchool,
+  getSpentPoints,
+  getStartingStats,
+  validateCharacterDraft,
+  type AllocatableStat,
+  type CharacterDraft,
+  type CharacterDraftErrors,
+} from "@/lib/character";
+import { localizeEntry } from "@/lib/i18n";
+
+type CharacterCreatorProps = {
+  submitting: boolean;
+  error: string | null;
+  onCancel: () => void;
+  onComplete: (draft: CharacterDraft) => void;
+};
+
+type Step = keyof CharacterDraftErrors;
+
+const STEPS: Step[] = [
+  "campaign",
+  "name",
+  "magicSchool",
+  "allocation",
+  "appearance",
+  "backstory",
+];
+
+const CAMPAIGN_CHOICES = getAvailableCampaigns();
+
+const inputClassName =
+  "w-full rounded-lg border-2 border-slate-200 p-3 outline-none focus:border-orange-500";
+
+export default function CharacterCreator({
+  submitting,
+  error,
+  onCancel,
+  onComplete,
+}: CharacterCreatorProps) {
+  const [draft, setDraft] = useState<CharacterDraft>(() =>
+    createCharacterDraft()
+  );
+  const [stepIndex, setStepIndex] = useState(0);
+  const [showErrors, setShowErrors] = useState(false);
+  const { messages } = useI18n();
+  const text = messages.creator;
+
+  const errors = useMemo(
+    () => validateCharacterDraft(draft, text.errors),
+    [draft, text.errors]
+  );
+  const step = STEPS[stepIndex];
+  const stepError = errors[step];
+  const isLastStep = stepIndex === STEPS.length - 1;
+  const spentPoints = getSpentPoints(draft);
+  const startingStats = getStartingStats(draft);
+  const school = getMagicSchool(draft.magicSchool);
+  const selectedSchool = school
+    ? localizeEntry(messages.catalog.schools, school.id, school)
+    : null;
+  const statLabel = (stat: AllocatableStat) => messages.stats[stat];
+
+  const update = (changes: Partial<CharacterDraft>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+  };
+
+  const updateAppearance = (changes: Partial<CharacterDraft["appearance"]>) => {
+    setDraft((current) => ({
+      ...current,
+      appearance: { ...current.appearance, ...changes },
+    }));
+  };
+
+  const adjustStat = (stat: AllocatableStat, delta: number) => {
+    setDraft((current) => {
+      const next = current.allocation[stat] + delta;
+      if (
+        next < 0 ||
+        next > MAX_POINTS_PER_STAT ||
+        getSpentPoints(current) + delta > STAT_POINTS_TO_SPEND
+      ) {
+        return current;
+      }
+      return {
+        ...current,
+        allocation: { ...current.allocation, [stat]: next },
+      };
+    });
+  };
+
+  const handleNext = () => {
+    if (stepError) {
+      setShowErrors(true);
+      return;
+    }
+    setShowErrors(false);
+    if (!isLastStep) {
+      setStepIndex((current) => current + 1);
+      return;
+    }
+    if (Object.keys(errors).length === 0) {
+      onComplete(draft);
+    }
+  };
+
+  const handleBack = () => {
+    setShowErrors(false);
+    if (stepIndex === 0) {
+      onCancel();
+      return;
+    }
+    setStepIndex((current) => current - 1);
+  };
+
+  const renderStep = () => {
+    switch (step) {
+      case "campaign":
+        return (
+          <ul className="grid gap-3">
+            {CAMPAIGN_CHOICES.map((choice) => {
+              const campaign = localizeEntry(
+                messages.catalog.campaigns,
+                choice.id,
+                choice
+              );
+              return (
+                <li key={campaign.id}>
+                  <button
+                    type="button"
+                    onClick={() => update({ campaign: campaign.id })}
+                    className={`w-full rounded-xl border-2 p-3 text-left transition ${
+                      draft.campaign === campaign.id
+                        ? "border-orange-500 bg-orange-50"
+                        : "border-slate-200 hover:border-orange-300"
+                    }`}
+                  >
+                    <p className="font-semibold text-slate-800">
+                      {campaign.name}
+                    </p>
+                    <p className="mt-1 text-xs text-slate-500">
+                      {campaign.description}
+                    </p>
+                    <p className="mt-1 text-xs text-slate-400">
+                      {text.startingPoint(campaign.startingLocation)}
+                    </p>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        );
+      case "name":
+        return (
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(event) => update({ name: event.target.value })}
+            placeholder={text.namePlaceholder}
+            maxLength={MAX_CHARACTER_NAME_LENGTH}
+            className={`${inputClassName} p-4 text-lg`}
+            autoFocus
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                handleNext();
+              }
+            }}
+          />
+        );
+      case "magicSchool":
+        return (
+          <ul className="grid gap-3 sm:grid-cols-2">
+            {MAGIC_SCHOOLS.map((entry) => {
+              const school = localizeEntry(
+                messages.catalog.schools,
+                entry.id,
+                entry
+              );
+              return (
+                <li key={school.id}>
+                  <button
+                    type="button"
+                    onClick={() => update({ magicSchool: school.id })}
+                    className={`h-full w-full rounded-xl border-2 p-3 text-left transition ${
+                      draft.magicSchool === school.id
+                        ? "border-orange-500 bg-orange-50"
+                        : "border-slate-200 hover:border-orange-300"
+                    }`}
+                  >
+                    <p className="font-semibold text-slate-800">
+                      {school.name}
+                    </p>
+                    <p className="mt-1 text-xs text-slate-500">
+                      {school.description}
+                    </p>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        );
+      case "allocation":
+        return (
+          <div className="space-y-3">
+            <p className="text-center text-sm text-slate-500">
+              {text.pointsLeft}{" "}
+              <span className="font-semibold text-orange-500">
+                {STAT_POINTS_TO_SPEND - spentPoints}
+              </span>
+            </p>
+            {ALLOCATABLE_STATS.map((stat) => (
+              <div
+                key={stat}
+                className="flex items-center justify-between rounded-lg border border-slate-200 px-4 py-2"
+              >
+                <span className="font-medium text-slate-700">
+                  {statLabel(stat)}
+                </span>
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={() => adjustStat(stat, -1)}
+                    className="h-8 w-8 rounded-full bg-slate-200 font-bold text-slate-600 hover:bg-slate-300"
+                    aria-label={text.removePoint(statLabel(stat))}
+                  >
+                    −
+                  </button>
+                  <span className="w-16 text-center font-semibold text-slate-800">
+                    {startingStats[stat]}
+                    <span className="ml-1 text-xs text-slate-400">
+                      ({BASE_STAT_VALUE}+{draft.allocation[stat]})
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => adjustStat(stat, 1)}
+                    className="h-8 w-8 rounded-full bg-orange-500 font-bold text-white hover:bg-orange-600"
+                    aria-label={text.addPoint(statLabel(stat))}
+                  >
+                    +
+                  </button>
+                </div>
+              </div>
+            ))}
+            {selectedSchool && (
+              <p className="text-xs text-slate-400">
+                {text.schoolBonusNote(selectedSchool.name)}
+              </p>
+            )}
+          </div>
+        );
+      case "appearance":
+        return (
+          <div className="space-y-3">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <input
+                type="text"
+                value={draft.appearance.guildMarkColor}
+                onChange={(event) =>
+                  updateAppearance({ guildMarkColor: event.target.value })
+                }
+                placeholder={text.markColorPlaceholder}
+                maxLength={40}
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={draft.appearance.guildMarkLocation}
+                onChange={(event) =>
+                  updateAppearance({ guildMarkLocation: event.target.value })
+                }
+                placeholder={text.markLocationPlaceholder}
+                maxLength={40}
+                className={inputClassName}
+              />
+            </div>
+            <textarea
+              value={draft.appearance.description}
+              onChange={(event) =>
+                updateAppearance({ description: event.target.value })
+              }
+              placeholder={text.appearancePlaceholder}
+              maxLength={MAX_APPEARANCE_LENGTH}
+              rows={3}
+              className={inputClassName}
+            />
+          </div>
+        );
+      case "backstory":
+        return (
+          <div className="space-y-3">
+            <textarea
+              value={draft.backstory}
+              onChange={(event) => update({ backstory: event.target.value })}
+              placeholder={text.backstoryPlaceholder}
+              maxLength={MAX_BACKSTORY_LENGTH}
+              rows={5}
+              className={inputClassName}
+            />
+            <p className="text-right text-xs text-slate-400">
+              {draft.backstory.length}/{MAX_BACKSTORY_LENGTH}
+            </p>
+            <div className="rounded-lg bg-slate-100 p-4 text-sm text-slate-600">
+              <p className="font-semibold text-slate-800">
+                {draft.name.trim()} · {selectedSchool?.name}
+              </p>
+              <p className="mt-1">
+                {
+                  localizeEntry(
+                    messages.catalog.campaigns,
+                    draft.campaign,
+                    getCampaign(draft.campaign)
+                  ).name
+                }
+              </p>
+              <p className="mt-1">
+                {ALLOCATABLE_STATS.map(
+                  (stat) => `${statLabel(stat)} ${startingStats[stat]}`
+                ).join(" · ")}
+              </p>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-indigo-500 to-purple-700 p-5">
+      <div className="w-full max-w-2xl rounded-2xl bg-white p-10 shadow-2xl">
+        <p className="text-center text-xs font-semibold uppercase tracking-wide text-slate-400">
+          {text.step(stepIndex + 1, STEPS.length)}
+        </p>
+        <h2 className="mt-1 text-center text-3xl font-semibold text-orange-500">
+          {text.heading}
+        </h2>
+        <p className="mt-3 text-center text-slate-500">{text.steps[step]}</p>
+
+        <div className="mt-8">{renderStep()}</div>
+
+        {((showErrors && stepError) || error) && (
+          <p className="mt-4 text-sm font-medium text-red-600">
+            {(showErrors && stepError) || error}
+          </p>
+        )}
+
+        <div className="mt-6 flex gap-3">
+          <button
+            type="button"
+            onClick={handleBack}
+            disabled={submitting}
+            className="flex-1 rounded-lg bg-slate-200 px-4 py-3 text-lg font-semibold text-slate-600 transition hover:bg-slate-300"
+          >
+            {messages.common.back}
+          </button>
+          <button
+            type="button"
+            onClick={handleNext}
+            disabled={submitting}
+            className="flex-[1.5] rounded-lg bg-orange-500 px-4 py-3 text-lg font-semibold text-white transition hover:bg-orange-600 disabled:cursor-not-allowed disabled:bg-slate-400"
+          >
+            {isLastStep ? (submitting ? text.creating : text.begin) : text.next}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useState, type ReactNode } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { GameState } from "@/lib/gameState";
+import { getMagicSchool } from "@/lib/character";
+import { PLAYER_COMBATANT_ID } from "@/lib/combat";
+import { MAX_LEVEL, xpToNextLevel } from "@/lib/gameTools";
+import { localizeEntry } from "@/lib/i18n";
+import StatBar from "./StatBar";
+
+type CharacterHudProps = {
+  characterName: string | null;
+  gameState: GameState | null;
+};
+
+/**
+ * Live character sheet: docked in the side column on large screens, a drawer
+ * opened from a floating button on smaller ones.
+ */
+export default function CharacterHud({
+  characterName,
+  gameState,
+}: CharacterHudProps) {
+  const [open, setOpen] = useState(false);
+  const { messages } = useI18n();
+  const text = messages.hud;
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        setOpen(false);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open]);
+
+  if (!gameState) {
+    return null;
+  }
+
+  const { stats } = gameState;
+  const school = getMagicSchool(gameState.character.magic_school);
+  const schoolName = school
+    ? localizeEntry(messages.catalog.schools, school.id, school).name
+    : text.noMagic;
+  // Status effects only exist on the player's combatant during a fight.
+  const statuses =
+    gameState.combat?.combatants.find(
+      (combatant) => combatant.id === PLAYER_COMBATANT_ID
+    )?.statuses ?? [];
+  const atMaxLevel = stats.level >= MAX_LEVEL;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        aria-expanded={open}
+        className="fixed right-3 top-14 z-40 rounded-lg bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-md transition hover:bg-slate-100 dark:bg-slate-800 dark:text-slate-100 dark:hover:bg-slate-700 lg:hidden"
+      >
+        {text.open} · {messages.battle.level(stats.level)}
+      </button>
+      {open && (
+        <div
+          aria-hidden
+          onClick={() => setOpen(false)}
+          className="fixed inset-0 z-40 bg-slate-900/40 lg:hidden"
+        />
+      )}
+
+      <aside
+        aria-label={text.title}
+        className={`fixed inset-y-0 right-0 z-50 w-72 max-w-[85vw] overflow-y-auto bg-white p-4 shadow-xl transition-transform dark:bg-slate-900 lg:static lg:z-auto lg:w-full lg:max-w-none lg:translate-x-0 lg:rounded-2xl lg:shadow-sm ${
+          open ? "translate-x-0" : "invisible translate-x-full lg:visible"
+        }`}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+              {text.title}
+            </p>
+            <h2 className="truncate text-lg font-semibold text-slate-900 dark:text-slate-100">
+              {characterName ?? "—"}
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={() => setOpen(false)}
+            className="text-sm font-semibold text-slate-400 hover:text-slate-600 lg:hidden"
+          >
+            {text.close}
+          </button>
+        </div>
+
+        <p className="mt-2 text-sm font-semibold text-orange-500">
+          {text.level(stats.level)}
+        </p>
+        {atMaxLevel ? (
+          <p className="mt-1 text-[10px] text-slate-500 dark:text-slate-400">
+            {text.maxLevel}
+          </p>
+        ) : (
+          <StatBar
+            value={stats.xp}
+            max={xpToNextLevel(stats.level)}
+            color="bg-amber-400"
+            label={text.xp}
+          />
+        )}
+        <StatBar
+          value={stats.hp}
+          max={stats.max_hp}
+          color="bg-emerald-500"
+          label={messages.battle.hp}
+        />
+        <StatBar
+          value={stats.mp}
+          max={stats.max_mp}
+          color="bg-sky-500"
+          label={messages.battle.mp}
+        />
+
+        <dl className="mt-3 space-y-1 text-sm">
+          <HudRow label={text.magic}>
+            {schoolName} · {messages.stats.magic} {stats.magic}
+          </HudRow>
+          <HudRow label={text.location}>
+            {gameState.location ?? text.unknownLocation}
+          </HudRow>
+          <HudRow label={text.jewels}>{gameState.jewels} J</HudRow>
+          <HudRow label={text.statuses}>
+            {statuses.length === 0
+              ? text.noStatus
+              : statuses
+                  .map(
+                    (status) =>
+                      `${messages.battle.statuses[status.type]} (${status.turns})`
+                  )
+                  .join(" · ")}
+          </HudRow>
+        </dl>
+      </aside>
+    </>
+  );
+}
+
+function HudRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex justify-between gap-3">
+      <dt className="shrink-0 text-slate-400">{label}</dt>
+      <dd className="min-w-0 truncate text-right font-medium text-slate-700 dark:text-slate-200">
+        {children}
+      </dd>
+    </div>
+  );
+}
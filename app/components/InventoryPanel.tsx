@@ -0,0 +1,130 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { GameState } from "@/lib/gameState";
+import { EQUIPMENT_SLOTS } from "@/lib/gameState";
+import { localizeEntry } from "@/lib/i18n";
+import {
+  getItemDefinition,
+  type ItemCategory,
+  type ItemDefinition,
+} from "@/lib/inventory";
+
+type InventoryPanelProps = {
+  gameState: GameState | null;
+};
+
+const CATEGORIES: ItemCategory[] = [
+  "consumable",
+  "lacrima",
+  "equipment",
+  "key",
+];
+
+type InventoryLine = {
+  item: ItemDefinition;
+  quantity: number;
+};
+
+export default function InventoryPanel({ gameState }: InventoryPanelProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  const { messages } = useI18n();
+  const text = messages.inventory;
+  const itemEntries = messages.catalog.items;
+
+  const groups = useMemo(() => {
+    const grouped = new Map<ItemCategory, InventoryLine[]>();
+    for (const entry of gameState?.inventory ?? []) {
+      const definition = getItemDefinition(entry.item_id);
+      if (!definition) {
+        continue;
+      }
+      const item = localizeEntry(itemEntries, definition.id, definition);
+      grouped.set(item.category, [
+        ...(grouped.get(item.category) ?? []),
+        { item, quantity: entry.quantity },
+      ]);
+    }
+    return CATEGORIES.filter((category) => grouped.has(category)).map(
+      (category) => ({ category, lines: grouped.get(category) ?? [] })
+    );
+  }, [gameState?.inventory, itemEntries]);
+
+  const itemCount = gameState?.inventory.length ?? 0;
+
+  return (
+    <section className="w-full rounded-2xl bg-white p-4 shadow-sm dark:bg-slate-900">
+      <button
+        type="button"
+        onClick={() => setCollapsed((current) => !current)}
+        aria-expanded={!collapsed}
+        className="flex w-full items-center justify-between text-left"
+      >
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+          {text.title}
+        </h2>
+        <span className="text-xs text-slate-400">
+          {text.count(itemCount)} {collapsed ? "▸" : "▾"}
+        </span>
+      </button>
+
+      {!collapsed && (
+        <div className="mt-3 space-y-4 text-sm">
+          <dl className="grid grid-cols-3 gap-2">
+            {EQUIPMENT_SLOTS.map((slot) => {
+              const equippedId = gameState?.equipment[slot];
+              const definition = equippedId
+                ? getItemDefinition(equippedId)
+                : null;
+              const equipped = definition
+                ? localizeEntry(itemEntries, definition.id, definition)
+                : null;
+              return (
+                <div
+                  key={slot}
+                  className="rounded-lg border border-slate-200 px-2 py-1 dark:border-slate-700"
+                >
+                  <dt className="text-xs uppercase tracking-wide text-slate-400">
+                    {text.slots[slot]}
+                  </dt>
+                  <dd className="truncate font-medium text-slate-700 dark:text-slate-200">
+                    {equipped?.name ?? "—"}
+                  </dd>
+                </div>
+              );
+            })}
+          </dl>
+
+          {groups.length === 0 ? (
+            <p className="text-slate-400">{text.empty}</p>
+          ) : (
+            groups.map(({ category, lines }) => (
+              <div key={category}>
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                  {text.categories[category]}
+                </h3>
+                <ul className="mt-1 space-y-1">
+                  {lines.map(({ item, quantity }) => (
+                    <li
+                      key={item.id}
+                      title={item.description}
+                      className="flex items-center justify-between text-slate-700 dark:text-slate-200"
+                    >
+                      <span>{item.name}</span>
+                      {item.maxStack > 1 && (
+                        <span className="text-xs font-semibold text-slate-500">
+                          ×{quantity}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
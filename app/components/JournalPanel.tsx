@@ -0,0 +1,184 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { JournalEntry } from "@/lib/journal";
+import type { SaveRepository } from "@/lib/saveRepository";
+
+type JournalPanelProps = {
+  repository: SaveRepository;
+  slotId: number;
+  refreshToken: number;
+};
+
+type JournalError = "loadFailed" | "pinFailed" | "deleteFailed";
+
+const ENTRY_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  day: "2-digit",
+  month: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+};
+
+export default function JournalPanel({
+  repository,
+  slotId,
+  refreshToken,
+}: JournalPanelProps) {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<JournalError | null>(null);
+  const [query, setQuery] = useState("");
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+  const { messages, formatDate } = useI18n();
+  const text = messages.journal;
+
+  const loadEntries = useCallback(async () => {
+    setError(null);
+    try {
+      setEntries(await repository.listJournal(slotId));
+    } catch (fetchError) {
+      console.error("[journal] failed to load entries", fetchError);
+      setError("loadFailed");
+    } finally {
+      setLoading(false);
+    }
+  }, [repository, slotId]);
+
+  useEffect(() => {
+    void loadEntries();
+  }, [loadEntries, refreshToken]);
+
+  const visibleEntries = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return entries
+      .filter((entry) => !pinnedOnly || entry.pinned)
+      .filter(
+        (entry) => !needle || entry.fact_text.toLowerCase().includes(needle)
+      )
+      .sort((left, right) => Number(right.pinned) - Number(left.pinned));
+  }, [entries, pinnedOnly, query]);
+
+  const handleTogglePin = useCallback(
+    async (entry: JournalEntry) => {
+      setError(null);
+      try {
+        await repository.setJournalEntryPinned(
+          slotId,
+          entry.fact_id,
+          !entry.pinned
+        );
+        setEntries((current) =>
+          current.map((item) =>
+            item.fact_id === entry.fact_id
+              ? { ...item, pinned: !entry.pinned }
+              : item
+          )
+        );
+      } catch (updateError) {
+        console.error("[journal] failed to pin entry", updateError);
+        setError("pinFailed");
+      }
+    },
+    [repository, slotId]
+  );
+
+  const handleDelete = useCallback(
+    async (entry: JournalEntry) => {
+      setError(null);
+      try {
+        await repository.deleteJournalEntry(slotId, entry.fact_id);
+        setEntries((current) =>
+          current.filter((item) => item.fact_id !== entry.fact_id)
+        );
+      } catch (deleteError) {
+        console.error("[journal] failed to delete entry", deleteError);
+        setError("deleteFailed");
+      }
+    },
+    [repository, slotId]
+  );
+
+  return (
+    <aside className="flex max-h-[90vh] w-full flex-col rounded-2xl bg-white p-4 shadow-sm dark:bg-slate-900">
+      <header className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+          {text.title}
+        </h2>
+        <span className="text-xs text-slate-400">
+          {text.entries(entries.length)}
+        </span>
+      </header>
+
+      <div className="mt-3 flex flex-col gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder={text.filterPlaceholder}
+          className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm outline-none focus:border-orange-500 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+        />
+        <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+          <input
+            type="checkbox"
+            checked={pinnedOnly}
+            onChange={(event) => setPinnedOnly(event.target.checked)}
+          />
+          {text.pinnedOnly}
+        </label>
+      </div>
+
+      {error && (
+        <p className="mt-3 rounded-lg border border-red-300 px-3 py-2 text-xs font-medium text-red-600">
+          {text[error]}
+        </p>
+      )}
+
+      <ul className="mt-3 flex-1 space-y-2 overflow-y-auto">
+        {loading ? (
+          <li className="text-sm text-slate-400">{text.loading}</li>
+        ) : visibleEntries.length === 0 ? (
+          <li className="text-sm text-slate-400">
+            {entries.length === 0 ? text.empty : text.noMatch}
+          </li>
+        ) : (
+          visibleEntries.map((entry) => (
+            <li
+              key={entry.fact_id}
+              className={`rounded-lg border px-3 py-2 text-sm ${
+                entry.pinned
+                  ? "border-orange-300 bg-orange-50 dark:border-orange-500/60 dark:bg-orange-500/10"
+                  : "border-slate-200 dark:border-slate-700"
+              }`}
+            >
+              <p className="text-slate-700 dark:text-slate-200">
+                {entry.fact_text}
+              </p>
+              <div className="mt-2 flex items-center justify-between text-xs text-slate-400">
+                <span>
+                  {formatDate(entry.created_at, ENTRY_DATE_FORMAT) ?? ""}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => void handleTogglePin(entry)}
+                    className="font-semibold text-orange-500 hover:text-orange-600"
+                  >
+                    {entry.pinned ? text.unpin : text.pin}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleDelete(entry)}
+                    className="font-semibold text-red-500 hover:text-red-600"
+                  >
+                    {messages.common.delete}
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))
+        )}
+      </ul>
+    </aside>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import { LOCALES, getMessages, isLocale } from "@/lib/i18n";
+
+export default function LanguageSwitcher() {
+  const { locale, messages, setLocale } = useI18n();
+
+  return (
+    <label className="fixed right-3 top-2 z-50 flex items-center gap-2 rounded-lg bg-white/90 px-3 py-1.5 text-sm font-medium text-slate-600 shadow-md backdrop-blur dark:bg-slate-800/90 dark:text-slate-200">
+      <span className="sr-only">{messages.languageSwitcher.label}</span>
+      <span aria-hidden>🌐</span>
+      <select
+        value={locale}
+        onChange={(event) => {
+          if (isLocale(event.target.value)) {
+            setLocale(event.target.value);
+          }
+        }}
+        className="bg-transparent outline-none"
+      >
+        {LOCALES.map((option) => (
+          <option key={option} value={option}>
+            {getMessages(option).languageName}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { GameState, Quest } from "@/lib/gameState";
+import { getQuestsByStatus } from "@/lib/quests";
+
+type QuestLogProps = {
+  gameState: GameState | null;
+};
+
+type QuestTab = "board" | "active" | "done";
+
+const TABS: QuestTab[] = ["board", "active", "done"];
+
+export default function QuestLog({ gameState }: QuestLogProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  const [tab, setTab] = useState<QuestTab>("active");
+  const { messages } = useI18n();
+  const text = messages.quests;
+
+  const quests = useMemo(() => {
+    if (!gameState) {
+      return { board: [], active: [], done: [] };
+    }
+    return {
+      board: getQuestsByStatus(gameState, "posted"),
+      active: getQuestsByStatus(gameState, "active"),
+      done: [
+        ...getQuestsByStatus(gameState, "completed"),
+        ...getQuestsByStatus(gameState, "failed"),
+      ],
+    } satisfies Record<QuestTab, Quest[]>;
+  }, [gameState]);
+
+  return (
+    <section className="w-full rounded-2xl bg-white p-4 shadow-sm dark:bg-slate-900">
+      <button
+        type="button"
+        onClick={() => setCollapsed((current) => !current)}
+        aria-expanded={!collapsed}
+        className="flex w-full items-center justify-between text-left"
+      >
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+          {text.title}
+        </h2>
+        <span className="text-xs text-slate-400">
+          {gameState?.jewels ?? 0} J {collapsed ? "▸" : "▾"}
+        </span>
+      </button>
+
+      {!collapsed && (
+        <>
+          <div className="mt-3 flex gap-1 rounded-lg bg-slate-100 p-1 text-xs font-semibold dark:bg-slate-800">
+            {TABS.map((id) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => setTab(id)}
+                className={`flex-1 rounded-md px-2 py-1 transition ${
+                  tab === id
+                    ? "bg-white text-orange-500 shadow-sm dark:bg-slate-900"
+                    : "text-slate-500 hover:text-slate-700 dark:text-slate-400"
+                }`}
+              >
+                {text.tabs[id]} ({quests[id].length})
+              </button>
+            ))}
+          </div>
+
+          <ul className="mt-3 max-h-64 space-y-2 overflow-y-auto text-sm">
+            {quests[tab].length === 0 ? (
+              <li className="text-slate-400">{text.empty}</li>
+            ) : (
+              quests[tab].map((quest) => (
+                <li
+                  key={quest.id}
+                  className="rounded-lg border border-slate-200 px-3 py-2 dark:border-slate-700"
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="font-semibold text-slate-800 dark:text-slate-100">
+                      {quest.title}
+                    </p>
+                    <span className="shrink-0 rounded bg-orange-100 px-1.5 py-0.5 text-xs font-semibold text-orange-600 dark:bg-orange-500/20">
+                      {text.ranks[quest.rank]}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-slate-400">
+                    {text.reward(quest.reward_jewels)}
+                    {quest.status === "failed" && ` · ${text.failed}`}
+                  </p>
+                  <ul className="mt-2 space-y-0.5 text-xs text-slate-600 dark:text-slate-300">
+                    {quest.objectives.map((objective) => (
+                      <li
+                        key={objective.id}
+                        className={
+                          objective.done ? "line-through opacity-60" : ""
+                        }
+                      >
+                        {objective.done ? "☑" : "☐"} {objective.label}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))
+            )}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { GameState } from "@/lib/gameState";
+
+type RollLogProps = {
+  gameState: GameState | null;
+};
+
+export default function RollLog({ gameState }: RollLogProps) {
+  const [collapsed, setCollapsed] = useState(true);
+  const rolls = [...(gameState?.rolls ?? [])].reverse();
+  const { messages } = useI18n();
+  const text = messages.rolls;
+
+  return (
+    <section className="w-full rounded-2xl bg-white p-4 shadow-sm dark:bg-slate-900">
+      <button
+        type="button"
+        onClick={() => setCollapsed((current) => !current)}
+        aria-expanded={!collapsed}
+        className="flex w-full items-center justify-between text-left"
+      >
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+          {text.title}
+        </h2>
+        <span className="text-xs text-slate-400">
+          {text.count(rolls.length)} {collapsed ? "▸" : "▾"}
+        </span>
+      </button>
+
+      {!collapsed && (
+        <>
+          {gameState && (
+            <p className="mt-2 text-xs text-slate-400">
+              {text.seed(gameState.rng.seed, gameState.rng.counter)}
+            </p>
+          )}
+          <ol className="mt-3 max-h-64 space-y-2 overflow-y-auto text-sm">
+            {rolls.length === 0 ? (
+              <li className="text-slate-400">{text.empty}</li>
+            ) : (
+              rolls.map((roll) => (
+                <li
+                  key={roll.id}
+                  className="rounded-lg border border-slate-200 px-3 py-2 dark:border-slate-700"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold text-slate-800 dark:text-slate-100">
+                      #{roll.id} · {roll.notation}
+                      {roll.mode !== "normal" && ` (${text.modes[roll.mode]})`}
+                    </span>
+                    <span
+                      className={`text-base font-bold ${
+                        roll.passed === null
+                          ? "text-slate-700 dark:text-slate-200"
+                          : roll.passed
+                            ? "text-emerald-600"
+                            : "text-red-500"
+                      }`}
+                    >
+                      {roll.total}
+                    </span>
+                  </div>
+                  {roll.reason && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {roll.reason}
+                    </p>
+                  )}
+                  <p className="mt-1 text-xs text-slate-400">
+                    {text.dice}{" "}
+                    {roll.dice.map((set) => `[${set.join(", ")}]`).join(" ")}
+                    {roll.modifier !== 0 &&
+                      ` · ${text.modifier} ${roll.modifier > 0 ? "+" : ""}${roll.modifier}`}
+                    {roll.stat && ` (${roll.stat})`}
+                    {roll.dc !== null &&
+                      ` · ${text.check(roll.dc, Boolean(roll.passed))}`}
+                  </p>
+                </li>
+              ))
+            )}
+          </ol>
+        </>
+      )}
+    </section>
+  );
+}
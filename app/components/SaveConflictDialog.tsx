@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { SaveConflictChoice } from "@/hooks/useGameState";
+import type { SaveConflict } from "@/lib/saveRepository";
+
+type SaveConflictDialogProps = {
+  conflict: SaveConflict;
+  onResolve: (choice: SaveConflictChoice) => Promise<void>;
+};
+
+export default function SaveConflictDialog({
+  conflict,
+  onResolve,
+}: SaveConflictDialogProps) {
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { messages, formatDate } = useI18n();
+  const text = messages.conflict;
+
+  const handleChoice = async (choice: SaveConflictChoice) => {
+    setPending(true);
+    setError(null);
+    try {
+      await onResolve(choice);
+    } catch (resolveError) {
+      console.error("[autosave] failed to resolve conflict", resolveError);
+      setError(text.failed);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/60 p-5 backdrop-blur-sm">
+      <div
+        role="alertdialog"
+        aria-labelledby="save-conflict-title"
+        className="w-full max-w-md rounded-2xl bg-white p-6 shadow-2xl dark:bg-slate-900"
+      >
+        <h2
+          id="save-conflict-title"
+          className="text-xl font-semibold text-orange-500"
+        >
+          {text.title}
+        </h2>
+        <p className="mt-3 text-sm text-slate-600 dark:text-slate-300">
+          {text.body(conflict.lastSave ? formatDate(conflict.lastSave) : null)}
+        </p>
+
+        <div className="mt-6 flex flex-col gap-2 sm:flex-row">
+          <button
+            type="button"
+            disabled={pending}
+            onClick={() => void handleChoice("keep-mine")}
+            className="flex-1 rounded-lg bg-orange-500 px-4 py-2 font-semibold text-white transition hover:bg-orange-600 disabled:cursor-not-allowed disabled:bg-slate-400"
+          >
+            {text.keepMine}
+          </button>
+          <button
+            type="button"
+            disabled={pending}
+            onClick={() => void handleChoice("load-theirs")}
+            className="flex-1 rounded-lg bg-slate-200 px-4 py-2 font-semibold text-slate-700 transition hover:bg-slate-300 disabled:cursor-not-allowed"
+          >
+            {text.loadTheirs}
+          </button>
+        </div>
+
+        {error && (
+          <p className="mt-4 text-sm font-medium text-red-600">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
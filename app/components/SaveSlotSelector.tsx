@@ -1,31 +1,106 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
-import type { SupabaseClient } from "@supabase/supabase-js";
-
-type SaveSlot = {
-  id: number;
-  save_slot: number;
-  save_name: string | null;
-  character_name: string | null;
-  level: number | null;
-  location: string | null;
-  last_save: string | null;
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+} from "react";
+import SnapshotTimeline from "./SnapshotTimeline";
+import { useI18n } from "@/components/I18nProvider";
+import { getCampaign } from "@/lib/campaigns";
+import { parseGameState } from "@/lib/gameState";
+import { getQuestsByStatus } from "@/lib/quests";
+import {
+  MAX_SAVE_NAME_LENGTH,
+  duplicateSaveSlot,
+  migrateSaveSlots,
+  renameSaveSlot,
+} from "@/lib/saveSlots";
+import type {
+  SaveRepository,
+  SaveSlot,
+  SaveStorageKind,
+} from "@/lib/saveRepository";
+import {
+  createLocalSaveRepository,
+  hasLocalSaves,
+} from "@/lib/localSaveRepository";
+import {
+  branchFromSnapshot,
+  restoreSnapshot,
+  type SaveSnapshot,
+} from "@/lib/snapshots";
+import {
+  exportSaveSlot,
+  getExportFileName,
+  importSaveAsNewSlot,
+  importSaveSlot,
+  parseSaveExport,
+} from "@/lib/saveTransfer";
+import { localizeEntry } from "@/lib/i18n";
+
+const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+
+const SAVE_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  day: "2-digit",
+  month: "2-digit",
+  year: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
 };
 
+type SlotFailure =
+  | "loadFailed"
+  | "createFailed"
+  | "duplicateFailed"
+  | "renameFailed"
+  | "deleteFailed"
+  | "exportFailed"
+  | "importTooLarge"
+  | "importFailed"
+  | "restoreFailed"
+  | "branchFailed"
+  | "migrateFailed";
+
+/** Kept as a message key so the banner follows a language change. */
+type SlotError = SlotFailure | { importRejected: string };
+
 type SaveSlotSelectorProps = {
-  supabase: SupabaseClient;
+  repository: SaveRepository;
+  supabaseAvailable: boolean;
+  onStorageChange: (storage: SaveStorageKind) => void;
   onSelectSlot: (slotId: number) => void;
+  onSignOut: (() => void) | null;
 };
 
 export default function SaveSlotSelector({
-  supabase,
+  repository,
+  supabaseAvailable,
+  onStorageChange,
   onSelectSlot,
+  onSignOut,
 }: SaveSlotSelectorProps) {
   const [saves, setSaves] = useState<SaveSlot[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<SlotError | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [slotLimit, setSlotLimit] = useState<number | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const isAtLimit = slotLimit !== null && saves.length >= slotLimit;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const importTargetRef = useRef<number | "new" | null>(null);
+  const [canMigrateLocalSaves, setCanMigrateLocalSaves] = useState(false);
+  const [historySlot, setHistorySlot] = useState<number | null>(null);
+  const { messages, formatDate } = useI18n();
+  const text = messages.slots;
+  const formatSaveDate = useCallback(
+    (value: string) =>
+      formatDate(value, SAVE_DATE_FORMAT) ?? messages.common.unknownDate,
+    [formatDate, messages.common.unknownDate]
+  );
 
   const orderedSaves = useMemo(
     () =>
@@ -40,68 +115,219 @@ export default function SaveSlotSelector({
     setIsRefreshing(true);
     setError(null);
     try {
-      const { data, error: fetchError } = await supabase
-        .from("rpg_saves")
-        .select(
-          "id, save_slot, save_name, character_name, level, location, last_save"
-        )
-        .order("save_slot");
-
-      if (fetchError) {
-        throw fetchError;
-      }
-
-      setSaves(data ?? []);
+      const [slots, limit] = await Promise.all([
+        repository.listSlots(),
+        repository.getSlotLimit(),
+      ]);
+      setSaves(slots);
+      setSlotLimit(limit);
+      setCanMigrateLocalSaves(
+        repository.kind === "supabase" && hasLocalSaves()
+      );
     } catch (fetchError) {
       console.error("[save-slot] failed to load saves", fetchError);
-      setError("Impossible de récupérer les sauvegardes pour le moment.");
+      setError("loadFailed");
     } finally {
       setLoading(false);
       setIsRefreshing(false);
     }
-  }, [supabase]);
+  }, [repository]);
 
   useEffect(() => {
     void loadSaves();
   }, [loadSaves]);
 
-  const handleDelete = useCallback(
-    async (slotNumber: number) => {
-      const confirmed = window.confirm(
-        `Supprimer définitivement la sauvegarde du slot ${slotNumber} ?`
+  const runSlotUpdate = useCallback(
+    async (update: () => Promise<void>, failure: SlotFailure) => {
+      setError(null);
+      setIsUpdating(true);
+      try {
+        await update();
+      } catch (updateError) {
+        console.error("[save-slot] slot update failed", updateError);
+        setError(failure);
+      } finally {
+        setIsUpdating(false);
+      }
+      await loadSaves();
+    },
+    [loadSaves]
+  );
+
+  const handleCreate = useCallback(async () => {
+    let createdSlot: number | null = null;
+    await runSlotUpdate(async () => {
+      createdSlot = await repository.createSlot();
+    }, "createFailed");
+    if (createdSlot !== null) {
+      onSelectSlot(createdSlot);
+    }
+  }, [onSelectSlot, repository, runSlotUpdate]);
+
+  const handleDuplicate = useCallback(
+    (slotNumber: number) =>
+      runSlotUpdate(async () => {
+        await duplicateSaveSlot(repository, slotNumber, text);
+      }, "duplicateFailed"),
+    [repository, runSlotUpdate, text]
+  );
+
+  const handleRename = useCallback(
+    (save: SaveSlot) => {
+      const name = window.prompt(
+        text.renamePrompt(MAX_SAVE_NAME_LENGTH),
+        save.save_name ?? ""
+      );
+      if (name === null || !name.trim()) {
+        return;
+      }
+      void runSlotUpdate(
+        () => renameSaveSlot(repository, save.save_slot, name),
+        "renameFailed"
       );
+    },
+    [repository, runSlotUpdate, text]
+  );
+
+  const handleDelete = useCallback(
+    (slotNumber: number) => {
+      const confirmed = window.confirm(text.confirmDelete(slotNumber));
       if (!confirmed) {
         return;
       }
+      void runSlotUpdate(
+        () => repository.deleteSlot(slotNumber),
+        "deleteFailed"
+      );
+    },
+    [repository, runSlotUpdate, text]
+  );
 
+  const handleExport = useCallback(
+    async (slotNumber: number) => {
       setError(null);
-
       try {
-        const resetPayload = {
-          character_name: null,
-          level: 1,
-          location: null,
-          conversation_history: null,
-          game_state: null,
-          last_save: new Date().toISOString(),
-        };
-
-        const { error: updateError } = await supabase
-          .from("rpg_saves")
-          .update(resetPayload)
-          .eq("save_slot", slotNumber);
-
-        if (updateError) {
-          throw updateError;
+        const exported = await exportSaveSlot(repository, slotNumber);
+        const blob = new Blob([JSON.stringify(exported, null, 2)], {
+          type: "application/json",
+        });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = getExportFileName(exported);
+        link.click();
+        URL.revokeObjectURL(url);
+      } catch (exportError) {
+        console.error("[save-slot] export failed", exportError);
+        setError("exportFailed");
+      }
+    },
+    [repository]
+  );
+
+  const handleImportClick = useCallback((target: number | "new") => {
+    importTargetRef.current = target;
+    fileInputRef.current?.click();
+  }, []);
+
+  const handleImportFile = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      const target = importTargetRef.current;
+      event.target.value = "";
+      importTargetRef.current = null;
+      if (!file || target === null) {
+        return;
+      }
+
+      setError(null);
+      if (file.size > MAX_IMPORT_FILE_BYTES) {
+        setError("importTooLarge");
+        return;
+      }
+
+      const parsed = await parseSaveExport(await file.text());
+      if (!parsed.ok) {
+        console.warn("[save-slot] rejected import", parsed.error);
+        setError({ importRejected: text.importReasons[parsed.reason] });
+        return;
+      }
+
+      const targetSave =
+        target === "new"
+          ? null
+          : saves.find((save) => save.save_slot === target);
+      if (
+        targetSave?.character_name &&
+        !window.confirm(
+          text.confirmReplace(
+            targetSave.character_name,
+            targetSave.save_slot,
+            parsed.save.character_name
+          )
+        )
+      ) {
+        return;
+      }
+
+      await runSlotUpdate(async () => {
+        if (target === "new") {
+          await importSaveAsNewSlot(
+            repository,
+            parsed.save,
+            messages.app.defaultSaveName
+          );
+        } else {
+          await importSaveSlot(
+            repository,
+            target,
+            parsed.save,
+            messages.app.defaultSaveName
+          );
         }
+      }, "importFailed");
+    },
+    [messages.app.defaultSaveName, repository, runSlotUpdate, saves, text]
+  );
 
-        await loadSaves();
-      } catch (updateError) {
-        console.error("[save-slot] failed to delete slot", updateError);
-        setError("La suppression a échoué. Réessayez plus tard.");
+  const handleRestoreSnapshot = useCallback(
+    (slotNumber: number, snapshot: SaveSnapshot) => {
+      const confirmed = window.confirm(
+        text.confirmRestore(formatSaveDate(snapshot.created_at), slotNumber)
+      );
+      if (!confirmed) {
+        return;
       }
+      void runSlotUpdate(
+        () => restoreSnapshot(repository, slotNumber, snapshot),
+        "restoreFailed"
+      );
     },
-    [loadSaves, supabase]
+    [formatSaveDate, repository, runSlotUpdate, text]
+  );
+
+  const handleBranchSnapshot = useCallback(
+    (slotNumber: number, snapshot: SaveSnapshot) =>
+      runSlotUpdate(async () => {
+        await branchFromSnapshot(repository, slotNumber, snapshot, text);
+      }, "branchFailed"),
+    [repository, runSlotUpdate, text]
+  );
+
+  const handleMigrateLocalSaves = useCallback(
+    () =>
+      runSlotUpdate(async () => {
+        const result = await migrateSaveSlots(
+          createLocalSaveRepository(),
+          repository
+        );
+        if (result.remaining > 0) {
+          throw new Error(
+            `${result.remaining} local slots did not fit in the account`
+          );
+        }
+      }, "migrateFailed"),
+    [repository, runSlotUpdate]
   );
 
   const renderContent = () => {
@@ -109,7 +335,7 @@ export default function SaveSlotSelector({
       return (
         <div className="flex min-h-screen flex-col items-center justify-center bg-gradient-to-br from-indigo-500 to-purple-700 p-6">
           <div className="rounded-xl bg-white/20 px-6 py-4 text-lg font-semibold text-white backdrop-blur">
-            Chargement des sauvegardes...
+            {text.loading}
           </div>
         </div>
       );
@@ -120,102 +346,333 @@ export default function SaveSlotSelector({
         <div className="mx-auto flex max-w-5xl flex-col gap-6">
           <header className="flex items-center justify-between text-white">
             <div>
-              <h1 className="text-3xl font-bold">Choisis ta sauvegarde</h1>
-              <p className="mt-1 text-sm text-indigo-100">
-                Chaque slot correspond à une aventure différente. Sélectionne
-                un slot vide pour commencer une nouvelle partie.
-              </p>
+              <h1 className="text-3xl font-bold">{text.title}</h1>
+              <p className="mt-1 text-sm text-indigo-100">{text.intro}</p>
+              {slotLimit !== null && (
+                <p className="mt-1 text-xs text-indigo-200">
+                  {text.usage(saves.length, slotLimit)} ·{" "}
+                  {repository.kind === "local"
+                    ? text.localSaves
+                    : text.onlineSaves}
+                </p>
+              )}
             </div>
-            <button
-              type="button"
-              onClick={() => void loadSaves()}
-              className="rounded-lg bg-white/20 px-4 py-2 text-sm font-semibold text-white transition hover:bg-white/30"
-              disabled={isRefreshing}
-            >
-              {isRefreshing ? "Actualisation..." : "Actualiser"}
-            </button>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => void loadSaves()}
+                className="rounded-lg bg-white/20 px-4 py-2 text-sm font-semibold text-white transition hover:bg-white/30"
+                disabled={isRefreshing}
+              >
+                {isRefreshing ? text.refreshing : text.refresh}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleImportClick("new")}
+                className="rounded-lg bg-white/20 px-4 py-2 text-sm font-semibold text-white transition hover:bg-white/30 disabled:cursor-not-allowed disabled:opacity-60"
+                disabled={isUpdating || isAtLimit}
+                title={text.importNewTitle}
+              >
+                {text.import}
+              </button>
+              {supabaseAvailable && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    onStorageChange(
+                      repository.kind === "local" ? "supabase" : "local"
+                    )
+                  }
+                  className="rounded-lg bg-white/20 px-4 py-2 text-sm font-semibold text-white transition hover:bg-white/30"
+                >
+                  {repository.kind === "local"
+                    ? text.switchToOnline
+                    : text.switchToLocal}
+                </button>
+              )}
+              {onSignOut && (
+                <button
+                  type="button"
+                  onClick={onSignOut}
+                  className="rounded-lg bg-white/20 px-4 py-2 text-sm font-semibold text-white transition hover:bg-white/30"
+                >
+                  {text.signOut}
+                </button>
+              )}
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(event) => void handleImportFile(event)}
+            />
           </header>
 
+          {canMigrateLocalSaves && (
+            <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg bg-white/90 px-4 py-3 text-sm text-slate-700 shadow">
+              <p>{text.migratePrompt}</p>
+              <button
+                type="button"
+                onClick={() => void handleMigrateLocalSaves()}
+                disabled={isUpdating}
+                className="rounded-md bg-orange-500 px-3 py-1 font-semibold text-white transition hover:bg-orange-600 disabled:cursor-not-allowed disabled:bg-slate-400"
+              >
+                {text.migrate}
+              </button>
+            </div>
+          )}
+
           {error && (
             <div className="rounded-lg border border-red-300 bg-white/90 px-4 py-3 text-sm font-medium text-red-600 shadow">
-              {error}
+              {typeof error === "string"
+                ? text[error]
+                : text.importRejected(error.importRejected)}
             </div>
           )}
 
           <ul className="grid gap-4 md:grid-cols-2">
             {orderedSaves.map((save) => {
               const isEmpty = !save.character_name;
+              const parsedState = isEmpty
+                ? null
+                : parseGameState(save.game_state);
+              const stateError =
+                parsedState && !parsedState.ok ? parsedState.error : null;
+              const activeQuests = parsedState?.ok
+                ? getQuestsByStatus(parsedState.state, "active")
+                : [];
+              const campaign = parsedState?.ok
+                ? getCampaign(parsedState.state.campaign)
+                : null;
 
               return (
                 <li key={save.id}>
                   <button
                     type="button"
-                    onClick={() => onSelectSlot(save.save_slot)}
-                    className="group flex w-full flex-col rounded-2xl bg-white p-6 text-left shadow-lg transition hover:-translate-y-1 hover:shadow-2xl"
+                    onClick={() => {
+                      if (!stateError) {
+                        onSelectSlot(save.save_slot);
+                      }
+                    }}
+                    aria-disabled={Boolean(stateError)}
+                    className={`group flex w-full flex-col rounded-2xl bg-white p-6 text-left shadow-lg transition ${
+                      stateError
+                        ? "cursor-not-allowed ring-2 ring-red-400"
+                        : "hover:-translate-y-1 hover:shadow-2xl"
+                    }`}
                   >
                     <div className="flex items-start justify-between">
                       <div>
                         <p className="text-xs uppercase tracking-wide text-slate-400">
-                          Slot {save.save_slot}
+                          {text.slotLabel(save.save_slot)}
                         </p>
                         <h2 className="mt-1 text-xl font-semibold text-slate-900">
-                          {isEmpty ? "Nouvelle partie" : save.save_name ?? "Aventure en cours"}
+                          {isEmpty ? text.newGame : save.save_name ?? text.untitled}
                         </h2>
                       </div>
-                      {!isEmpty && (
+                      <div className="flex flex-wrap justify-end gap-1">
+                        {!isEmpty && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                handleRename(save);
+                              }}
+                              disabled={isUpdating}
+                              className="rounded-md bg-slate-200 px-3 py-1 text-sm font-semibold text-slate-700 transition hover:bg-slate-300"
+                            >
+                              {text.rename}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                void handleDuplicate(save.save_slot);
+                              }}
+                              disabled={
+                                isUpdating || isAtLimit || Boolean(stateError)
+                              }
+                              title={
+                                isAtLimit
+                                  ? text.noFreeSlot
+                                  : text.duplicateTitle
+                              }
+                              className="rounded-md bg-slate-200 px-3 py-1 text-sm font-semibold text-slate-700 transition hover:bg-slate-300 disabled:cursor-not-allowed disabled:opacity-50"
+                            >
+                              {text.duplicate}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                setHistorySlot((current) =>
+                                  current === save.save_slot
+                                    ? null
+                                    : save.save_slot
+                                );
+                              }}
+                              aria-expanded={historySlot === save.save_slot}
+                              className="rounded-md bg-slate-200 px-3 py-1 text-sm font-semibold text-slate-700 transition hover:bg-slate-300"
+                            >
+                              {text.history}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                void handleExport(save.save_slot);
+                              }}
+                              disabled={isUpdating || Boolean(stateError)}
+                              className="rounded-md bg-slate-200 px-3 py-1 text-sm font-semibold text-slate-700 transition hover:bg-slate-300 disabled:cursor-not-allowed disabled:opacity-50"
+                            >
+                              {text.export}
+                            </button>
+                          </>
+                        )}
+                        <button
+                          type="button"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            handleImportClick(save.save_slot);
+                          }}
+                          disabled={isUpdating}
+                          title={text.importHereTitle}
+                          className="rounded-md bg-slate-200 px-3 py-1 text-sm font-semibold text-slate-700 transition hover:bg-slate-300"
+                        >
+                          {text.import}
+                        </button>
                         <button
                           type="button"
                           onClick={(event) => {
                             event.stopPropagation();
-                            void handleDelete(save.save_slot);
+                            handleDelete(save.save_slot);
                           }}
+                          disabled={isUpdating}
                           className="rounded-md bg-red-500 px-3 py-1 text-sm font-semibold text-white transition hover:bg-red-600"
                         >
-                          Supprimer
+                          {messages.common.delete}
                         </button>
-                      )}
+                      </div>
                     </div>
 
                     <div className="mt-4 space-y-2 text-sm text-slate-600">
                       {isEmpty ? (
-                        <p>Commence une nouvelle histoire dans ce slot.</p>
+                        <p>{text.emptySlot}</p>
                       ) : (
                         <>
                           <p>
-                            Personnage :{" "}
+                            {text.character}{" "}
                             <span className="font-semibold text-slate-800">
                               {save.character_name}
                             </span>
                           </p>
+                          {campaign && (
+                            <p>
+                              {text.campaign}{" "}
+                              <span className="font-semibold text-slate-800">
+                                {
+                                  localizeEntry(
+                                    messages.catalog.campaigns,
+                                    campaign.id,
+                                    campaign
+                                  ).name
+                                }
+                              </span>
+                            </p>
+                          )}
                           <p>
-                            Niveau :{" "}
+                            {text.level}{" "}
                             <span className="font-semibold text-slate-800">
                               {save.level ?? 1}
                             </span>
                           </p>
                           <p>
-                            Lieu :{" "}
+                            {text.location}{" "}
                             <span className="font-semibold text-slate-800">
-                              {save.location ?? "Début de l'aventure"}
+                              {save.location ?? text.startingLocation}
                             </span>
                           </p>
+                          {activeQuests.length > 0 && (
+                            <div>
+                              <p>{text.activeQuests}</p>
+                              <ul className="mt-1 list-inside list-disc text-slate-800">
+                                {activeQuests.slice(0, 3).map((quest) => (
+                                  <li key={quest.id}>
+                                    {quest.title}{" "}
+                                    <span className="text-xs text-slate-400">
+                                      ({quest.rank})
+                                    </span>
+                                  </li>
+                                ))}
+                                {activeQuests.length > 3 && (
+                                  <li className="text-xs text-slate-400">
+                                    {text.moreQuests(activeQuests.length - 3)}
+                                  </li>
+                                )}
+                              </ul>
+                            </div>
+                          )}
                           <p className="text-xs text-slate-400">
-                            Dernière sauvegarde :{" "}
+                            {text.lastSave}{" "}
                             {save.last_save
-                              ? formatDate(save.last_save)
-                              : "inconnue"}
+                              ? formatSaveDate(save.last_save)
+                              : messages.common.unknownDate}
                           </p>
                         </>
                       )}
                     </div>
 
-                    <div className="mt-6 rounded-lg bg-slate-100 px-4 py-3 text-sm font-semibold text-slate-700 transition group-hover:bg-orange-500 group-hover:text-white">
-                      {isEmpty ? "Commencer une nouvelle aventure" : "Continuer"}
-                    </div>
+                    {stateError ? (
+                      <div className="mt-6 rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">
+                        <p className="font-semibold">{text.unreadable}</p>
+                        <p className="mt-1 text-xs text-red-500">{stateError}</p>
+                      </div>
+                    ) : (
+                      <div className="mt-6 rounded-lg bg-slate-100 px-4 py-3 text-sm font-semibold text-slate-700 transition group-hover:bg-orange-500 group-hover:text-white">
+                        {isEmpty ? text.startAdventure : text.continue}
+                      </div>
+                    )}
                   </button>
+                  {historySlot === save.save_slot && !isEmpty && (
+                    <div className="mt-2 rounded-2xl bg-white/95 p-5 shadow-lg">
+                      <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide text-slate-400">
+                        {text.restorePoints}
+                      </h3>
+                      <SnapshotTimeline
+                        repository={repository}
+                        slotNumber={save.save_slot}
+                        disabled={isUpdating}
+                        canBranch={!isAtLimit}
+                        onRestore={(snapshot) =>
+                          handleRestoreSnapshot(save.save_slot, snapshot)
+                        }
+                        onBranch={(snapshot) =>
+                          void handleBranchSnapshot(save.save_slot, snapshot)
+                        }
+                      />
+                    </div>
+                  )}
                 </li>
               );
             })}
+            <li>
+              <button
+                type="button"
+                onClick={() => void handleCreate()}
+                disabled={isUpdating || isAtLimit}
+                className="flex h-full min-h-40 w-full flex-col items-center justify-center rounded-2xl border-2 border-dashed border-white/50 p-6 text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                <span className="text-3xl font-bold">+</span>
+                <span className="mt-2 font-semibold">{text.newSlot}</span>
+                {isAtLimit && (
+                  <span className="mt-1 text-xs text-indigo-100">
+                    {text.limitReached(slotLimit)}
+                  </span>
+                )}
+              </button>
+            </li>
           </ul>
         </div>
       </div>
@@ -224,17 +681,3 @@ export default function SaveSlotSelector({
 
   return renderContent();
 }
-
-function formatDate(value: string): string {
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) {
-    return "inconnue";
-  }
-  return date.toLocaleString("fr-FR", {
-    day: "2-digit",
-    month: "2-digit",
-    year: "numeric",
-    hour: "2-digit",
-    minute: "2-digit",
-  });
-}
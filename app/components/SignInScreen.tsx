@@ -0,0 +1,119 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { useI18n } from "@/components/I18nProvider";
+
+type SignInScreenProps = {
+  supabase: SupabaseClient;
+  onPlayLocally: () => void;
+};
+
+type Status = "idle" | "sending" | "sent";
+
+export default function SignInScreen({
+  supabase,
+  onPlayLocally,
+}: SignInScreenProps) {
+  const [email, setEmail] = useState("");
+  const [status, setStatus] = useState<Status>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const { messages } = useI18n();
+  const text = messages.signIn;
+
+  const handleMagicLink = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const address = email.trim();
+    if (!address) {
+      return;
+    }
+
+    setStatus("sending");
+    setError(null);
+    const { error: signInError } = await supabase.auth.signInWithOtp({
+      email: address,
+      options: { emailRedirectTo: window.location.origin },
+    });
+
+    if (signInError) {
+      console.error("[auth] failed to send magic link", signInError);
+      setError(text.magicLinkFailed);
+      setStatus("idle");
+      return;
+    }
+    setStatus("sent");
+  };
+
+  const handleGuest = async () => {
+    setStatus("sending");
+    setError(null);
+    const { error: signInError } = await supabase.auth.signInAnonymously();
+
+    if (signInError) {
+      console.error("[auth] anonymous sign-in failed", signInError);
+      setError(text.guestUnavailable);
+      setStatus("idle");
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-indigo-500 to-purple-700 p-5">
+      <div className="w-full max-w-xl rounded-2xl bg-white p-10 shadow-2xl">
+        <h1 className="text-center text-3xl font-semibold text-orange-500">
+          {text.title}
+        </h1>
+        <p className="mt-3 text-center text-slate-500">{text.subtitle}</p>
+
+        {status === "sent" ? (
+          <p className="mt-8 rounded-lg bg-emerald-50 px-4 py-3 text-center text-sm text-emerald-700">
+            {text.linkSentBefore}{" "}
+            <span className="font-semibold">{email.trim()}</span>
+            {text.linkSentAfter}
+          </p>
+        ) : (
+          <form onSubmit={(event) => void handleMagicLink(event)}>
+            <input
+              type="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              placeholder={text.emailPlaceholder}
+              autoComplete="email"
+              required
+              className="mt-8 w-full rounded-lg border-2 border-slate-200 p-4 text-lg outline-none focus:border-orange-500"
+            />
+            <button
+              type="submit"
+              disabled={status === "sending" || !email.trim()}
+              className="mt-4 w-full rounded-lg bg-orange-500 px-4 py-3 text-lg font-semibold text-white transition hover:bg-orange-600 disabled:cursor-not-allowed disabled:bg-slate-400"
+            >
+              {status === "sending" ? text.sending : text.sendMagicLink}
+            </button>
+          </form>
+        )}
+
+        <button
+          type="button"
+          onClick={() => void handleGuest()}
+          disabled={status === "sending"}
+          className="mt-3 w-full rounded-lg bg-slate-200 px-4 py-3 text-lg font-semibold text-slate-600 transition hover:bg-slate-300"
+        >
+          {text.playAsGuest}
+        </button>
+        <p className="mt-2 text-center text-xs text-slate-400">
+          {text.guestNote}
+        </p>
+        <button
+          type="button"
+          onClick={onPlayLocally}
+          className="mt-4 w-full text-center text-sm font-semibold text-indigo-500 underline-offset-2 hover:underline"
+        >
+          {text.playLocally}
+        </button>
+
+        {error && (
+          <p className="mt-4 text-sm font-medium text-red-600">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { SaveRepository } from "@/lib/saveRepository";
+import type { SaveSnapshot } from "@/lib/snapshots";
+
+type SnapshotTimelineProps = {
+  repository: SaveRepository;
+  slotNumber: number;
+  disabled: boolean;
+  canBranch: boolean;
+  onRestore: (snapshot: SaveSnapshot) => void;
+  onBranch: (snapshot: SaveSnapshot) => void;
+};
+
+export default function SnapshotTimeline({
+  repository,
+  slotNumber,
+  disabled,
+  canBranch,
+  onRestore,
+  onBranch,
+}: SnapshotTimelineProps) {
+  const [snapshots, setSnapshots] = useState<SaveSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+  const { messages, formatDate } = useI18n();
+  const text = messages.snapshots;
+
+  const loadSnapshots = useCallback(async () => {
+    setLoading(true);
+    setFailed(false);
+    try {
+      setSnapshots(await repository.listSnapshots(slotNumber));
+    } catch (fetchError) {
+      console.error("[snapshot] failed to load history", fetchError);
+      setFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [repository, slotNumber]);
+
+  useEffect(() => {
+    void loadSnapshots();
+  }, [loadSnapshots]);
+
+  if (loading) {
+    return <p className="text-sm text-slate-400">{messages.common.loading}</p>;
+  }
+
+  if (failed) {
+    return (
+      <p className="text-sm font-medium text-red-600">{text.loadFailed}</p>
+    );
+  }
+
+  if (snapshots.length === 0) {
+    return <p className="text-sm text-slate-500">{text.empty}</p>;
+  }
+
+  return (
+    <ol className="relative space-y-3 border-l-2 border-orange-200 pl-4">
+      {snapshots.map((snapshot) => (
+        <li key={snapshot.id} className="relative">
+          <span className="absolute -left-[1.4rem] top-1.5 h-3 w-3 rounded-full bg-orange-500" />
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div className="text-sm text-slate-600">
+              <p className="font-semibold text-slate-800">
+                {text.reasons[snapshot.reason]}
+              </p>
+              <p className="text-xs text-slate-400">
+                {formatDate(snapshot.created_at)}
+              </p>
+              <p>{text.summary(snapshot.level ?? 1, snapshot.location)}</p>
+            </div>
+            <div className="flex gap-1">
+              <button
+                type="button"
+                onClick={() => onRestore(snapshot)}
+                disabled={disabled}
+                className="rounded-md bg-orange-500 px-3 py-1 text-sm font-semibold text-white transition hover:bg-orange-600 disabled:cursor-not-allowed disabled:bg-slate-400"
+              >
+                {text.restore}
+              </button>
+              <button
+                type="button"
+                onClick={() => onBranch(snapshot)}
+                disabled={disabled || !canBranch}
+                title={canBranch ? text.branchTitle : text.noFreeSlot}
+                className="rounded-md bg-slate-200 px-3 py-1 text-sm font-semibold text-slate-700 transition hover:bg-slate-300 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {text.branch}
+              </button>
+            </div>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
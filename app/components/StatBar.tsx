@@ -0,0 +1,30 @@
+type StatBarProps = {
+  value: number;
+  max: number;
+  /** Tailwind background class of the filled part. */
+  color: string;
+  label: string;
+};
+
+/** A labelled gauge such as HP or MP, shared by the character and battle HUDs. */
+export default function StatBar({ value, max, color, label }: StatBarProps) {
+  const percent =
+    max > 0 ? Math.min(100, Math.max(0, Math.round((value / max) * 100))) : 0;
+
+  return (
+    <div className="mt-1 flex items-center gap-2">
+      <span className="w-6 text-[10px] font-semibold text-slate-400">
+        {label}
+      </span>
+      <div className="h-2 flex-1 overflow-hidden rounded-full bg-slate-200 dark:bg-slate-700">
+        <div
+          className={`h-full ${color} transition-all`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <span className="w-20 text-right text-[10px] text-slate-500 dark:text-slate-400">
+        {value}/{max}
+      </span>
+    </div>
+  );
+}
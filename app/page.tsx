@@ -1,5 +1,12 @@
 import App from "./App";
+import LanguageSwitcher from "./components/LanguageSwitcher";
+import { I18nProvider } from "@/components/I18nProvider";
 
 export default function Home() {
-  return <App />;
-}
\ No newline at end of file
+  return (
+    <I18nProvider>
+      <LanguageSwitcher />
+      <App />
+    </I18nProvider>
+  );
+}
@@ -1,17 +1,20 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { ChatKit, useChatKit } from "@openai/chatkit-react";
-import {
-  STARTER_PROMPTS,
-  PLACEHOLDER_INPUT,
-  GREETING,
-  CREATE_SESSION_ENDPOINT,
-  WORKFLOW_ID,
-  getThemeConfig,
-} from "@/lib/config";
+import { CREATE_SESSION_ENDPOINT, getThemeConfig } from "@/lib/config";
 import { ErrorOverlay } from "./ErrorOverlay";
+import { useI18n } from "./I18nProvider";
 import type { ColorScheme } from "@/hooks/useColorScheme";
+import type { ClientToolParams, ClientToolResult } from "@/lib/clientTools";
+import {
+  requestSession,
+  type SessionRequest,
+  type SessionSecret,
+} from "@/lib/chatKitSession";
+import { LOCALE_TAGS } from "@/lib/i18n";
+import type { StartScreenConfig } from "@/lib/startScreen";
+import { GUILD_THEMES, isGuildTheme, type GuildTheme } from "@/lib/guildThemes";
 
 export type FactAction = {
   type: "save";
@@ -20,10 +23,26 @@ export type FactAction = {
 };
 
 type ChatKitPanelProps = {
+  slotId: number;
+  /** Identity of the save, which unlike `slotId` is never reused. */
+  saveUid: string;
+  /** Workflow of the slot's campaign. */
+  workflowId: string;
+  initialThreadId: string | null;
+  /** Greeting and prompts shown before the first message of a thread. */
+  startScreen: StartScreenConfig;
+  getAccessToken: () => Promise<string | null>;
   theme: ColorScheme;
+  guildTheme: GuildTheme;
   onWidgetAction: (action: FactAction) => Promise<void>;
   onResponseEnd: () => void;
   onThemeRequest: (scheme: ColorScheme) => void;
+  onGuildThemeRequest: (guildTheme: GuildTheme) => void;
+  onThreadChange: (threadId: string | null) => void;
+  onGameTool: (
+    name: string,
+    params: ClientToolParams
+  ) => Promise<ClientToolResult | null>;
 };
 
 type ErrorState = {
@@ -31,6 +50,8 @@ type ErrorState = {
   session: string | null;
   integration: string | null;
   retryable: boolean;
+  /** When a rate-limited session may be requested again, in epoch ms. */
+  retryAt: number | null;
 };
 
 const isBrowser = typeof window !== "undefined";
@@ -41,17 +62,33 @@ const createInitialErrors = (): ErrorState => ({
   session: null,
   integration: null,
   retryable: false,
+  retryAt: null,
 });
 
+const SESSION_REFRESH_MARGIN_MS = 60_000;
+
 export function ChatKitPanel({
+  slotId,
+  saveUid,
+  workflowId,
+  initialThreadId,
+  startScreen,
+  getAccessToken,
   theme,
+  guildTheme,
   onWidgetAction,
   onResponseEnd,
   onThemeRequest,
+  onGuildThemeRequest,
+  onThreadChange,
+  onGameTool,
 }: ChatKitPanelProps) {
   const processedFacts = useRef(new Set<string>());
   const [errors, setErrors] = useState<ErrorState>(() => createInitialErrors());
   const [isInitializingSession, setIsInitializingSession] = useState(true);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const prefetchedSessionRef = useRef<SessionSecret | null>(null);
+  const refreshTimeoutRef = useRef<number | null>(null);
   const isMountedRef = useRef(true);
   const [scriptStatus, setScriptStatus] = useState<
     "pending" | "ready" | "error"
@@ -61,6 +98,8 @@ export function ChatKitPanel({
       : "pending"
   );
   const [widgetInstanceKey, setWidgetInstanceKey] = useState(0);
+  const { locale, messages } = useI18n();
+  const text = messages.chat;
 
   const setErrorState = useCallback((updates: Partial<ErrorState>) => {
     setErrors((current) => ({ ...current, ...updates }));
@@ -93,8 +132,7 @@ export function ChatKitPanel({
         return;
       }
       setScriptStatus("error");
-      const detail = (event as CustomEvent<unknown>)?.detail ?? "unknown error";
-      setErrorState({ script: `Error: ${detail}`, retryable: false });
+      setErrorState({ script: text.scriptUnavailable, retryable: false });
       setIsInitializingSession(false);
     };
 
@@ -111,8 +149,7 @@ export function ChatKitPanel({
         if (!window.customElements?.get("openai-chatkit")) {
           handleError(
             new CustomEvent("chatkit-script-error", {
-              detail:
-                "ChatKit web component is unavailable. Verify that the script URL is reachable.",
+              detail: text.scriptUnavailable,
             })
           );
         }
@@ -129,21 +166,21 @@ export function ChatKitPanel({
         window.clearTimeout(timeoutId);
       }
     };
-  }, [scriptStatus, setErrorState]);
+  }, [scriptStatus, setErrorState, text.scriptUnavailable]);
 
   const isWorkflowConfigured = Boolean(
-    WORKFLOW_ID && !WORKFLOW_ID.startsWith("wf_replace")
+    workflowId && !workflowId.startsWith("wf_replace")
   );
 
   useEffect(() => {
     if (!isWorkflowConfigured && isMountedRef.current) {
       setErrorState({
-        session: "Set NEXT_PUBLIC_CHATKIT_WORKFLOW_ID in your .env.local file.",
+        session: text.missingWorkflow,
         retryable: false,
       });
       setIsInitializingSession(false);
     }
-  }, [isWorkflowConfigured, setErrorState]);
+  }, [isWorkflowConfigured, setErrorState, text.missingWorkflow]);
 
   const handleResetChat = useCallback(() => {
     processedFacts.current.clear();
@@ -157,19 +194,67 @@ export function ChatKitPanel({
     setWidgetInstanceKey((prev) => prev + 1);
   }, []);
 
+  const sessionRequest = useMemo<SessionRequest>(
+    () => ({ getAccessToken, workflowId, slotId, saveUid, locale, text }),
+    [getAccessToken, locale, saveUid, slotId, text, workflowId]
+  );
+
+  const schedulePrefetch = useCallback(
+    (session: SessionSecret) => {
+      if (refreshTimeoutRef.current !== null) {
+        window.clearTimeout(refreshTimeoutRef.current);
+        refreshTimeoutRef.current = null;
+      }
+      if (!isBrowser || session.expiresAt === null) {
+        return;
+      }
+
+      // Fetch the next secret a minute early (or halfway through a shorter
+      // lifetime) so ChatKit swaps it in without waiting on the network.
+      const lifetime = session.expiresAt - Date.now();
+      const delay = Math.max(
+        lifetime - SESSION_REFRESH_MARGIN_MS,
+        lifetime / 2,
+        0
+      );
+      refreshTimeoutRef.current = window.setTimeout(() => {
+        refreshTimeoutRef.current = null;
+        void requestSession(sessionRequest).then((result) => {
+          if (result.ok) {
+            prefetchedSessionRef.current = result.session;
+          } else {
+            console.warn(
+              "[ChatKitPanel] session prefetch failed",
+              result.error
+            );
+          }
+        });
+      }, delay);
+    },
+    [sessionRequest]
+  );
+
+  useEffect(() => {
+    return () => {
+      if (refreshTimeoutRef.current !== null) {
+        window.clearTimeout(refreshTimeoutRef.current);
+      }
+      prefetchedSessionRef.current = null;
+    };
+  }, [schedulePrefetch]);
+
   const getClientSecret = useCallback(
     async (currentSecret: string | null) => {
       if (isDev) {
         console.info("[ChatKitPanel] getClientSecret invoked", {
           currentSecretPresent: Boolean(currentSecret),
-          workflowId: WORKFLOW_ID,
+          workflowId,
           endpoint: CREATE_SESSION_ENDPOINT,
         });
       }
 
       if (!isWorkflowConfigured) {
-        const detail =
-          "Set NEXT_PUBLIC_CHATKIT_WORKFLOW_ID in your .env.local file.";
+        const detail = text.missingWorkflow;
         if (isMountedRef.current) {
           setErrorState({ session: detail, retryable: false });
           setIsInitializingSession(false);
@@ -177,102 +262,83 @@ export function ChatKitPanel({
         throw new Error(detail);
       }
 
+      const prefetched = prefetchedSessionRef.current;
+      prefetchedSessionRef.current = null;
+      if (
+        currentSecret &&
+        prefetched &&
+        prefetched.clientSecret !== currentSecret &&
+        !isExpiringSoon(prefetched)
+      ) {
+        schedulePrefetch(prefetched);
+        return prefetched.clientSecret;
+      }
+
       if (isMountedRef.current) {
-        if (!currentSecret) {
+        if (currentSecret) {
+          setIsReconnecting(true);
+        } else {
           setIsInitializingSession(true);
         }
-        setErrorState({ session: null, integration: null, retryable: false });
+        setErrorState({
+          session: null,
+          integration: null,
+          retryable: false,
+          retryAt: null,
+        });
       }
 
       try {
-        const response = await fetch(CREATE_SESSION_ENDPOINT, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            workflow: { id: WORKFLOW_ID },
-            chatkit_configuration: {
-              // enable attachments
-              file_upload: {
-                enabled: true,
-              },
-            },
-          }),
-        });
-
-        const raw = await response.text();
-
-        if (isDev) {
-          console.info("[ChatKitPanel] createSession response", {
-            status: response.status,
-            ok: response.ok,
-            bodyPreview: raw.slice(0, 1600),
-          });
-        }
-
-        let data: Record<string, unknown> = {};
-        if (raw) {
-          try {
-            data = JSON.parse(raw) as Record<string, unknown>;
-          } catch (parseError) {
-            console.error(
-              "Failed to parse create-session response",
-              parseError
-            );
+        const result = await requestSession(sessionRequest);
+        if (!result.ok) {
+          if (isMountedRef.current) {
+            // A failed refresh mid-game can be retried by restarting the chat.
+            setErrorState({
+              session: result.error,
+              retryable: result.retryAt !== null || Boolean(currentSecret),
+              retryAt: result.retryAt,
+            });
           }
-        }
-
-        if (!response.ok) {
-          const detail = extractErrorDetail(data, response.statusText);
-          console.error("Create session request failed", {
-            status: response.status,
-            body: data,
-          });
-          throw new Error(detail);
-        }
-
-        const clientSecret = data?.client_secret as string | undefined;
-        if (!clientSecret) {
-          throw new Error("Missing client secret in response");
+          throw new Error(result.error);
         }
 
         if (isMountedRef.current) {
           setErrorState({ session: null, integration: null });
         }
+        schedulePrefetch(result.session);
 
-        return clientSecret;
-      } catch (error) {
-        console.error("Failed to create ChatKit session", error);
-        const detail =
-          error instanceof Error
-            ? error.message
-            : "Unable to start ChatKit session.";
-        if (isMountedRef.current) {
-          setErrorState({ session: detail, retryable: false });
-        }
-        throw error instanceof Error ? error : new Error(detail);
+        return result.session.clientSecret;
       } finally {
-        if (isMountedRef.current && !currentSecret) {
-          setIsInitializingSession(false);
+        if (isMountedRef.current) {
+          if (currentSecret) {
+            setIsReconnecting(false);
+          } else {
+            setIsInitializingSession(false);
+          }
         }
       }
     },
-    [isWorkflowConfigured, setErrorState]
+    [
+      isWorkflowConfigured,
+      schedulePrefetch,
+      sessionRequest,
+      setErrorState,
+      text.missingWorkflow,
+      workflowId,
+    ]
   );
 
   const chatkit = useChatKit({
     api: { getClientSecret },
+    locale: LOCALE_TAGS[locale],
+    initialThread: initialThreadId,
     theme: {
       colorScheme: theme,
-      ...getThemeConfig(theme),
-    },
-    startScreen: {
-      greeting: GREETING,
-      prompts: STARTER_PROMPTS,
+      ...getThemeConfig(theme, guildTheme),
     },
+    startScreen,
     composer: {
-      placeholder: PLACEHOLDER_INPUT,
+      placeholder: text.placeholder,
       attachments: {
         // Enable attachments
         enabled: true,
@@ -286,15 +352,37 @@ export function ChatKitPanel({
       params: Record<string, unknown>;
     }) => {
       if (invocation.name === "switch_theme") {
-        const requested = invocation.params.theme;
-        if (requested === "light" || requested === "dark") {
-          if (isDev) {
-            console.debug("[ChatKitPanel] switch_theme", requested);
-          }
-          onThemeRequest(requested);
-          return { success: true };
+        const { theme: requestedScheme, guild: requestedGuild } =
+          invocation.params;
+        const scheme =
+          requestedScheme === "light" || requestedScheme === "dark"
+            ? requestedScheme
+            : null;
+        const guild = isGuildTheme(requestedGuild) ? requestedGuild : null;
+        if (
+          (requestedScheme !== undefined && !scheme) ||
+          (requestedGuild !== undefined && !guild) ||
+          (!scheme && !guild)
+        ) {
+          return {
+            success: false,
+            reason: `Expected theme "light" or "dark" and/or guild ${GUILD_THEMES.join(", ")}`,
+          };
+        }
+        if (isDev) {
+          console.debug("[ChatKitPanel] switch_theme", scheme, guild);
+        }
+        if (scheme) {
+          onThemeRequest(scheme);
         }
-        return { success: false };
+        if (guild) {
+          onGuildThemeRequest(guild);
+        }
+        return {
+          success: true,
+          theme: scheme ?? theme,
+          guild: guild ?? guildTheme,
+        };
       }
 
       if (invocation.name === "record_fact") {
@@ -312,6 +400,14 @@ export function ChatKitPanel({
         return { success: true };
       }
 
+      const gameToolResult = await onGameTool(
+        invocation.name,
+        invocation.params
+      );
+      if (gameToolResult) {
+        return gameToolResult;
+      }
+
       return { success: false };
     },
     onResponseEnd: () => {
@@ -320,8 +416,9 @@ export function ChatKitPanel({
     onResponseStart: () => {
       setErrorState({ integration: null, retryable: false });
     },
-    onThreadChange: () => {
+    onThreadChange: ({ threadId }: { threadId: string | null }) => {
       processedFacts.current.clear();
+      onThreadChange(threadId);
     },
     onError: ({ error }: { error: unknown }) => {
       // Note that Chatkit UI handles errors for your users.
@@ -339,7 +436,7 @@ export function ChatKitPanel({
       hasControl: Boolean(chatkit.control),
       scriptStatus,
       hasError: Boolean(blockingError),
-      workflowId: WORKFLOW_ID,
+      workflowId,
     });
   }
 
@@ -357,62 +454,24 @@ export function ChatKitPanel({
       <ErrorOverlay
         error={blockingError}
         fallbackMessage={
-          blockingError || !isInitializingSession
+          blockingError
             ? null
-            : "Loading assistant session..."
+            : isInitializingSession
+              ? text.loadingSession
+              : isReconnecting
+                ? text.reconnecting
+                : null
         }
         onRetry={blockingError && errors.retryable ? handleResetChat : null}
-        retryLabel="Restart chat"
+        retryAt={errors.retryAt}
       />
     </div>
   );
 }
 
-function extractErrorDetail(
-  payload: Record<string, unknown> | undefined,
-  fallback: string
-): string {
-  if (!payload) {
-    return fallback;
-  }
-
-  const error = payload.error;
-  if (typeof error === "string") {
-    return error;
-  }
-
-  if (
-    error &&
-    typeof error === "object" &&
-    "message" in error &&
-    typeof (error as { message?: unknown }).message === "string"
-  ) {
-    return (error as { message: string }).message;
-  }
-
-  const details = payload.details;
-  if (typeof details === "string") {
-    return details;
-  }
-
-  if (details && typeof details === "object" && "error" in details) {
-    const nestedError = (details as { error?: unknown }).error;
-    if (typeof nestedError === "string") {
-      return nestedError;
-    }
-    if (
-      nestedError &&
-      typeof nestedError === "object" &&
-      "message" in nestedError &&
-      typeof (nestedError as { message?: unknown }).message === "string"
-    ) {
-      return (nestedError as { message: string }).message;
-    }
-  }
-
-  if (typeof payload.message === "string") {
-    return payload.message;
-  }
-
-  return fallback;
+function isExpiringSoon(session: SessionSecret): boolean {
+  return (
+    session.expiresAt !== null &&
+    session.expiresAt - Date.now() < SESSION_REFRESH_MARGIN_MS / 2
+  );
 }
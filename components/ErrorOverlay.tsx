@@ -1,12 +1,15 @@
 "use client";
 
-import type { ReactNode } from "react";
+import { useEffect, useState, type ReactNode } from "react";
+import { useI18n } from "./I18nProvider";
 
 type ErrorOverlayProps = {
   error: string | null;
   fallbackMessage?: ReactNode;
   onRetry?: (() => void) | null;
   retryLabel?: string;
+  /** Keeps the retry button disabled, with a countdown, until this epoch ms. */
+  retryAt?: number | null;
 };
 
 export function ErrorOverlay({
@@ -14,12 +17,33 @@ export function ErrorOverlay({
   fallbackMessage,
   onRetry,
   retryLabel,
+  retryAt = null,
 }: ErrorOverlayProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const { messages } = useI18n();
+
+  useEffect(() => {
+    if (retryAt === null) {
+      return;
+    }
+    setNow(Date.now());
+    const intervalId = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retryAt) {
+        window.clearInterval(intervalId);
+      }
+    }, 1000);
+    return () => window.clearInterval(intervalId);
+  }, [retryAt]);
+
   if (!error && !fallbackMessage) {
     return null;
   }
 
   const content = error ?? fallbackMessage;
+  const cooldownSeconds =
+    retryAt === null ? 0 : Math.max(0, Math.ceil((retryAt - now) / 1000));
 
   if (!content) {
     return null;
@@ -29,13 +53,19 @@ export function ErrorOverlay({
     <div className="pointer-events-none absolute inset-0 z-10 flex h-full w-full flex-col justify-center rounded-[inherit] bg-white/85 p-6 text-center backdrop-blur dark:bg-slate-900/90">
       <div className="pointer-events-auto mx-auto w-full max-w-md rounded-xl bg-white px-6 py-4 text-lg font-medium text-slate-700 dark:bg-transparent dark:text-slate-100">
         <div>{content}</div>
+        {error && cooldownSeconds > 0 ? (
+          <p className="mt-2 text-sm text-slate-500 dark:text-slate-400">
+            {messages.chat.retryIn(cooldownSeconds)}
+          </p>
+        ) : null}
         {error && onRetry ? (
           <button
             type="button"
-            className="mt-4 inline-flex items-center justify-center rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-none transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 focus-visible:ring-offset-2 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-200"
+            className="mt-4 inline-flex items-center justify-center rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-none transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 focus-visible:ring-offset-2 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-200 disabled:cursor-not-allowed disabled:opacity-50"
             onClick={onRetry}
+            disabled={cooldownSeconds > 0}
           >
-            {retryLabel ?? "Restart chat"}
+            {retryLabel ?? messages.chat.restart}
           </button>
         ) : null}
       </div>
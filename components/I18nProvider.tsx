@@ -0,0 +1,50 @@
+"use client";
+
+import { createContext, useContext, useMemo, type ReactNode } from "react";
+import { useLocale } from "@/hooks/useLocale";
+import {
+  DEFAULT_LOCALE,
+  formatDateTime,
+  getMessages,
+  type Locale,
+  type Messages,
+} from "@/lib/i18n";
+
+type I18nContextValue = {
+  locale: Locale;
+  messages: Messages;
+  setLocale: (locale: Locale) => void;
+  /** Formats an ISO date for the current locale; null when it is invalid. */
+  formatDate: (
+    value: string,
+    options?: Intl.DateTimeFormatOptions
+  ) => string | null;
+};
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  messages: getMessages(DEFAULT_LOCALE),
+  setLocale: () => {},
+  formatDate: (value, options) =>
+    formatDateTime(value, DEFAULT_LOCALE, options),
+});
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const { locale, setLocale } = useLocale();
+
+  const value = useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      messages: getMessages(locale),
+      setLocale,
+      formatDate: (value, options) => formatDateTime(value, locale, options),
+    }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext);
+}
@@ -1,11 +1,18 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import {
+  DEFAULT_GUILD_THEME,
+  getGuildPalette,
+  isGuildTheme,
+  type GuildTheme,
+} from "@/lib/guildThemes";
 
 export type ColorScheme = "light" | "dark";
 export type ColorSchemePreference = ColorScheme | "system";
 
 const STORAGE_KEY = "chatkit-color-scheme";
+const GUILD_STORAGE_KEY = "chatkit-guild-theme";
 const PREFERS_DARK_QUERY = "(prefers-color-scheme: dark)";
 
 type MediaQueryCallback = (event: MediaQueryListEvent) => void;
@@ -90,21 +97,62 @@ function persistPreference(preference: ColorSchemePreference): void {
   }
 }
 
-function applyDocumentScheme(scheme: ColorScheme): void {
+function readStoredGuildTheme(): GuildTheme | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  try {
+    const raw = window.localStorage.getItem(GUILD_STORAGE_KEY);
+    return isGuildTheme(raw) ? raw : null;
+  } catch (error) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("[useColorScheme] Failed to read guild theme", error);
+    }
+    return null;
+  }
+}
+
+function persistGuildTheme(guildTheme: GuildTheme): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+  try {
+    if (guildTheme === DEFAULT_GUILD_THEME) {
+      window.localStorage.removeItem(GUILD_STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(GUILD_STORAGE_KEY, guildTheme);
+    }
+  } catch (error) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("[useColorScheme] Failed to persist guild theme", error);
+    }
+  }
+}
+
+function applyDocumentScheme(scheme: ColorScheme, guildTheme: GuildTheme): void {
   if (typeof document === "undefined") {
     return;
   }
   const root = document.documentElement;
   root.dataset.colorScheme = scheme;
+  root.dataset.guildTheme = guildTheme;
   root.classList.toggle("dark", scheme === "dark");
   root.style.colorScheme = scheme;
+
+  const { shell } = getGuildPalette(guildTheme, scheme);
+  root.style.setProperty("--background", shell.background);
+  root.style.setProperty("--foreground", shell.foreground);
+  root.style.setProperty("--guild-accent", shell.accent);
+  root.style.setProperty("--guild-accent-foreground", shell.accentForeground);
 }
 
 type UseColorSchemeResult = {
   scheme: ColorScheme;
   preference: ColorSchemePreference;
+  guildTheme: GuildTheme;
   setScheme: (scheme: ColorScheme) => void;
   setPreference: (preference: ColorSchemePreference) => void;
+  setGuildTheme: (guildTheme: GuildTheme) => void;
   resetPreference: () => void;
 };
 
@@ -124,6 +172,13 @@ export function useColorScheme(
     return readStoredPreference() ?? initialPreference;
   });
 
+  const [guildTheme, setGuildThemeState] = useState<GuildTheme>(() => {
+    if (typeof window === "undefined") {
+      return DEFAULT_GUILD_THEME;
+    }
+    return readStoredGuildTheme() ?? DEFAULT_GUILD_THEME;
+  });
+
   const scheme = useMemo<ColorScheme>(
     () => (preference === "system" ? systemScheme : preference),
     [preference, systemScheme]
@@ -134,8 +189,12 @@ export function useColorScheme(
   }, [preference]);
 
   useEffect(() => {
-    applyDocumentScheme(scheme);
-  }, [scheme]);
+    persistGuildTheme(guildTheme);
+  }, [guildTheme]);
+
+  useEffect(() => {
+    applyDocumentScheme(scheme, guildTheme);
+  }, [guildTheme, scheme]);
 
   useEffect(() => {
     if (typeof window === "undefined") {
@@ -143,6 +202,10 @@ export function useColorScheme(
     }
 
     const handleStorage = (event: StorageEvent) => {
+      if (event.key === GUILD_STORAGE_KEY) {
+        setGuildThemeState(readStoredGuildTheme() ?? DEFAULT_GUILD_THEME);
+        return;
+      }
       if (event.key !== STORAGE_KEY) {
         return;
       }
@@ -164,6 +227,10 @@ export function useColorScheme(
     setPreferenceState(next);
   }, []);
 
+  const setGuildTheme = useCallback((next: GuildTheme) => {
+    setGuildThemeState(next);
+  }, []);
+
   const resetPreference = useCallback(() => {
     setPreferenceState("system");
   }, []);
@@ -171,8 +238,10 @@ export function useColorScheme(
   return {
     scheme,
     preference,
+    guildTheme,
     setScheme,
     setPreference,
+    setGuildTheme,
     resetPreference,
   };
 }
@@ -0,0 +1,219 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import type { GameState } from "@/lib/gameState";
+import type { ClientToolParams, ClientToolResult } from "@/lib/clientTools";
+import { applyGameTool } from "@/lib/gameTools";
+import { parseSaveState } from "@/lib/saves";
+import type { SaveConflict, SaveRepository } from "@/lib/saveRepository";
+import { getAutoSnapshotReason, takeSnapshot } from "@/lib/snapshots";
+
+export type SaveConflictChoice = "keep-mine" | "load-theirs";
+
+type UseGameStateResult = {
+  gameState: GameState | null;
+  /** Set when another tab or device saved the slot since it was loaded. */
+  conflict: SaveConflict | null;
+  resetGameState: (state: GameState | null, lastSave: string | null) => void;
+  /** Writes the state if it changed since the last save. */
+  flushGameState: () => Promise<void>;
+  /** Saves and records a manual snapshot of the slot. */
+  quickSave: () => Promise<void>;
+  resolveConflict: (choice: SaveConflictChoice) => Promise<void>;
+  applyClientTool: (
+    name: string,
+    params: ClientToolParams
+  ) => Promise<ClientToolResult | null>;
+};
+
+/**
+ * Holds the loaded slot's game state and applies game-mechanics client tools
+ * to it. Tool calls are computed against the latest in-memory state and their
+ * writes are queued so concurrent calls can never persist out of order.
+ *
+ * Writes are conditional on the `last_save` the state was loaded from. When
+ * another tab saved first, writing stops until the player resolves the
+ * conflict. Saves that gain a level or change location also snapshot the slot.
+ */
+export function useGameState(
+  repository: SaveRepository | null,
+  slotId: number | null
+): UseGameStateResult {
+  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [conflict, setConflict] = useState<SaveConflict | null>(null);
+  const stateRef = useRef<GameState | null>(null);
+  // The state object last read from or written to the slot.
+  const savedStateRef = useRef<GameState | null>(null);
+  const lastSaveRef = useRef<string | null>(null);
+  const conflictRef = useRef<SaveConflict | null>(null);
+  const persistQueue = useRef<Promise<unknown>>(Promise.resolve());
+
+  const updateConflict = useCallback((next: SaveConflict | null) => {
+    conflictRef.current = next;
+    setConflict(next);
+  }, []);
+
+  const resetGameState = useCallback(
+    (state: GameState | null, lastSave: string | null) => {
+      stateRef.current = state;
+      savedStateRef.current = state;
+      lastSaveRef.current = lastSave;
+      updateConflict(null);
+      setGameState(state);
+    },
+    [updateConflict]
+  );
+
+  const enqueueWrite = useCallback(
+    (
+      write: (repository: SaveRepository, slotId: number) => Promise<void>
+    ): Promise<void> => {
+      if (!repository || !slotId) {
+        return Promise.reject(new Error("No save slot loaded"));
+      }
+      const pending = persistQueue.current.then(() =>
+        write(repository, slotId)
+      );
+      persistQueue.current = pending.catch(() => undefined);
+      return pending;
+    },
+    [repository, slotId]
+  );
+
+  // Runs inside the queue so it always sees the latest state and `last_save`.
+  const writeIfDirty = useCallback(
+    async (target: SaveRepository, slot: number) => {
+      const state = stateRef.current;
+      if (!state || state === savedStateRef.current || conflictRef.current) {
+        return;
+      }
+
+      const result = await target.saveGameState(
+        slot,
+        state,
+        lastSaveRef.current
+      );
+      if (!result.ok) {
+        console.warn(`[autosave] slot ${slot} was saved elsewhere`);
+        updateConflict(result.conflict);
+        return;
+      }
+
+      const previous = savedStateRef.current;
+      savedStateRef.current = state;
+      lastSaveRef.current = result.lastSave;
+      if (process.env.NODE_ENV !== "production") {
+        console.debug("[autosave]", `slot ${slot} saved at ${result.lastSave}`);
+      }
+
+      const reason = getAutoSnapshotReason(previous, state);
+      if (reason) {
+        try {
+          await takeSnapshot(target, slot, reason);
+        } catch (error) {
+          // The save itself succeeded; only the history entry is missing.
+          console.error(`[snapshot] failed to record ${reason}`, error);
+        }
+      }
+    },
+    [updateConflict]
+  );
+
+  const flushGameState = useCallback(
+    () => enqueueWrite(writeIfDirty),
+    [enqueueWrite, writeIfDirty]
+  );
+
+  const quickSave = useCallback(
+    () =>
+      enqueueWrite(async (target, slot) => {
+        await writeIfDirty(target, slot);
+        if (conflictRef.current) {
+          throw new Error("The save slot was updated elsewhere");
+        }
+        await takeSnapshot(target, slot, "manual");
+      }),
+    [enqueueWrite, writeIfDirty]
+  );
+
+  const resolveConflict = useCallback(
+    (choice: SaveConflictChoice) =>
+      enqueueWrite(async (target, slot) => {
+        const current = conflictRef.current;
+        if (!current) {
+          return;
+        }
+
+        if (choice === "keep-mine") {
+          // Write over the other save even if nothing changed locally.
+          lastSaveRef.current = current.lastSave;
+          savedStateRef.current = null;
+          updateConflict(null);
+          await writeIfDirty(target, slot);
+          return;
+        }
+
+        const data = await target.getSlot(slot);
+        const parsed = parseSaveState(data);
+        if (!parsed.ok) {
+          throw new Error(
+            `Invalid game state in slot ${slot}: ${parsed.error}`
+          );
+        }
+        resetGameState(parsed.state, data.last_save);
+      }),
+    [enqueueWrite, resetGameState, updateConflict, writeIfDirty]
+  );
+
+  const applyClientTool = useCallback(
+    async (
+      name: string,
+      params: ClientToolParams
+    ): Promise<ClientToolResult | null> => {
+      const previous = stateRef.current;
+      if (!previous || !repository || !slotId) {
+        return null;
+      }
+
+      const outcome = applyGameTool(previous, name, params);
+      if (!outcome) {
+        return null;
+      }
+
+      if (process.env.NODE_ENV !== "production") {
+        console.debug("[game-tool]", name, params, outcome.result);
+      }
+
+      const nextState = outcome.state;
+      if (!nextState) {
+        return outcome.result;
+      }
+
+      stateRef.current = nextState;
+      setGameState(nextState);
+
+      try {
+        await flushGameState();
+        return outcome.result;
+      } catch (error) {
+        console.error(`[game-tool] failed to persist ${name}`, error);
+        if (stateRef.current === nextState) {
+          stateRef.current = previous;
+          setGameState(previous);
+        }
+        return { success: false, reason: "Failed to save the game state" };
+      }
+    },
+    [flushGameState, repository, slotId]
+  );
+
+  return {
+    gameState,
+    conflict,
+    resetGameState,
+    flushGameState,
+    quickSave,
+    resolveConflict,
+    applyClientTool,
+  };
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_TAGS,
+  detectLocale,
+  isLocale,
+  type Locale,
+} from "@/lib/i18n";
+
+const STORAGE_KEY = "fairy-tail-rpg:locale";
+const CHANGE_EVENT = "fairy-tail-rpg:locale-change";
+
+function readStoredLocale(): Locale | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return isLocale(raw) ? raw : null;
+  } catch (error) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("[useLocale] Failed to read locale", error);
+    }
+    return null;
+  }
+}
+
+function getSnapshot(): Locale {
+  return readStoredLocale() ?? detectLocale(window.navigator.languages);
+}
+
+function getServerSnapshot(): Locale {
+  return DEFAULT_LOCALE;
+}
+
+function subscribe(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) {
+      listener();
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+  window.addEventListener(CHANGE_EVENT, listener);
+  window.addEventListener("languagechange", listener);
+  return () => {
+    window.removeEventListener("storage", handleStorage);
+    window.removeEventListener(CHANGE_EVENT, listener);
+    window.removeEventListener("languagechange", listener);
+  };
+}
+
+type UseLocaleResult = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+};
+
+/**
+ * The interface language: the player's stored choice, else the first
+ * supported browser language, else French. Shared by every tab.
+ */
+export function useLocale(): UseLocaleResult {
+  const locale = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getServerSnapshot
+  );
+
+  useEffect(() => {
+    document.documentElement.lang = LOCALE_TAGS[locale];
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next);
+    } catch (error) {
+      if (process.env.NODE_ENV !== "production") {
+        console.warn("[useLocale] Failed to persist locale", error);
+      }
+    }
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  return { locale, setLocale };
+}
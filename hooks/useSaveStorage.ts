@@ -0,0 +1,78 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import type { SaveStorageKind } from "@/lib/saveRepository";
+
+const STORAGE_KEY = "fairy-tail-rpg:save-storage";
+const CHANGE_EVENT = "fairy-tail-rpg:save-storage-change";
+
+function readStoredStorage(): SaveStorageKind | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw === "supabase" || raw === "local" ? raw : null;
+  } catch (error) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("[useSaveStorage] Failed to read preference", error);
+    }
+    return null;
+  }
+}
+
+function getSnapshot(): SaveStorageKind {
+  return readStoredStorage() ?? "supabase";
+}
+
+// The preference lives in the browser, so the server and the hydration pass
+// render without a backend and the choice is only applied once mounted.
+function getServerSnapshot(): null {
+  return null;
+}
+
+function subscribe(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) {
+      listener();
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener("storage", handleStorage);
+    window.removeEventListener(CHANGE_EVENT, listener);
+  };
+}
+
+type UseSaveStorageResult = {
+  /** Null until the stored preference can be read in the browser. */
+  storage: SaveStorageKind | null;
+  setStorage: (storage: SaveStorageKind) => void;
+};
+
+/**
+ * The player's choice of save backend. Supabase is the default whenever it is
+ * configured; without it the game always runs on the browser-only store.
+ */
+export function useSaveStorage(
+  supabaseAvailable: boolean
+): UseSaveStorageResult {
+  const preference = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getServerSnapshot
+  );
+  const storage: SaveStorageKind | null =
+    preference && !supabaseAvailable ? "local" : preference;
+
+  const setStorage = useCallback((next: SaveStorageKind) => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next);
+    } catch (error) {
+      if (process.env.NODE_ENV !== "production") {
+        console.warn("[useSaveStorage] Failed to persist preference", error);
+      }
+    }
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  return { storage, setStorage };
+}
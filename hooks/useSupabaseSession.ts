@@ -0,0 +1,70 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { Session, SupabaseClient } from "@supabase/supabase-js";
+
+type UseSupabaseSessionResult = {
+  session: Session | null;
+  loading: boolean;
+  signOut: () => Promise<void>;
+};
+
+/**
+ * Tracks the Supabase Auth session, including the one restored from storage
+ * and the one created when the player follows a magic link.
+ */
+export function useSupabaseSession(
+  client: SupabaseClient | null
+): UseSupabaseSessionResult {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(Boolean(client));
+
+  useEffect(() => {
+    if (!client) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    client.auth
+      .getSession()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("[auth] failed to restore session", error);
+        }
+        if (!cancelled) {
+          setSession(data.session);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    const { data } = client.auth.onAuthStateChange((_event, nextSession) => {
+      if (!cancelled) {
+        setSession(nextSession);
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      data.subscription.unsubscribe();
+    };
+  }, [client]);
+
+  const signOut = useCallback(async () => {
+    if (!client) {
+      return;
+    }
+    const { error } = await client.auth.signOut();
+    if (error) {
+      throw error;
+    }
+  }, [client]);
+
+  return { session, loading, signOut };
+}
@@ -0,0 +1,51 @@
+import { createClient } from "@supabase/supabase-js";
+
+export type AuthResult =
+  | { ok: true; userId: string }
+  | { ok: false; status: number; error: string };
+
+function readBearerToken(request: Request): string | null {
+  const header = request.headers.get("authorization");
+  if (!header) {
+    return null;
+  }
+  const [scheme, token] = header.split(" ");
+  if (scheme?.toLowerCase() !== "bearer" || !token) {
+    return null;
+  }
+  return token.trim() || null;
+}
+
+/**
+ * Resolves the Supabase Auth user behind a request. The browser sends its
+ * access token as a bearer token and Supabase verifies it, so the id cannot be
+ * spoofed by the client.
+ */
+export async function authenticateRequest(
+  request: Request
+): Promise<AuthResult> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL?.trim();
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY?.trim();
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return {
+      ok: false,
+      status: 500,
+      error: "Missing Supabase environment variables",
+    };
+  }
+
+  const token = readBearerToken(request);
+  if (!token) {
+    return { ok: false, status: 401, error: "Missing access token" };
+  }
+
+  const client = createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) {
+    return { ok: false, status: 401, error: "Invalid or expired session" };
+  }
+
+  return { ok: true, userId: data.user.id };
+}
@@ -0,0 +1,76 @@
+import { WORKFLOW_ID } from "@/lib/config";
+
+export type Campaign = {
+  id: string;
+  name: string;
+  description: string;
+  /** Agent Builder workflow that narrates the campaign; empty when unset. */
+  workflowId: string;
+  startingLocation: string;
+};
+
+export const DEFAULT_CAMPAIGN_ID = "magnolia_debutant";
+
+/**
+ * Campaigns a new game can start. The first one is the default and runs on
+ * the main workflow; the others are only offered once their workflow id is
+ * configured.
+ */
+export const CAMPAIGNS: Campaign[] = [
+  {
+    id: DEFAULT_CAMPAIGN_ID,
+    name: "Magnolia débutant",
+    description:
+      "Tes premiers pas à Fairy Tail : petites missions, rencontres et rivalités en ville.",
+    workflowId: WORKFLOW_ID,
+    startingLocation: "Magnolia - Devant la guilde",
+  },
+  {
+    id: "ile_tenro",
+    name: "Île Tenrô",
+    description:
+      "L'examen de rang S sur l'île sacrée de la guilde, où rôde une menace bien plus grande.",
+    workflowId: process.env.NEXT_PUBLIC_CHATKIT_WORKFLOW_ID_TENRO?.trim() ?? "",
+    startingLocation: "Île Tenrô - Plage du débarquement",
+  },
+  {
+    id: "grands_jeux_magiques",
+    name: "Grands Jeux Magiques",
+    description:
+      "Le tournoi de Crocus oppose les guildes de Fiore devant tout le royaume.",
+    workflowId:
+      process.env.NEXT_PUBLIC_CHATKIT_WORKFLOW_ID_GRAND_MAGIC_GAMES?.trim() ??
+      "",
+    startingLocation: "Crocus - Auberge de l'Abeille",
+  },
+];
+
+/** Slots created before campaigns existed belong to the default one. */
+export function getCampaign(id: string | null | undefined): Campaign {
+  return CAMPAIGNS.find((campaign) => campaign.id === id) ?? CAMPAIGNS[0];
+}
+
+/** The default campaign, plus every other one whose workflow is configured. */
+export function getAvailableCampaigns(): Campaign[] {
+  return CAMPAIGNS.filter(
+    (campaign) => campaign.id === DEFAULT_CAMPAIGN_ID || campaign.workflowId
+  );
+}
+
+/**
+ * Workflow ids `/api/create-session` may start: the catalog's, plus any
+ * listed in the comma-separated `CHATKIT_WORKFLOW_ALLOWLIST` server variable.
+ * Anything else would spend our API key on a workflow we do not control.
+ */
+export function readWorkflowAllowlist(
+  raw: string | undefined = process.env.CHATKIT_WORKFLOW_ALLOWLIST
+): Set<string> {
+  const extra = (raw ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return new Set([
+    ...CAMPAIGNS.map((campaign) => campaign.workflowId).filter(Boolean),
+    ...extra,
+  ]);
+}
@@ -0,0 +1,280 @@
+import {
+  DEFAULT_CAMPAIGN_ID,
+  getAvailableCampaigns,
+  getCampaign,
+} from "@/lib/campaigns";
+import {
+  createDefaultGameState,
+  type CharacterStats,
+  type Element,
+  type GameState,
+  type InventoryEntry,
+} from "@/lib/gameState";
+import { localizeEntry, type Messages } from "@/lib/i18n";
+import { getItemDefinition } from "@/lib/inventory";
+
+export type AllocatableStat = "strength" | "magic" | "agility" | "defense";
+
+export const ALLOCATABLE_STATS: AllocatableStat[] = [
+  "strength",
+  "magic",
+  "agility",
+  "defense",
+];
+
+export type MagicSchool = {
+  id: string;
+  name: string;
+  description: string;
+  element: Element;
+  bonuses: Partial<Record<AllocatableStat, number>>;
+  startingItems: string[];
+};
+
+export const MAGIC_SCHOOLS: MagicSchool[] = [
+  {
+    id: "fire_dragon_slayer",
+    name: "Dragon Slayer de feu",
+    description:
+      "Une magie perdue enseignée par un dragon. Tu dévores les flammes pour frapper plus fort.",
+    element: "fire",
+    bonuses: { strength: 2, magic: 1 },
+    startingItems: [],
+  },
+  {
+    id: "sky_dragon_slayer",
+    name: "Dragon Slayer céleste",
+    description:
+      "Le souffle du dragon des cieux : soins, soutien et rafales de vent.",
+    element: "wind",
+    bonuses: { magic: 2, agility: 1 },
+    startingItems: ["healing_potion"],
+  },
+  {
+    id: "celestial_spirit",
+    name: "Constellationniste",
+    description:
+      "Tu invoques des esprits célestes grâce à des clés d'argent et d'or.",
+    element: "light",
+    bonuses: { magic: 3 },
+    startingItems: ["celestial_key_silver"],
+  },
+  {
+    id: "ice_make",
+    name: "Ice-Make",
+    description:
+      "Une magie de création : tu façonnes la glace en armes et en boucliers.",
+    element: "ice",
+    bonuses: { magic: 1, defense: 2 },
+    startingItems: [],
+  },
+  {
+    id: "requip",
+    name: "Rééquipement",
+    description:
+      "Tu invoques armes et armures stockées dans une dimension parallèle.",
+    element: "neutral",
+    bonuses: { strength: 2, defense: 1 },
+    startingItems: ["iron_sword"],
+  },
+  {
+    id: "take_over",
+    name: "Take Over",
+    description: "Tu prends la forme et la puissance des créatures vaincues.",
+    element: "dark",
+    bonuses: { strength: 1, agility: 2 },
+    startingItems: [],
+  },
+];
+
+export const BASE_STAT_VALUE = 8;
+export const STAT_POINTS_TO_SPEND = 12;
+export const MAX_POINTS_PER_STAT = 6;
+export const MAX_CHARACTER_NAME_LENGTH = 20;
+export const MAX_APPEARANCE_LENGTH = 200;
+export const MAX_BACKSTORY_LENGTH = 600;
+const MAX_MARK_FIELD_LENGTH = 40;
+
+export type CharacterDraft = {
+  campaign: string;
+  name: string;
+  magicSchool: string | null;
+  allocation: Record<AllocatableStat, number>;
+  appearance: {
+    guildMarkColor: string;
+    guildMarkLocation: string;
+    description: string;
+  };
+  backstory: string;
+};
+
+export function createCharacterDraft(): CharacterDraft {
+  return {
+    campaign: DEFAULT_CAMPAIGN_ID,
+    name: "",
+    magicSchool: null,
+    allocation: { strength: 0, magic: 0, agility: 0, defense: 0 },
+    appearance: { guildMarkColor: "", guildMarkLocation: "", description: "" },
+    backstory: "",
+  };
+}
+
+export function getMagicSchool(id: string | null): MagicSchool | null {
+  return MAGIC_SCHOOLS.find((school) => school.id === id) ?? null;
+}
+
+export function getSpentPoints(draft: CharacterDraft): number {
+  return ALLOCATABLE_STATS.reduce(
+    (sum, stat) => sum + draft.allocation[stat],
+    0
+  );
+}
+
+export type CharacterDraftErrors = Partial<
+  Record<
+    | "campaign"
+    | "name"
+    | "magicSchool"
+    | "allocation"
+    | "appearance"
+    | "backstory",
+    string
+  >
+>;
+
+/** Validates a draft; an empty object means it can be saved. */
+export function validateCharacterDraft(
+  draft: CharacterDraft,
+  messages: Messages["creator"]["errors"]
+): CharacterDraftErrors {
+  const errors: CharacterDraftErrors = {};
+  const name = draft.name.trim();
+
+  if (
+    !getAvailableCampaigns().some((campaign) => campaign.id === draft.campaign)
+  ) {
+    errors.campaign = messages.campaign;
+  }
+
+  if (!name) {
+    errors.name = messages.nameMissing;
+  } else if (name.length > MAX_CHARACTER_NAME_LENGTH) {
+    errors.name = messages.nameTooLong(MAX_CHARACTER_NAME_LENGTH);
+  }
+
+  if (!getMagicSchool(draft.magicSchool)) {
+    errors.magicSchool = messages.magicSchool;
+  }
+
+  const spent = getSpentPoints(draft);
+  const invalidStat = ALLOCATABLE_STATS.some((stat) => {
+    const value = draft.allocation[stat];
+    return !Number.isInteger(value) || value < 0 || value > MAX_POINTS_PER_STAT;
+  });
+  if (invalidStat) {
+    errors.allocation = messages.allocationRange(MAX_POINTS_PER_STAT);
+  } else if (spent !== STAT_POINTS_TO_SPEND) {
+    errors.allocation = messages.allocationTotal(STAT_POINTS_TO_SPEND, spent);
+  }
+
+  const { guildMarkColor, guildMarkLocation, description } = draft.appearance;
+  if (
+    guildMarkColor.length > MAX_MARK_FIELD_LENGTH ||
+    guildMarkLocation.length > MAX_MARK_FIELD_LENGTH ||
+    description.length > MAX_APPEARANCE_LENGTH
+  ) {
+    errors.appearance = messages.appearanceTooLong;
+  }
+
+  if (draft.backstory.length > MAX_BACKSTORY_LENGTH) {
+    errors.backstory = messages.backstoryTooLong(MAX_BACKSTORY_LENGTH);
+  }
+
+  return errors;
+}
+
+export function getStartingStats(draft: CharacterDraft): CharacterStats {
+  const school = getMagicSchool(draft.magicSchool);
+  const stats = { ...createDefaultGameState().stats };
+  for (const stat of ALLOCATABLE_STATS) {
+    stats[stat] =
+      BASE_STAT_VALUE + draft.allocation[stat] + (school?.bonuses[stat] ?? 0);
+  }
+  return stats;
+}
+
+/**
+ * Builds the first game state of a slot from a validated draft. The character
+ * starts at the chosen campaign's starting location.
+ */
+export function buildCharacterGameState(draft: CharacterDraft): GameState {
+  const campaign = getCampaign(draft.campaign);
+  const school = getMagicSchool(draft.magicSchool);
+  const inventory: InventoryEntry[] = [
+    "guild_mark",
+    ...(school?.startingItems ?? []),
+  ]
+    .filter((itemId) => getItemDefinition(itemId))
+    .map((itemId) => ({ item_id: itemId, quantity: 1 }));
+
+  return {
+    ...createDefaultGameState(),
+    campaign: campaign.id,
+    character: {
+      magic_school: school?.id ?? null,
+      appearance: {
+        guild_mark_color: draft.appearance.guildMarkColor.trim(),
+        guild_mark_location: draft.appearance.guildMarkLocation.trim(),
+        description: draft.appearance.description.trim(),
+      },
+      backstory: draft.backstory.trim(),
+    },
+    stats: getStartingStats(draft),
+    location: campaign.startingLocation,
+    inventory,
+    last_activity: new Date().toISOString(),
+  };
+}
+
+/**
+ * The first message sent on behalf of the player so the game master opens the
+ * story with the character that was just created, in the player's language.
+ */
+export function buildOpeningMessage(
+  name: string,
+  state: GameState,
+  messages: Messages
+): string {
+  const text = messages.opening;
+  const school = getMagicSchool(state.character.magic_school);
+  const campaign = getCampaign(state.campaign);
+  const { appearance, backstory } = state.character;
+  const lines = [
+    text.intro(
+      name,
+      school
+        ? localizeEntry(messages.catalog.schools, school.id, school).name
+        : null
+    ),
+    text.campaign(
+      localizeEntry(messages.catalog.campaigns, campaign.id, campaign).name
+    ),
+    text.location(state.location ?? text.defaultLocation),
+  ];
+  if (appearance.guild_mark_color || appearance.guild_mark_location) {
+    lines.push(
+      text.guildMark(
+        appearance.guild_mark_color || null,
+        appearance.guild_mark_location || null
+      )
+    );
+  }
+  if (appearance.description) {
+    lines.push(text.appearance(appearance.description));
+  }
+  if (backstory) {
+    lines.push(text.backstory(backstory));
+  }
+  lines.push(text.start);
+  return lines.join("\n");
+}
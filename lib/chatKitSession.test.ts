@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  describeSessionFailure,
+  readExpiresAt,
+  readRetryAfter,
+  requestSession,
+  type SessionRequest,
+} from "@/lib/chatKitSession";
+import { createMockSessionResponse, isMockScenario } from "@/lib/mockChatKit";
+import { fr } from "@/lib/messages/fr";
+
+const text = fr.chat;
+const WORKFLOW_ID = "wf_contract";
+
+let upstreamCalls: number;
+
+/**
+ * Wires the panel's requests to the real create-session route, itself talking
+ * to the ChatKit mock, so each scenario is checked from the player's side.
+ */
+async function connectToRoute(scenario: string): Promise<void> {
+  vi.stubEnv("OPENAI_API_KEY", "sk-test");
+  vi.stubEnv(
+    "CHATKIT_API_BASE",
+    `http://mock.test/api/mock-chatkit/${scenario}`
+  );
+  vi.stubEnv("CHATKIT_WORKFLOW_ALLOWLIST", WORKFLOW_ID);
+  vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "http://supabase.test");
+  vi.stubEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY", "anon-key");
+  vi.stubEnv("SUPABASE_SERVICE_ROLE_KEY", "");
+  vi.stubEnv("RATE_LIMIT_STORE", "");
+  vi.resetModules();
+  const { POST } = await import("@/app/api/create-session/route");
+
+  vi.stubGlobal(
+    "fetch",
+    vi.fn<typeof fetch>(async (input, init) => {
+      if (input === "/api/create-session") {
+        return POST(new Request("http://localhost/api/create-session", init));
+      }
+      const request = new Request(input, init);
+      const url = new URL(request.url);
+      if (url.pathname === "/auth/v1/user") {
+        return request.headers.get("authorization") === "Bearer valid-token"
+          ? Response.json({ id: "player-1", aud: "authenticated" })
+          : Response.json({ message: "invalid JWT" }, { status: 401 });
+      }
+      upstreamCalls += 1;
+      const match = url.pathname.match(/^\/api\/mock-chatkit\/([^/]+)\//);
+      return match && isMockScenario(match[1])
+        ? createMockSessionResponse(match[1], request)
+        : new Response(null, { status: 404 });
+    })
+  );
+}
+
+function buildRequest(
+  getAccessToken: SessionRequest["getAccessToken"] = async () => null
+): SessionRequest {
+  return {
+    getAccessToken,
+    workflowId: WORKFLOW_ID,
+    slotId: 1,
+    saveUid: "0b6f7d2e-4a53-4c1f-9d8e-2f1a3b4c5d6e",
+    locale: "fr",
+    text,
+  };
+}
+
+beforeEach(() => {
+  upstreamCalls = 0;
+  vi.spyOn(console, "info").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("requestSession against the mock scenarios", () => {
+  it.each([
+    ["success", 600],
+    ["short_lived", 90],
+  ])("returns the %s secret with its expiry", async (scenario, lifetime) => {
+    await connectToRoute(scenario);
+    const before = Date.now();
+
+    const result = await requestSession(buildRequest());
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.session.clientSecret).toMatch(/^ek_mock_/);
+    expect(result.session.expiresAt).toBeGreaterThan(
+      before + (lifetime - 2) * 1000
+    );
+    expect(result.session.expiresAt).toBeLessThanOrEqual(
+      Date.now() + lifetime * 1000
+    );
+  });
+
+  it.each([
+    ["bad_request", text.sessionRejected],
+    ["unauthorized", text.serviceUnavailable],
+    ["server_error", text.serviceUnavailable],
+    ["malformed", text.missingSecret],
+  ])("shows the player a translated %s failure", async (scenario, error) => {
+    await connectToRoute(scenario);
+
+    const result = await requestSession(buildRequest());
+
+    expect(result).toEqual({ ok: false, error, retryAt: null });
+    expect(upstreamCalls).toBe(1);
+  });
+
+  it("waits as long as ChatKit asks when it is rate limited", async () => {
+    await connectToRoute("rate_limited");
+    const before = Date.now();
+
+    const result = await requestSession(buildRequest());
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toBe(text.cooldown);
+    expect(result.retryAt).toBeGreaterThanOrEqual(before + 20_000);
+    expect(result.retryAt).toBeLessThanOrEqual(Date.now() + 20_000);
+  });
+});
+
+describe("requestSession authentication", () => {
+  it("retries once with a refreshed token", async () => {
+    await connectToRoute("success");
+    const getAccessToken = vi
+      .fn<SessionRequest["getAccessToken"]>()
+      .mockResolvedValueOnce("expired-token")
+      .mockResolvedValueOnce("valid-token");
+
+    const result = await requestSession(buildRequest(getAccessToken));
+
+    expect(result.ok).toBe(true);
+    expect(getAccessToken).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports an expired sign-in when the retry fails too", async () => {
+    await connectToRoute("success");
+    const getAccessToken = vi
+      .fn<SessionRequest["getAccessToken"]>()
+      .mockResolvedValue("expired-token");
+
+    const result = await requestSession(buildRequest(getAccessToken));
+
+    expect(result).toEqual({
+      ok: false,
+      error: text.sessionExpired,
+      retryAt: null,
+    });
+    expect(getAccessToken).toHaveBeenCalledTimes(2);
+    expect(upstreamCalls).toBe(0);
+  });
+
+  it("reports a network failure as a failed session", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn<typeof fetch>().mockRejectedValue(new TypeError("Failed to fetch"))
+    );
+
+    const result = await requestSession(buildRequest());
+
+    expect(result).toEqual({
+      ok: false,
+      error: text.sessionFailed,
+      retryAt: null,
+    });
+  });
+});
+
+describe("describeSessionFailure", () => {
+  it.each([
+    [401, text.sessionExpired],
+    [400, text.sessionRejected],
+    [403, text.sessionRejected],
+    [500, text.serviceUnavailable],
+    [502, text.serviceUnavailable],
+    [302, text.sessionFailed],
+  ])("maps %i", (status, message) => {
+    expect(describeSessionFailure(status, text)).toBe(message);
+  });
+});
+
+describe("readExpiresAt", () => {
+  it("prefers the absolute expiry", () => {
+    expect(readExpiresAt(1_700_000_000, 600)).toBe(1_700_000_000_000);
+  });
+
+  it("falls back to a lifetime in seconds or as `{ seconds }`", () => {
+    vi.spyOn(Date, "now").mockReturnValue(1_000);
+
+    expect(readExpiresAt(null, 600)).toBe(601_000);
+    expect(readExpiresAt(null, { seconds: 90 })).toBe(91_000);
+  });
+
+  it("returns null without a usable expiry", () => {
+    expect(readExpiresAt(null, null)).toBeNull();
+    expect(readExpiresAt("soon", -5)).toBeNull();
+  });
+});
+
+describe("readRetryAfter", () => {
+  it("rounds a delay in seconds up", () => {
+    expect(readRetryAfter("12.2")).toBe(13);
+  });
+
+  it("falls back to 30 seconds for a missing or dated header", () => {
+    expect(readRetryAfter(null)).toBe(30);
+    expect(readRetryAfter("Wed, 21 Oct 2015 07:28:00 GMT")).toBe(30);
+  });
+});
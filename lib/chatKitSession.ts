@@ -0,0 +1,173 @@
+import { CREATE_SESSION_ENDPOINT } from "@/lib/config";
+import type { Locale, Messages } from "@/lib/i18n";
+
+export type SessionSecret = {
+  clientSecret: string;
+  /** Epoch ms after which ChatKit rejects the secret, when the route says. */
+  expiresAt: number | null;
+};
+
+export type SessionRequestResult =
+  | { ok: true; session: SessionSecret }
+  | { ok: false; error: string; retryAt: number | null };
+
+export type SessionRequest = {
+  getAccessToken: () => Promise<string | null>;
+  workflowId: string;
+  slotId: number;
+  saveUid: string;
+  locale: Locale;
+  text: Messages["chat"];
+};
+
+const isDev = process.env.NODE_ENV !== "production";
+const DEFAULT_COOLDOWN_SECONDS = 30;
+
+/**
+ * Asks the route for a new client secret. An auth failure is retried once,
+ * which lets an expired access token refresh before the player sees an error.
+ */
+export async function requestSession(
+  request: SessionRequest,
+  retryOnAuthFailure = true
+): Promise<SessionRequestResult> {
+  const { getAccessToken, workflowId, slotId, saveUid, locale, text } = request;
+  try {
+    // Without a token the server falls back to an anonymous browser id.
+    const accessToken = await getAccessToken();
+
+    const response = await fetch(CREATE_SESSION_ENDPOINT, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      },
+      body: JSON.stringify({
+        workflow: { id: workflowId },
+        save_slot: slotId,
+        save_uid: saveUid,
+        locale,
+        chatkit_configuration: {
+          // enable attachments
+          file_upload: {
+            enabled: true,
+          },
+        },
+      }),
+    });
+
+    const raw = await response.text();
+
+    if (isDev) {
+      console.info("[chatKitSession] createSession response", {
+        status: response.status,
+        ok: response.ok,
+        bodyPreview: raw.slice(0, 1600),
+      });
+    }
+
+    let data: Record<string, unknown> = {};
+    if (raw) {
+      try {
+        data = JSON.parse(raw) as Record<string, unknown>;
+      } catch (parseError) {
+        console.error("Failed to parse create-session response", parseError);
+      }
+    }
+
+    if (response.status === 429) {
+      const retryAfterSeconds = readRetryAfter(
+        response.headers.get("Retry-After")
+      );
+      console.warn("Create session request rate limited", {
+        retryAfterSeconds,
+      });
+      return {
+        ok: false,
+        error: text.cooldown,
+        retryAt: Date.now() + retryAfterSeconds * 1000,
+      };
+    }
+
+    if (response.status === 401 && retryOnAuthFailure) {
+      console.warn("Create session request unauthorized, retrying once");
+      return requestSession(request, false);
+    }
+
+    if (!response.ok) {
+      // The server's own message is logged, the player gets a translated one.
+      console.error("Create session request failed", {
+        status: response.status,
+        body: data,
+      });
+      return {
+        ok: false,
+        error: describeSessionFailure(response.status, text),
+        retryAt: null,
+      };
+    }
+
+    const clientSecret = data?.client_secret as string | undefined;
+    if (!clientSecret) {
+      console.error("Create session response has no client secret", data);
+      return { ok: false, error: text.missingSecret, retryAt: null };
+    }
+
+    return {
+      ok: true,
+      session: {
+        clientSecret,
+        expiresAt: readExpiresAt(data.expires_at, data.expires_after),
+      },
+    };
+  } catch (error) {
+    console.error("Failed to create ChatKit session", error);
+    return { ok: false, error: text.sessionFailed, retryAt: null };
+  }
+}
+
+/**
+ * Reads the secret's expiry from the session's `expires_at` (epoch seconds)
+ * or, failing that, `expires_after` given as seconds or `{ seconds }` from
+ * now.
+ */
+export function readExpiresAt(
+  expiresAt: unknown,
+  expiresAfter: unknown
+): number | null {
+  if (typeof expiresAt === "number" && Number.isFinite(expiresAt)) {
+    return expiresAt * 1000;
+  }
+  const seconds =
+    expiresAfter && typeof expiresAfter === "object"
+      ? (expiresAfter as { seconds?: unknown }).seconds
+      : expiresAfter;
+  return typeof seconds === "number" && Number.isFinite(seconds) && seconds > 0
+    ? Date.now() + seconds * 1000
+    : null;
+}
+
+/** Reads a `Retry-After` header given in seconds. */
+export function readRetryAfter(header: string | null): number {
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds > 0
+    ? Math.ceil(seconds)
+    : DEFAULT_COOLDOWN_SECONDS;
+}
+
+/** The translated message for a failed `/api/create-session` response. */
+export function describeSessionFailure(
+  status: number,
+  text: Messages["chat"]
+): string {
+  if (status === 401) {
+    return text.sessionExpired;
+  }
+  if (status >= 500) {
+    return text.serviceUnavailable;
+  }
+  if (status >= 400) {
+    return text.sessionRejected;
+  }
+  return text.sessionFailed;
+}
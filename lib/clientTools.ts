@@ -0,0 +1,76 @@
+import type { GameState } from "@/lib/gameState";
+
+export type ClientToolParams = Record<string, unknown>;
+
+export type ClientToolResult = {
+  success: boolean;
+  reason?: string;
+  [key: string]: unknown;
+};
+
+export type GameToolOutcome = {
+  result: ClientToolResult;
+  /** The next state, only present when the tool changed something. */
+  state?: GameState;
+};
+
+export type GameToolHandler = (
+  state: GameState,
+  params: ClientToolParams
+) => GameToolOutcome;
+
+export function fail(reason: string): GameToolOutcome {
+  return { result: { success: false, reason } };
+}
+
+export type ParamError = { error: string };
+
+export function isParamError(value: unknown): value is ParamError {
+  return typeof value === "object" && value !== null && "error" in value;
+}
+
+/** Reads an integer parameter; `null` means an optional parameter was omitted. */
+export function readInteger(
+  params: ClientToolParams,
+  key: string,
+  {
+    min,
+    max,
+    optional = false,
+  }: { min: number; max: number; optional?: boolean }
+): number | null | ParamError {
+  const value = params[key];
+  if (value === undefined || value === null) {
+    return optional ? null : { error: `Missing parameter "${key}"` };
+  }
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isInteger(parsed)) {
+    return { error: `Parameter "${key}" must be an integer` };
+  }
+  if (parsed < min || parsed > max) {
+    return { error: `Parameter "${key}" must be between ${min} and ${max}` };
+  }
+  return parsed;
+}
+
+export function readText(
+  params: ClientToolParams,
+  key: string,
+  maxLength: number
+): string | ParamError {
+  const value = params[key];
+  if (typeof value !== "string" || !value.trim()) {
+    return { error: `Parameter "${key}" must be a non-empty string` };
+  }
+  const normalized = value.replace(/\s+/g, " ").trim();
+  if (normalized.length > maxLength) {
+    return {
+      error: `Parameter "${key}" must be at most ${maxLength} characters`,
+    };
+  }
+  return normalized;
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,622 @@
+import {
+  ELEMENTS,
+  type CombatEvent,
+  type CombatState,
+  type Combatant,
+  type Element,
+  type GameState,
+  type RngState,
+  type StatusEffect,
+  type StatusEffectType,
+} from "@/lib/gameState";
+import {
+  fail,
+  isParamError,
+  readInteger,
+  readText,
+  type ClientToolParams,
+  type ClientToolResult,
+  type GameToolHandler,
+  type ParamError,
+} from "@/lib/clientTools";
+import {
+  drawRandom,
+  getEffectiveStat,
+  rollDie,
+  statModifier,
+} from "@/lib/dice";
+import { getMagicSchool } from "@/lib/character";
+
+export const PLAYER_COMBATANT_ID = "player";
+export const COMBAT_ACTIONS = ["attack", "spell", "defend", "flee"] as const;
+
+export type CombatAction = (typeof COMBAT_ACTIONS)[number];
+
+export type CombatOutcome = "ongoing" | "victory" | "defeat" | "fled";
+
+const MAX_ENEMIES = 6;
+const MAX_ENEMY_STAT = 999;
+const MAX_ENEMY_HP = 100_000;
+const MAX_NAME_LENGTH = 60;
+const DEFAULT_SPELL_COST = 10;
+const MAX_TURNS_PER_ACTION = 50;
+const FLEE_DC = 12;
+
+/** Elements each element deals extra damage to. */
+const STRONG_AGAINST: Record<Element, Element[]> = {
+  neutral: [],
+  fire: ["ice", "wind"],
+  ice: ["water", "earth"],
+  water: ["fire", "earth"],
+  lightning: ["water", "wind"],
+  wind: ["earth"],
+  earth: ["lightning", "fire"],
+  light: ["dark"],
+  dark: ["light"],
+};
+
+/** Status an elemental spell may inflict, and its chance to do so. */
+const ELEMENT_STATUS: Partial<
+  Record<Element, { type: StatusEffectType; chance: number; turns: number }>
+> = {
+  fire: { type: "burn", chance: 0.3, turns: 3 },
+  ice: { type: "freeze", chance: 0.2, turns: 1 },
+  lightning: { type: "stun", chance: 0.2, turns: 1 },
+  dark: { type: "poison", chance: 0.3, turns: 3 },
+};
+
+export function getAffinityMultiplier(
+  attacker: Element,
+  defender: Element
+): number {
+  if (STRONG_AGAINST[attacker].includes(defender)) {
+    return 1.5;
+  }
+  if (STRONG_AGAINST[defender].includes(attacker)) {
+    return 0.5;
+  }
+  return 1;
+}
+
+export function getCombatOutcome(combat: CombatState): CombatOutcome {
+  const player = findCombatant(combat, PLAYER_COMBATANT_ID);
+  if (!player || player.hp <= 0) {
+    return "defeat";
+  }
+  return combat.combatants.some(
+    (combatant) => combatant.side === "enemy" && combatant.hp > 0
+  )
+    ? "ongoing"
+    : "victory";
+}
+
+function findCombatant(combat: CombatState, id: string): Combatant | undefined {
+  return combat.combatants.find((combatant) => combatant.id === id);
+}
+
+type Battle = {
+  combat: CombatState;
+  rng: RngState;
+  events: CombatEvent[];
+};
+
+function updateCombatant(
+  battle: Battle,
+  id: string,
+  update: (combatant: Combatant) => Combatant
+): void {
+  battle.combat = {
+    ...battle.combat,
+    combatants: battle.combat.combatants.map((combatant) =>
+      combatant.id === id ? update(combatant) : combatant
+    ),
+  };
+}
+
+function draw(battle: Battle): number {
+  const [value, rng] = drawRandom(battle.rng);
+  battle.rng = rng;
+  return value;
+}
+
+function pushEvent(
+  battle: Battle,
+  event: Partial<CombatEvent> & Pick<CombatEvent, "actor" | "action">
+): void {
+  battle.events.push({
+    round: battle.combat.round,
+    target: null,
+    damage: null,
+    effectiveness: null,
+    status: null,
+    defeated: false,
+    note: null,
+    ...event,
+  });
+}
+
+function hasStatus(combatant: Combatant, type: StatusEffectType): boolean {
+  return combatant.statuses.some((status) => status.type === type);
+}
+
+function addStatus(statuses: StatusEffect[], effect: StatusEffect) {
+  return [...statuses.filter((status) => status.type !== effect.type), effect];
+}
+
+function dealDamage(
+  battle: Battle,
+  attackerId: string,
+  targetId: string,
+  kind: "attack" | "spell",
+  element: Element
+): void {
+  const attacker = findCombatant(battle.combat, attackerId);
+  const target = findCombatant(battle.combat, targetId);
+  if (!attacker || !target) {
+    return;
+  }
+
+  const power = kind === "spell" ? attacker.magic : attacker.strength;
+  const effectiveness =
+    kind === "spell" ? getAffinityMultiplier(element, target.element) : 1;
+  const variance = 0.85 + draw(battle) * 0.15;
+  const guard = hasStatus(target, "defend") ? 0.5 : 1;
+  const damage = Math.max(
+    1,
+    Math.round(
+      (power * 2 - target.defense) *
+        variance *
+        effectiveness *
+        guard *
+        (1 + attacker.level / 50)
+    )
+  );
+
+  let inflicted: StatusEffectType | null = null;
+  const elementStatus = kind === "spell" ? ELEMENT_STATUS[element] : undefined;
+  if (elementStatus && draw(battle) < elementStatus.chance) {
+    inflicted = elementStatus.type;
+  }
+
+  const remaining = Math.max(0, target.hp - damage);
+  updateCombatant(battle, targetId, (current) => ({
+    ...current,
+    hp: remaining,
+    statuses:
+      inflicted && remaining > 0
+        ? addStatus(current.statuses, {
+            type: inflicted,
+            turns: elementStatus?.turns ?? 1,
+          })
+        : current.statuses,
+  }));
+
+  pushEvent(battle, {
+    actor: attackerId,
+    action: kind,
+    target: targetId,
+    damage,
+    effectiveness,
+    status: remaining > 0 ? inflicted : null,
+    defeated: remaining === 0,
+  });
+}
+
+/**
+ * Applies start-of-turn effects. Returns false when the combatant loses its
+ * turn (frozen, stunned or knocked out by damage over time).
+ */
+function startTurn(battle: Battle, id: string): boolean {
+  const combatant = findCombatant(battle.combat, id);
+  if (!combatant || combatant.hp <= 0) {
+    return false;
+  }
+
+  let hp = combatant.hp;
+  for (const status of combatant.statuses) {
+    if (status.type === "burn" || status.type === "poison") {
+      const damage = Math.max(1, Math.round(combatant.max_hp * 0.05));
+      hp = Math.max(0, hp - damage);
+      pushEvent(battle, {
+        actor: id,
+        action: status.type,
+        target: id,
+        damage,
+        defeated: hp === 0,
+      });
+    }
+  }
+
+  const skipped =
+    hp > 0 && (hasStatus(combatant, "freeze") || hasStatus(combatant, "stun"));
+  if (skipped) {
+    pushEvent(battle, { actor: id, action: "skip", note: "incapacitated" });
+  }
+
+  updateCombatant(battle, id, (current) => ({
+    ...current,
+    hp,
+    statuses: current.statuses
+      .filter((status) => status.type !== "defend")
+      .map((status) => ({ ...status, turns: status.turns - 1 }))
+      .filter((status) => status.turns > 0),
+  }));
+
+  return hp > 0 && !skipped;
+}
+
+function enemyTurn(battle: Battle, id: string): void {
+  const enemy = findCombatant(battle.combat, id);
+  if (!enemy) {
+    return;
+  }
+  const castSpell =
+    enemy.element !== "neutral" &&
+    enemy.mp >= DEFAULT_SPELL_COST &&
+    draw(battle) < 0.4;
+  if (castSpell) {
+    updateCombatant(battle, id, (current) => ({
+      ...current,
+      mp: current.mp - DEFAULT_SPELL_COST,
+    }));
+  }
+  dealDamage(
+    battle,
+    id,
+    PLAYER_COMBATANT_ID,
+    castSpell ? "spell" : "attack",
+    enemy.element
+  );
+}
+
+/**
+ * Moves to the next living combatant, running enemy turns automatically,
+ * and stops once it is the player's turn or the fight is over.
+ */
+function advanceToPlayerTurn(battle: Battle): void {
+  for (let step = 0; step < MAX_TURNS_PER_ACTION; step += 1) {
+    if (getCombatOutcome(battle.combat) !== "ongoing") {
+      return;
+    }
+
+    const { turn_order: order } = battle.combat;
+    const nextIndex = (battle.combat.turn_index + 1) % order.length;
+    battle.combat = {
+      ...battle.combat,
+      turn_index: nextIndex,
+      round: battle.combat.round + (nextIndex === 0 ? 1 : 0),
+    };
+
+    const actorId = order[nextIndex];
+    if (!startTurn(battle, actorId)) {
+      continue;
+    }
+    if (actorId === PLAYER_COMBATANT_ID) {
+      return;
+    }
+    enemyTurn(battle, actorId);
+  }
+}
+
+function readElement(value: unknown, fallback: Element): Element | ParamError {
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+  if (!(ELEMENTS as readonly unknown[]).includes(value)) {
+    return { error: `Element must be one of ${ELEMENTS.join(", ")}` };
+  }
+  return value as Element;
+}
+
+function readEnemies(params: ClientToolParams): Combatant[] | ParamError {
+  const raw = params.enemies;
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { error: 'Parameter "enemies" must be a non-empty array' };
+  }
+  if (raw.length > MAX_ENEMIES) {
+    return { error: `A fight can have at most ${MAX_ENEMIES} enemies` };
+  }
+
+  const enemies: Combatant[] = [];
+  for (const [index, entry] of raw.entries()) {
+    const fields = (entry ?? {}) as ClientToolParams;
+    const prefix = `Enemy ${index + 1}`;
+    const name = readText(fields, "name", MAX_NAME_LENGTH);
+    if (isParamError(name)) {
+      return { error: `${prefix}: ${name.error}` };
+    }
+    const element = readElement(fields.element, "neutral");
+    if (isParamError(element)) {
+      return { error: `${prefix}: ${element.error}` };
+    }
+    const numbers: Record<string, number> = {};
+    for (const [key, max, fallback] of [
+      ["level", 100, 1],
+      ["hp", MAX_ENEMY_HP, null],
+      ["mp", MAX_ENEMY_HP, 0],
+      ["strength", MAX_ENEMY_STAT, 10],
+      ["magic", MAX_ENEMY_STAT, 10],
+      ["defense", MAX_ENEMY_STAT, 10],
+      ["agility", MAX_ENEMY_STAT, 10],
+    ] as const) {
+      const value = readInteger(fields, key, {
+        min: key === "hp" || key === "level" ? 1 : 0,
+        max,
+        optional: fallback !== null,
+      });
+      if (isParamError(value)) {
+        return { error: `${prefix}: ${value.error}` };
+      }
+      numbers[key] = value ?? fallback ?? 0;
+    }
+
+    enemies.push({
+      id: `enemy-${index + 1}`,
+      name,
+      side: "enemy",
+      element,
+      level: numbers.level,
+      hp: numbers.hp,
+      max_hp: numbers.hp,
+      mp: numbers.mp,
+      max_mp: numbers.mp,
+      strength: numbers.strength,
+      magic: numbers.magic,
+      defense: numbers.defense,
+      agility: numbers.agility,
+      statuses: [],
+    });
+  }
+  return enemies;
+}
+
+/**
+ * Builds the player's combatant from the character sheet. HP and MP always
+ * come from `stats`, so items or `change_hp_mp` used mid-fight are honoured.
+ */
+function buildPlayer(
+  state: GameState,
+  element: Element,
+  statuses: StatusEffect[] = []
+): Combatant {
+  return {
+    id: PLAYER_COMBATANT_ID,
+    name: "Player",
+    side: "player",
+    element,
+    level: state.stats.level,
+    hp: state.stats.hp,
+    max_hp: state.stats.max_hp,
+    mp: state.stats.mp,
+    max_mp: state.stats.max_mp,
+    strength: getEffectiveStat(state, "strength"),
+    magic: getEffectiveStat(state, "magic"),
+    defense: getEffectiveStat(state, "defense"),
+    agility: getEffectiveStat(state, "agility"),
+    statuses,
+  };
+}
+
+function finishBattle(state: GameState, battle: Battle): GameState {
+  const player = findCombatant(battle.combat, PLAYER_COMBATANT_ID);
+  const outcome = getCombatOutcome(battle.combat);
+  return {
+    ...state,
+    rng: battle.rng,
+    stats: player
+      ? { ...state.stats, hp: player.hp, mp: player.mp }
+      : state.stats,
+    combat:
+      outcome === "ongoing"
+        ? { ...battle.combat, last_events: battle.events }
+        : null,
+  };
+}
+
+function describeBattle(
+  battle: Battle,
+  outcome: CombatOutcome
+): ClientToolResult {
+  return {
+    success: true,
+    outcome,
+    round: battle.combat.round,
+    events: battle.events,
+    combatants: battle.combat.combatants.map(
+      ({ id, name, side, element, hp, max_hp, mp, max_mp, statuses }) => ({
+        id,
+        name,
+        side,
+        element,
+        hp,
+        max_hp,
+        mp,
+        max_mp,
+        statuses: statuses.map((status) => status.type),
+      })
+    ),
+    xp_reward:
+      outcome === "victory"
+        ? battle.combat.combatants
+            .filter((combatant) => combatant.side === "enemy")
+            .reduce((sum, enemy) => sum + enemy.level * 20, 0)
+        : 0,
+  };
+}
+
+const startCombat: GameToolHandler = (state, params) => {
+  if (state.combat) {
+    return fail("A fight is already in progress");
+  }
+  if (state.stats.hp <= 0) {
+    return fail("The player is knocked out and cannot fight");
+  }
+  const enemies = readEnemies(params);
+  if (isParamError(enemies)) {
+    return fail(enemies.error);
+  }
+  const playerElement = readElement(
+    params.player_element,
+    getMagicSchool(state.character.magic_school)?.element ?? "neutral"
+  );
+  if (isParamError(playerElement)) {
+    return fail(playerElement.error);
+  }
+
+  const combatants = [buildPlayer(state, playerElement), ...enemies];
+  let rng = state.rng;
+  const initiative = new Map<string, number>();
+  for (const combatant of combatants) {
+    const [roll, next] = rollDie(rng, 20);
+    rng = next;
+    initiative.set(combatant.id, roll + statModifier(combatant.agility));
+  }
+  const turnOrder = [...combatants]
+    .sort(
+      (left, right) =>
+        (initiative.get(right.id) ?? 0) - (initiative.get(left.id) ?? 0) ||
+        right.agility - left.agility
+    )
+    .map((combatant) => combatant.id);
+
+  const battle: Battle = {
+    combat: {
+      id: `combat-${state.rng.counter}`,
+      round: 0,
+      // Start "before" the first combatant so advancing lands on it.
+      turn_index: turnOrder.length - 1,
+      turn_order: turnOrder,
+      combatants,
+      last_events: [],
+      started_at: new Date().toISOString(),
+    },
+    rng,
+    events: [],
+  };
+  pushEvent(battle, {
+    actor: turnOrder[0],
+    action: "initiative",
+    note: turnOrder.map((id) => `${id}:${initiative.get(id) ?? 0}`).join(", "),
+  });
+  advanceToPlayerTurn(battle);
+
+  const outcome = getCombatOutcome(battle.combat);
+  return {
+    result: { ...describeBattle(battle, outcome), turn_order: turnOrder },
+    state: finishBattle(state, battle),
+  };
+};
+
+const combatAction: GameToolHandler = (state, params) => {
+  if (!state.combat) {
+    return fail("No fight is in progress");
+  }
+  const action = params.action;
+  if (!(COMBAT_ACTIONS as readonly unknown[]).includes(action)) {
+    return fail(
+      `Parameter "action" must be one of ${COMBAT_ACTIONS.join(", ")}`
+    );
+  }
+
+  const previousPlayer = findCombatant(state.combat, PLAYER_COMBATANT_ID);
+  const battle: Battle = {
+    combat: {
+      ...state.combat,
+      combatants: state.combat.combatants.map((combatant) =>
+        combatant.id === PLAYER_COMBATANT_ID
+          ? buildPlayer(
+              state,
+              combatant.element,
+              previousPlayer?.statuses ?? []
+            )
+          : combatant
+      ),
+    },
+    rng: state.rng,
+    events: [],
+  };
+
+  const livingEnemies = battle.combat.combatants.filter(
+    (combatant) => combatant.side === "enemy" && combatant.hp > 0
+  );
+  const requestedTarget =
+    typeof params.target === "string" ? params.target : livingEnemies[0]?.id;
+  const target = livingEnemies.find(
+    (combatant) => combatant.id === requestedTarget
+  );
+
+  switch (action as CombatAction) {
+    case "attack":
+    case "spell": {
+      if (!target) {
+        return fail(`Unknown or defeated target "${requestedTarget}"`);
+      }
+      if (action === "spell") {
+        const cost = readInteger(params, "mp_cost", {
+          min: 0,
+          max: 999,
+          optional: true,
+        });
+        if (isParamError(cost)) {
+          return fail(cost.error);
+        }
+        const mpCost = cost ?? DEFAULT_SPELL_COST;
+        const player = findCombatant(battle.combat, PLAYER_COMBATANT_ID);
+        if (!player || player.mp < mpCost) {
+          return fail(`Not enough MP (${player?.mp ?? 0}/${mpCost})`);
+        }
+        const element = readElement(params.element, player.element);
+        if (isParamError(element)) {
+          return fail(element.error);
+        }
+        updateCombatant(battle, PLAYER_COMBATANT_ID, (current) => ({
+          ...current,
+          mp: current.mp - mpCost,
+        }));
+        dealDamage(battle, PLAYER_COMBATANT_ID, target.id, "spell", element);
+      } else {
+        dealDamage(battle, PLAYER_COMBATANT_ID, target.id, "attack", "neutral");
+      }
+      break;
+    }
+    case "defend": {
+      updateCombatant(battle, PLAYER_COMBATANT_ID, (current) => ({
+        ...current,
+        statuses: addStatus(current.statuses, { type: "defend", turns: 1 }),
+      }));
+      pushEvent(battle, { actor: PLAYER_COMBATANT_ID, action: "defend" });
+      break;
+    }
+    case "flee": {
+      const player = findCombatant(battle.combat, PLAYER_COMBATANT_ID);
+      const [roll, rng] = rollDie(battle.rng, 20);
+      battle.rng = rng;
+      const total = roll + statModifier(player?.agility ?? 10);
+      const escaped = total >= FLEE_DC;
+      pushEvent(battle, {
+        actor: PLAYER_COMBATANT_ID,
+        action: "flee",
+        note: `${total} vs ${FLEE_DC}: ${escaped ? "escaped" : "failed"}`,
+      });
+      if (escaped) {
+        return {
+          result: describeBattle(battle, "fled"),
+          state: { ...finishBattle(state, battle), combat: null },
+        };
+      }
+      break;
+    }
+  }
+
+  advanceToPlayerTurn(battle);
+  const outcome = getCombatOutcome(battle.combat);
+  return {
+    result: describeBattle(battle, outcome),
+    state: finishBattle(state, battle),
+  };
+};
+
+export const COMBAT_TOOLS: Record<string, GameToolHandler> = {
+  start_combat: startCombat,
+  combat_action: combatAction,
+};
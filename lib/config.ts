@@ -1,35 +1,29 @@
-import { ColorScheme, StartScreenPrompt, ThemeOption } from "@openai/chatkit";
+import { ColorScheme, ThemeOption } from "@openai/chatkit";
+import {
+  DEFAULT_GUILD_THEME,
+  getGuildPalette,
+  type GuildTheme,
+} from "@/lib/guildThemes";
 
 export const WORKFLOW_ID =
   process.env.NEXT_PUBLIC_CHATKIT_WORKFLOW_ID?.trim() ?? "";
 
 export const CREATE_SESSION_ENDPOINT = "/api/create-session";
 
-export const STARTER_PROMPTS: StartScreenPrompt[] = [
-  {
-    label: "What can you do?",
-    prompt: "What can you do?",
-    icon: "circle-question",
-  },
-];
+/** How many snapshots each save slot keeps before the oldest are dropped. */
+export const SNAPSHOT_RETENTION =
+  Number.parseInt(process.env.NEXT_PUBLIC_SAVE_SNAPSHOT_RETENTION ?? "", 10) ||
+  10;
 
-export const PLACEHOLDER_INPUT = "Ask anything...";
-
-export const GREETING = "How can I help you today?";
-
-export const getThemeConfig = (theme: ColorScheme): ThemeOption => ({
-  color: {
-    grayscale: {
-      hue: 220,
-      tint: 6,
-      shade: theme === "dark" ? -1 : -4,
-    },
-    accent: {
-      primary: theme === "dark" ? "#f1f5f9" : "#0f172a",
-      level: 1,
-    },
-  },
-  radius: "round",
-  // Add other theme options here
-  // chatkit.studio/playground to explore config options
-});
+export const getThemeConfig = (
+  theme: ColorScheme,
+  guild: GuildTheme = DEFAULT_GUILD_THEME
+): ThemeOption => {
+  const { grayscale, accent } = getGuildPalette(guild, theme);
+  return {
+    color: { grayscale, accent },
+    radius: "round",
+    // Add other theme options here
+    // chatkit.studio/playground to explore config options
+  };
+};
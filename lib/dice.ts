@@ -0,0 +1,230 @@
+import {
+  ROLL_MODES,
+  type GameState,
+  type RngState,
+  type RollLogEntry,
+  type RollMode,
+} from "@/lib/gameState";
+import {
+  fail,
+  isParamError,
+  readInteger,
+  readText,
+  type ClientToolParams,
+  type GameToolHandler,
+  type ParamError,
+} from "@/lib/clientTools";
+import { getEquipmentBonuses } from "@/lib/inventory";
+
+export type DiceExpression = {
+  count: number;
+  sides: number;
+  modifier: number;
+};
+
+export const CHECK_STATS = ["strength", "magic", "agility", "defense"] as const;
+
+export type CheckStat = (typeof CHECK_STATS)[number];
+
+export const MAX_ROLL_LOG_ENTRIES = 200;
+const MAX_DICE = 20;
+const MAX_SIDES = 1000;
+const MAX_MODIFIER = 1000;
+const MAX_REASON_LENGTH = 120;
+const DICE_PATTERN = /^(\d*)d(\d+)(?:\s*([+-])\s*(\d+))?$/i;
+
+/** Parses notation such as `d20`, `2d6+3` or `3d8 - 1`. */
+export function parseDiceNotation(
+  notation: string
+): DiceExpression | ParamError {
+  const match = DICE_PATTERN.exec(notation.trim());
+  if (!match) {
+    return { error: `Invalid dice notation "${notation}"` };
+  }
+  const count = match[1] ? Number(match[1]) : 1;
+  const sides = Number(match[2]);
+  const modifier = match[4]
+    ? Number(match[4]) * (match[3] === "-" ? -1 : 1)
+    : 0;
+
+  if (count < 1 || count > MAX_DICE) {
+    return { error: `Dice count must be between 1 and ${MAX_DICE}` };
+  }
+  if (sides < 2 || sides > MAX_SIDES) {
+    return { error: `Dice sides must be between 2 and ${MAX_SIDES}` };
+  }
+  if (Math.abs(modifier) > MAX_MODIFIER) {
+    return { error: `Modifier must be at most ±${MAX_MODIFIER}` };
+  }
+  return { count, sides, modifier };
+}
+
+export function formatDiceExpression({
+  count,
+  sides,
+  modifier,
+}: DiceExpression): string {
+  const suffix =
+    modifier === 0 ? "" : modifier > 0 ? `+${modifier}` : `${modifier}`;
+  return `${count}d${sides}${suffix}`;
+}
+
+/**
+ * Draws the next float in [0, 1) from the slot's generator (mulberry32
+ * keyed by seed and draw counter) and returns the advanced state.
+ */
+export function drawRandom(rng: RngState): [number, RngState] {
+  let t = (rng.seed + Math.imul(rng.counter + 1, 0x6d2b79f5)) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return [value, { ...rng, counter: rng.counter + 1 }];
+}
+
+export function rollDie(rng: RngState, sides: number): [number, RngState] {
+  const [value, next] = drawRandom(rng);
+  return [1 + Math.floor(value * sides), next];
+}
+
+export function rollDice(
+  rng: RngState,
+  count: number,
+  sides: number
+): [number[], RngState] {
+  const values: number[] = [];
+  let current = rng;
+  for (let index = 0; index < count; index += 1) {
+    const [value, next] = rollDie(current, sides);
+    values.push(value);
+    current = next;
+  }
+  return [values, current];
+}
+
+export function statModifier(value: number): number {
+  return Math.floor((value - 10) / 2);
+}
+
+export function getEffectiveStat(state: GameState, stat: CheckStat): number {
+  return state.stats[stat] + (getEquipmentBonuses(state)[stat] ?? 0);
+}
+
+export function appendRollLog(
+  rolls: RollLogEntry[],
+  entry: RollLogEntry
+): RollLogEntry[] {
+  return [...rolls, entry].slice(-MAX_ROLL_LOG_ENTRIES);
+}
+
+function readMode(params: ClientToolParams): RollMode | ParamError {
+  const mode = params.mode ?? "normal";
+  if (!(ROLL_MODES as readonly unknown[]).includes(mode)) {
+    return {
+      error: `Parameter "mode" must be one of ${ROLL_MODES.join(", ")}`,
+    };
+  }
+  return mode as RollMode;
+}
+
+function readStat(params: ClientToolParams): CheckStat | null | ParamError {
+  if (params.stat === undefined || params.stat === null) {
+    return null;
+  }
+  if (!(CHECK_STATS as readonly unknown[]).includes(params.stat)) {
+    return {
+      error: `Parameter "stat" must be one of ${CHECK_STATS.join(", ")}`,
+    };
+  }
+  return params.stat as CheckStat;
+}
+
+const rollCheck: GameToolHandler = (state, params) => {
+  const expression = parseDiceNotation(
+    typeof params.dice === "string" ? params.dice : "1d20"
+  );
+  if (isParamError(expression)) {
+    return fail(expression.error);
+  }
+  const mode = readMode(params);
+  if (isParamError(mode)) {
+    return fail(mode.error);
+  }
+  const stat = readStat(params);
+  if (isParamError(stat)) {
+    return fail(stat.error);
+  }
+  const dc = readInteger(params, "dc", { min: 1, max: 1000, optional: true });
+  if (isParamError(dc)) {
+    return fail(dc.error);
+  }
+  const reason =
+    params.reason === undefined
+      ? null
+      : readText(params, "reason", MAX_REASON_LENGTH);
+  if (isParamError(reason)) {
+    return fail(reason.error);
+  }
+
+  const rngCounter = state.rng.counter;
+  const throws = mode === "normal" ? 1 : 2;
+  const dice: number[][] = [];
+  let rng = state.rng;
+  for (let index = 0; index < throws; index += 1) {
+    const [values, next] = rollDice(rng, expression.count, expression.sides);
+    dice.push(values);
+    rng = next;
+  }
+
+  const sums = dice.map((values) =>
+    values.reduce((sum, value) => sum + value, 0)
+  );
+  const keptIndex =
+    mode === "normal"
+      ? 0
+      : sums.indexOf(
+          mode === "advantage" ? Math.max(...sums) : Math.min(...sums)
+        );
+  const kept = dice[keptIndex];
+  const modifier =
+    expression.modifier +
+    (stat ? statModifier(getEffectiveStat(state, stat)) : 0);
+  const total = sums[keptIndex] + modifier;
+  const passed = dc === null ? null : total >= dc;
+
+  const lastRoll = state.rolls[state.rolls.length - 1];
+  const entry: RollLogEntry = {
+    id: (lastRoll?.id ?? 0) + 1,
+    notation: formatDiceExpression(expression),
+    mode,
+    dice,
+    kept,
+    modifier,
+    total,
+    stat,
+    dc,
+    passed,
+    reason,
+    rng_counter: rngCounter,
+    rolled_at: new Date().toISOString(),
+  };
+
+  return {
+    result: {
+      success: true,
+      roll_id: entry.id,
+      notation: entry.notation,
+      mode,
+      dice,
+      kept,
+      modifier,
+      total,
+      dc,
+      passed,
+    },
+    state: { ...state, rng, rolls: appendRollLog(state.rolls, entry) },
+  };
+};
+
+export const DICE_TOOLS: Record<string, GameToolHandler> = {
+  roll_check: rollCheck,
+};
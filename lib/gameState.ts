@@ -0,0 +1,533 @@
+export const GAME_STATE_VERSION = 7;
+
+export type CharacterStats = {
+  level: number;
+  xp: number;
+  hp: number;
+  max_hp: number;
+  mp: number;
+  max_mp: number;
+  strength: number;
+  magic: number;
+  agility: number;
+  defense: number;
+};
+
+export type InventoryEntry = {
+  item_id: string;
+  quantity: number;
+};
+
+export const EQUIPMENT_SLOTS = ["weapon", "armor", "accessory"] as const;
+
+export type EquipmentSlot = (typeof EQUIPMENT_SLOTS)[number];
+
+export type Equipment = Partial<Record<EquipmentSlot, string>>;
+
+export const QUEST_RANKS = ["D", "C", "B", "A", "S"] as const;
+
+export type QuestRank = (typeof QUEST_RANKS)[number];
+
+export const QUEST_STATUSES = [
+  "posted",
+  "active",
+  "completed",
+  "failed",
+] as const;
+
+export type QuestStatus = (typeof QUEST_STATUSES)[number];
+
+export type QuestObjective = {
+  id: string;
+  label: string;
+  done: boolean;
+};
+
+export type Quest = {
+  id: string;
+  title: string;
+  rank: QuestRank;
+  reward_jewels: number;
+  status: QuestStatus;
+  objectives: QuestObjective[];
+  updated_at: string;
+};
+
+export const ROLL_MODES = ["normal", "advantage", "disadvantage"] as const;
+
+export type RollMode = (typeof ROLL_MODES)[number];
+
+/**
+ * Seeded generator position. The n-th random draw of a slot is fully
+ * determined by `seed` and `counter`, which makes every roll reproducible.
+ */
+export type RngState = {
+  seed: number;
+  counter: number;
+};
+
+export type RollLogEntry = {
+  id: number;
+  notation: string;
+  mode: RollMode;
+  /** Every die thrown, in order; two sets when rolling with (dis)advantage. */
+  dice: number[][];
+  kept: number[];
+  modifier: number;
+  total: number;
+  stat: string | null;
+  dc: number | null;
+  passed: boolean | null;
+  reason: string | null;
+  rng_counter: number;
+  rolled_at: string;
+};
+
+export const ELEMENTS = [
+  "neutral",
+  "fire",
+  "ice",
+  "water",
+  "lightning",
+  "wind",
+  "earth",
+  "light",
+  "dark",
+] as const;
+
+export type Element = (typeof ELEMENTS)[number];
+
+export const STATUS_EFFECTS = [
+  "burn",
+  "poison",
+  "freeze",
+  "stun",
+  "defend",
+] as const;
+
+export type StatusEffectType = (typeof STATUS_EFFECTS)[number];
+
+export type StatusEffect = {
+  type: StatusEffectType;
+  turns: number;
+};
+
+export type Combatant = {
+  id: string;
+  name: string;
+  side: "player" | "enemy";
+  element: Element;
+  level: number;
+  hp: number;
+  max_hp: number;
+  mp: number;
+  max_mp: number;
+  strength: number;
+  magic: number;
+  defense: number;
+  agility: number;
+  statuses: StatusEffect[];
+};
+
+export type CombatEvent = {
+  round: number;
+  actor: string;
+  action: string;
+  target: string | null;
+  damage: number | null;
+  effectiveness: number | null;
+  status: StatusEffectType | null;
+  defeated: boolean;
+  note: string | null;
+};
+
+export type CombatState = {
+  id: string;
+  round: number;
+  turn_order: string[];
+  turn_index: number;
+  combatants: Combatant[];
+  last_events: CombatEvent[];
+  started_at: string;
+};
+
+export type CharacterAppearance = {
+  guild_mark_color: string;
+  guild_mark_location: string;
+  description: string;
+};
+
+export type CharacterProfile = {
+  magic_school: string | null;
+  appearance: CharacterAppearance;
+  backstory: string;
+};
+
+export type FlagValue = boolean | number | string;
+
+export type GameState = {
+  version: number;
+  /** Campaign id from `lib/campaigns.ts`; `null` plays the default one. */
+  campaign: string | null;
+  character: CharacterProfile;
+  stats: CharacterStats;
+  location: string | null;
+  flags: Record<string, FlagValue>;
+  inventory: InventoryEntry[];
+  equipment: Equipment;
+  quests: Record<string, Quest>;
+  jewels: number;
+  rng: RngState;
+  rolls: RollLogEntry[];
+  combat: CombatState | null;
+  last_activity: string | null;
+};
+
+type DeepPartial<T> = T extends unknown[]
+  ? T
+  : T extends Record<string, unknown>
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+export type GameStatePatch = DeepPartial<Omit<GameState, "version">>;
+
+export type GameStateParseResult =
+  | { ok: true; state: GameState; migrated: boolean }
+  | { ok: false; error: string };
+
+type RawState = Record<string, unknown>;
+
+export const DEFAULT_STATS: CharacterStats = {
+  level: 1,
+  xp: 0,
+  hp: 100,
+  max_hp: 100,
+  mp: 50,
+  max_mp: 50,
+  strength: 10,
+  magic: 10,
+  agility: 10,
+  defense: 10,
+};
+
+export function createDefaultGameState(): GameState {
+  return {
+    version: GAME_STATE_VERSION,
+    campaign: null,
+    character: createDefaultCharacter(),
+    stats: { ...DEFAULT_STATS },
+    location: null,
+    flags: {},
+    inventory: [],
+    equipment: {},
+    quests: {},
+    jewels: 0,
+    rng: { seed: createSeed(), counter: 0 },
+    rolls: [],
+    combat: null,
+    last_activity: null,
+  };
+}
+
+function createDefaultCharacter(): CharacterProfile {
+  return {
+    magic_school: null,
+    appearance: {
+      guild_mark_color: "",
+      guild_mark_location: "",
+      description: "",
+    },
+    backstory: "",
+  };
+}
+
+export function createSeed(): number {
+  if (typeof crypto !== "undefined" && "getRandomValues" in crypto) {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return Math.floor(Math.random() * 0xffffffff);
+}
+
+/**
+ * Each migration upgrades a raw row from the version it is keyed by to the
+ * next one. Rows written before versioning existed are treated as version 0.
+ */
+const MIGRATIONS: Record<number, (raw: RawState) => RawState> = {
+  0: (raw) => ({
+    version: 1,
+    stats: { ...DEFAULT_STATS },
+    location: null,
+    flags: {},
+    inventory: [],
+    quests: {},
+    last_activity:
+      typeof raw.last_activity === "string" ? raw.last_activity : null,
+  }),
+  1: (raw) => ({ ...raw, equipment: {}, version: 2 }),
+  2: (raw) => ({
+    ...raw,
+    jewels: 0,
+    quests: Object.fromEntries(
+      Object.entries(isRecord(raw.quests) ? raw.quests : {}).map(
+        ([questId, progress]) => {
+          const legacy = isRecord(progress) ? progress : {};
+          const objectives = isRecord(legacy.objectives)
+            ? legacy.objectives
+            : {};
+          return [
+            questId,
+            {
+              id: questId,
+              title: questId,
+              rank: "D",
+              reward_jewels: 0,
+              status: legacy.status,
+              objectives: Object.entries(objectives).map(([id, done]) => ({
+                id,
+                label: id,
+                done: done === true,
+              })),
+              updated_at: new Date(0).toISOString(),
+            },
+          ];
+        }
+      )
+    ),
+    version: 3,
+  }),
+  3: (raw) => ({
+    ...raw,
+    rng: { seed: createSeed(), counter: 0 },
+    rolls: [],
+    version: 4,
+  }),
+  4: (raw) => ({ ...raw, combat: null, version: 5 }),
+  5: (raw) => ({ ...raw, character: createDefaultCharacter(), version: 6 }),
+  6: (raw) => ({ ...raw, campaign: null, version: 7 }),
+};
+
+export function migrateGameState(raw: RawState): RawState {
+  let current = raw;
+  let version = typeof current.version === "number" ? current.version : 0;
+
+  while (version < GAME_STATE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration registered for game state v${version}`);
+    }
+    current = migrate(current);
+    version = current.version as number;
+  }
+
+  return current;
+}
+
+/**
+ * Parses the `game_state` column of a save row. Missing state yields a fresh
+ * default; anything else is migrated to the current version and validated so
+ * callers never have to trust the JSON stored in Supabase.
+ */
+export function parseGameState(raw: unknown): GameStateParseResult {
+  if (raw === null || raw === undefined) {
+    return { ok: true, state: createDefaultGameState(), migrated: false };
+  }
+
+  if (!isRecord(raw)) {
+    return { ok: false, error: "game_state is not an object" };
+  }
+
+  if (typeof raw.version === "number" && raw.version > GAME_STATE_VERSION) {
+    return {
+      ok: false,
+      error: `game_state v${raw.version} is newer than supported v${GAME_STATE_VERSION}`,
+    };
+  }
+
+  let migrated: RawState;
+  try {
+    migrated = migrateGameState(raw);
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "Migration failed",
+    };
+  }
+
+  const error = validateGameState(migrated);
+  if (error) {
+    return { ok: false, error };
+  }
+
+  return {
+    ok: true,
+    state: migrated as GameState,
+    migrated: migrated !== raw,
+  };
+}
+
+/**
+ * Deep-merges a partial update into a state. Nested objects are merged key by
+ * key while arrays and primitives replace the previous value.
+ */
+export function mergeGameState(
+  base: GameState,
+  patch: GameStatePatch
+): GameState {
+  return {
+    ...(mergeRecords(base, patch as RawState) as GameState),
+    version: GAME_STATE_VERSION,
+  };
+}
+
+function mergeRecords(base: RawState, patch: RawState): RawState {
+  const result: RawState = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) {
+      continue;
+    }
+    const previous = result[key];
+    result[key] =
+      isRecord(previous) && isRecord(value)
+        ? mergeRecords(previous, value)
+        : value;
+  }
+  return result;
+}
+
+function validateGameState(state: RawState): string | null {
+  if (state.campaign !== null && typeof state.campaign !== "string") {
+    return "campaign must be a string";
+  }
+
+  const character = state.character;
+  if (
+    !isRecord(character) ||
+    (character.magic_school !== null &&
+      typeof character.magic_school !== "string") ||
+    typeof character.backstory !== "string" ||
+    !isRecord(character.appearance) ||
+    !Object.values(character.appearance).every(
+      (value) => typeof value === "string"
+    )
+  ) {
+    return "character is invalid";
+  }
+
+  if (!isRecord(state.stats)) {
+    return "stats is missing";
+  }
+  for (const key of Object.keys(DEFAULT_STATS)) {
+    const value = state.stats[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return `stats.${key} must be a number`;
+    }
+  }
+
+  if (state.location !== null && typeof state.location !== "string") {
+    return "location must be a string";
+  }
+
+  if (!isRecord(state.flags)) {
+    return "flags must be an object";
+  }
+  for (const [key, value] of Object.entries(state.flags)) {
+    if (!["boolean", "number", "string"].includes(typeof value)) {
+      return `flags.${key} has an unsupported type`;
+    }
+  }
+
+  if (!Array.isArray(state.inventory)) {
+    return "inventory must be an array";
+  }
+  for (const entry of state.inventory) {
+    if (
+      !isRecord(entry) ||
+      typeof entry.item_id !== "string" ||
+      typeof entry.quantity !== "number"
+    ) {
+      return "inventory contains an invalid entry";
+    }
+  }
+
+  if (!isRecord(state.equipment)) {
+    return "equipment must be an object";
+  }
+  for (const [slot, itemId] of Object.entries(state.equipment)) {
+    if (
+      !(EQUIPMENT_SLOTS as readonly string[]).includes(slot) ||
+      typeof itemId !== "string"
+    ) {
+      return `equipment.${slot} is invalid`;
+    }
+  }
+
+  if (!isRecord(state.quests)) {
+    return "quests must be an object";
+  }
+  for (const [questId, quest] of Object.entries(state.quests)) {
+    if (
+      !isRecord(quest) ||
+      quest.id !== questId ||
+      typeof quest.title !== "string" ||
+      !(QUEST_RANKS as readonly unknown[]).includes(quest.rank) ||
+      typeof quest.reward_jewels !== "number" ||
+      !(QUEST_STATUSES as readonly unknown[]).includes(quest.status) ||
+      typeof quest.updated_at !== "string" ||
+      !Array.isArray(quest.objectives) ||
+      !quest.objectives.every(
+        (objective) =>
+          isRecord(objective) &&
+          typeof objective.id === "string" &&
+          typeof objective.label === "string" &&
+          typeof objective.done === "boolean"
+      )
+    ) {
+      return `quests.${questId} is invalid`;
+    }
+  }
+
+  if (typeof state.jewels !== "number" || !Number.isFinite(state.jewels)) {
+    return "jewels must be a number";
+  }
+
+  if (
+    !isRecord(state.rng) ||
+    !Number.isInteger(state.rng.seed) ||
+    !Number.isInteger(state.rng.counter)
+  ) {
+    return "rng is invalid";
+  }
+
+  if (
+    !Array.isArray(state.rolls) ||
+    !state.rolls.every(
+      (roll) =>
+        isRecord(roll) &&
+        typeof roll.id === "number" &&
+        typeof roll.total === "number" &&
+        Array.isArray(roll.dice)
+    )
+  ) {
+    return "rolls must be a list of roll entries";
+  }
+
+  if (
+    state.combat !== null &&
+    (!isRecord(state.combat) ||
+      !Array.isArray(state.combat.combatants) ||
+      !Array.isArray(state.combat.turn_order) ||
+      typeof state.combat.turn_index !== "number")
+  ) {
+    return "combat is invalid";
+  }
+
+  if (state.last_activity !== null && typeof state.last_activity !== "string") {
+    return "last_activity must be a string";
+  }
+
+  return null;
+}
+
+function isRecord(value: unknown): value is RawState {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultGameState } from "@/lib/gameState";
+import { applyGameTool } from "@/lib/gameTools";
+
+describe("applyGameTool", () => {
+  it.each(["__proto__", "constructor", "toString", "hasOwnProperty"])(
+    "treats %s as an unknown tool",
+    (name) => {
+      expect(applyGameTool(createDefaultGameState(), name, {})).toBeNull();
+    }
+  );
+
+  it.each(["accept_quest", "update_objective", "complete_quest"])(
+    "does not find a quest named constructor with %s",
+    (name) => {
+      const outcome = applyGameTool(createDefaultGameState(), name, {
+        quest_id: "constructor",
+        objective_id: "a",
+        completed: true,
+      });
+
+      expect(outcome?.result).toMatchObject({
+        success: false,
+        reason: 'Unknown quest "constructor"',
+      });
+    }
+  );
+
+  it("posts a quest whose id is a prototype key", () => {
+    const outcome = applyGameTool(createDefaultGameState(), "post_quest", {
+      quest_id: "toString",
+      title: "Nettoyer l'entrepôt",
+      rank: "D",
+      reward_jewels: 1000,
+      objectives: ["Trier les caisses"],
+    });
+
+    expect(outcome?.result.success).toBe(true);
+    expect(outcome?.state?.quests.toString).toMatchObject({
+      id: "toString",
+      status: "posted",
+    });
+  });
+});
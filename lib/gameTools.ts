@@ -0,0 +1,173 @@
+import type { CharacterStats, GameState } from "@/lib/gameState";
+import {
+  clamp,
+  fail,
+  isParamError,
+  readInteger,
+  readText,
+  type ClientToolParams,
+  type ClientToolResult,
+  type GameToolHandler,
+  type GameToolOutcome,
+} from "@/lib/clientTools";
+import { COMBAT_TOOLS } from "@/lib/combat";
+import { DICE_TOOLS } from "@/lib/dice";
+import { INVENTORY_TOOLS } from "@/lib/inventory";
+import { QUEST_TOOLS } from "@/lib/quests";
+
+export const MAX_LEVEL = 100;
+const MAX_LOCATION_LENGTH = 120;
+const MAX_XP_GAIN = 100_000;
+const MAX_RESOURCE_DELTA = 10_000;
+
+export function xpToNextLevel(level: number): number {
+  return 100 * level;
+}
+
+function applyLevelUps(stats: CharacterStats, levels: number): CharacterStats {
+  const gained = Math.min(levels, MAX_LEVEL - stats.level);
+  if (gained <= 0) {
+    return stats;
+  }
+  const maxHp = stats.max_hp + 10 * gained;
+  const maxMp = stats.max_mp + 5 * gained;
+  return {
+    ...stats,
+    level: stats.level + gained,
+    max_hp: maxHp,
+    hp: maxHp,
+    max_mp: maxMp,
+    mp: maxMp,
+    strength: stats.strength + gained,
+    magic: stats.magic + gained,
+    agility: stats.agility + gained,
+    defense: stats.defense + gained,
+  };
+}
+
+function summarizeStats(stats: CharacterStats): ClientToolResult {
+  return {
+    success: true,
+    level: stats.level,
+    xp: stats.xp,
+    xp_to_next_level: xpToNextLevel(stats.level),
+    hp: stats.hp,
+    max_hp: stats.max_hp,
+    mp: stats.mp,
+    max_mp: stats.max_mp,
+  };
+}
+
+const setLocation: GameToolHandler = (state, params) => {
+  const location = readText(params, "location", MAX_LOCATION_LENGTH);
+  if (isParamError(location)) {
+    return fail(location.error);
+  }
+  return {
+    result: { success: true, location },
+    state: { ...state, location },
+  };
+};
+
+const gainXp: GameToolHandler = (state, params) => {
+  const amount = readInteger(params, "amount", { min: 1, max: MAX_XP_GAIN });
+  if (isParamError(amount) || amount === null) {
+    return fail(amount?.error ?? 'Missing parameter "amount"');
+  }
+
+  let stats: CharacterStats = { ...state.stats, xp: state.stats.xp + amount };
+  let levelsGained = 0;
+  while (stats.level < MAX_LEVEL && stats.xp >= xpToNextLevel(stats.level)) {
+    stats = applyLevelUps(
+      { ...stats, xp: stats.xp - xpToNextLevel(stats.level) },
+      1
+    );
+    levelsGained += 1;
+  }
+
+  return {
+    result: { ...summarizeStats(stats), levels_gained: levelsGained },
+    state: { ...state, stats },
+  };
+};
+
+const changeHpMp: GameToolHandler = (state, params) => {
+  const hpDelta = readInteger(params, "hp_delta", {
+    min: -MAX_RESOURCE_DELTA,
+    max: MAX_RESOURCE_DELTA,
+    optional: true,
+  });
+  const mpDelta = readInteger(params, "mp_delta", {
+    min: -MAX_RESOURCE_DELTA,
+    max: MAX_RESOURCE_DELTA,
+    optional: true,
+  });
+  if (isParamError(hpDelta)) {
+    return fail(hpDelta.error);
+  }
+  if (isParamError(mpDelta)) {
+    return fail(mpDelta.error);
+  }
+  if (hpDelta === null && mpDelta === null) {
+    return fail('Provide "hp_delta" and/or "mp_delta"');
+  }
+
+  const stats: CharacterStats = {
+    ...state.stats,
+    hp: clamp(state.stats.hp + (hpDelta ?? 0), 0, state.stats.max_hp),
+    mp: clamp(state.stats.mp + (mpDelta ?? 0), 0, state.stats.max_mp),
+  };
+
+  return {
+    result: { ...summarizeStats(stats), knocked_out: stats.hp === 0 },
+    state: { ...state, stats },
+  };
+};
+
+const levelUp: GameToolHandler = (state, params) => {
+  const levels = readInteger(params, "levels", {
+    min: 1,
+    max: 10,
+    optional: true,
+  });
+  if (isParamError(levels)) {
+    return fail(levels.error);
+  }
+  if (state.stats.level >= MAX_LEVEL) {
+    return fail(`Character is already at the maximum level (${MAX_LEVEL})`);
+  }
+
+  const stats = applyLevelUps({ ...state.stats, xp: 0 }, levels ?? 1);
+  return {
+    result: summarizeStats(stats),
+    state: { ...state, stats },
+  };
+};
+
+const GAME_TOOLS: Record<string, GameToolHandler> = {
+  set_location: setLocation,
+  gain_xp: gainXp,
+  change_hp_mp: changeHpMp,
+  level_up: levelUp,
+  ...INVENTORY_TOOLS,
+  ...QUEST_TOOLS,
+  ...DICE_TOOLS,
+  ...COMBAT_TOOLS,
+};
+
+/**
+ * Runs a game-mechanics client tool against the current state. Returns `null`
+ * when the tool name is not a game tool so callers can fall through to their
+ * own handlers.
+ */
+export function applyGameTool(
+  state: GameState,
+  name: string,
+  params: ClientToolParams
+): GameToolOutcome | null {
+  // Tool names come from the model; inherited keys are not tools.
+  if (!Object.hasOwn(GAME_TOOLS, name)) {
+    return null;
+  }
+  return GAME_TOOLS[name](state, params ?? {});
+}
@@ -0,0 +1,162 @@
+import type {
+  AccentColor,
+  ColorScheme,
+  GrayscaleOptions,
+} from "@openai/chatkit";
+
+export const GUILD_THEMES = [
+  "fairy-tail",
+  "sabertooth",
+  "lamia-scale",
+  "blue-pegasus",
+  "raven-tail",
+] as const;
+
+export type GuildTheme = (typeof GUILD_THEMES)[number];
+
+export const DEFAULT_GUILD_THEME: GuildTheme = "fairy-tail";
+
+/** Colors of the page around the chat, set as CSS variables on `<html>`. */
+export type ShellPalette = {
+  background: string;
+  foreground: string;
+  accent: string;
+  accentForeground: string;
+};
+
+type SchemePalette = {
+  grayscale: GrayscaleOptions;
+  accent: AccentColor;
+  shell: ShellPalette;
+};
+
+/** ChatKit options and app-shell colors of each guild, in both schemes. */
+export const GUILD_THEME_PALETTES: Record<
+  GuildTheme,
+  Record<ColorScheme, SchemePalette>
+> = {
+  "fairy-tail": {
+    light: {
+      grayscale: { hue: 220, tint: 6, shade: -4 },
+      accent: { primary: "#0f172a", level: 1 },
+      shell: {
+        background: "#f1f5f9",
+        foreground: "#0f172a",
+        accent: "#f97316",
+        accentForeground: "#ffffff",
+      },
+    },
+    dark: {
+      grayscale: { hue: 220, tint: 6, shade: -1 },
+      accent: { primary: "#f1f5f9", level: 1 },
+      shell: {
+        background: "#020617",
+        foreground: "#f1f5f9",
+        accent: "#f97316",
+        accentForeground: "#ffffff",
+      },
+    },
+  },
+  sabertooth: {
+    light: {
+      grayscale: { hue: 35, tint: 4, shade: -4 },
+      accent: { primary: "#b45309", level: 2 },
+      shell: {
+        background: "#fdf6e3",
+        foreground: "#1c1917",
+        accent: "#b45309",
+        accentForeground: "#ffffff",
+      },
+    },
+    dark: {
+      grayscale: { hue: 35, tint: 4, shade: -1 },
+      accent: { primary: "#fbbf24", level: 2 },
+      shell: {
+        background: "#1c1410",
+        foreground: "#fef3c7",
+        accent: "#f59e0b",
+        accentForeground: "#1c1917",
+      },
+    },
+  },
+  "lamia-scale": {
+    light: {
+      grayscale: { hue: 170, tint: 5, shade: -4 },
+      accent: { primary: "#0f766e", level: 2 },
+      shell: {
+        background: "#f0fdfa",
+        foreground: "#134e4a",
+        accent: "#0d9488",
+        accentForeground: "#ffffff",
+      },
+    },
+    dark: {
+      grayscale: { hue: 170, tint: 5, shade: -1 },
+      accent: { primary: "#5eead4", level: 2 },
+      shell: {
+        background: "#04201d",
+        foreground: "#ccfbf1",
+        accent: "#2dd4bf",
+        accentForeground: "#042f2e",
+      },
+    },
+  },
+  "blue-pegasus": {
+    light: {
+      grayscale: { hue: 215, tint: 5, shade: -4 },
+      accent: { primary: "#1d4ed8", level: 2 },
+      shell: {
+        background: "#eff6ff",
+        foreground: "#172554",
+        accent: "#ec4899",
+        accentForeground: "#ffffff",
+      },
+    },
+    dark: {
+      grayscale: { hue: 215, tint: 5, shade: -1 },
+      accent: { primary: "#93c5fd", level: 2 },
+      shell: {
+        background: "#0b1530",
+        foreground: "#dbeafe",
+        accent: "#f472b6",
+        accentForeground: "#1e1b4b",
+      },
+    },
+  },
+  "raven-tail": {
+    light: {
+      grayscale: { hue: 280, tint: 3, shade: -3 },
+      accent: { primary: "#6d28d9", level: 2 },
+      shell: {
+        background: "#f5f3ff",
+        foreground: "#1e1b2e",
+        accent: "#be123c",
+        accentForeground: "#ffffff",
+      },
+    },
+    dark: {
+      grayscale: { hue: 280, tint: 3, shade: 0 },
+      accent: { primary: "#c4b5fd", level: 2 },
+      shell: {
+        background: "#0f0a1a",
+        foreground: "#ede9fe",
+        accent: "#fb7185",
+        accentForeground: "#1f0a12",
+      },
+    },
+  },
+};
+
+export function isGuildTheme(value: unknown): value is GuildTheme {
+  return (
+    typeof value === "string" &&
+    (GUILD_THEMES as readonly string[]).includes(value)
+  );
+}
+
+export function getGuildPalette(
+  guild: GuildTheme,
+  scheme: ColorScheme
+): SchemePalette {
+  return GUILD_THEME_PALETTES[guild][scheme];
+}
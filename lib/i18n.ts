@@ -0,0 +1,76 @@
+import type { SupportedLocale } from "@openai/chatkit";
+import { en } from "@/lib/messages/en";
+import { fr, type LocalizedEntries, type Messages } from "@/lib/messages/fr";
+import { ja } from "@/lib/messages/ja";
+
+export type { Messages } from "@/lib/messages/fr";
+
+export const LOCALES = ["fr", "en", "ja"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "fr";
+
+/** BCP 47 tags used for date formatting and for the ChatKit widget. */
+export const LOCALE_TAGS: Record<Locale, SupportedLocale> = {
+  fr: "fr-FR",
+  en: "en",
+  ja: "ja-JP",
+};
+
+const MESSAGES: Record<Locale, Messages> = { fr, en, ja };
+
+export function isLocale(value: unknown): value is Locale {
+  return (
+    typeof value === "string" && (LOCALES as readonly string[]).includes(value)
+  );
+}
+
+export function getMessages(locale: Locale): Messages {
+  return MESSAGES[locale];
+}
+
+/**
+ * Picks the first supported language from the browser's preference list
+ * (`navigator.languages`), matching on the primary subtag so `en-GB` and
+ * `ja-JP` resolve to `en` and `ja`.
+ */
+export function detectLocale(languages: readonly string[] | undefined): Locale {
+  for (const language of languages ?? []) {
+    const primary = language.toLowerCase().split("-")[0];
+    if (isLocale(primary)) {
+      return primary;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+/** Formats an ISO date in the given locale; null when it cannot be parsed. */
+export function formatDateTime(
+  value: string,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }
+): string | null {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+  return new Intl.DateTimeFormat(LOCALE_TAGS[locale], options).format(date);
+}
+
+/**
+ * Game catalogs (items, schools, campaigns) are authored in French; this
+ * returns the translated name and description of an entry when the catalog
+ * has one, and the original otherwise.
+ */
+export function localizeEntry<T extends { name: string; description: string }>(
+  entries: LocalizedEntries,
+  id: string,
+  entry: T
+): T {
+  const translation = entries[id];
+  return translation ? { ...entry, ...translation } : entry;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultGameState } from "@/lib/gameState";
+import { getItemDefinition, INVENTORY_TOOLS } from "@/lib/inventory";
+
+describe("getItemDefinition", () => {
+  it.each(["constructor", "toString", "__proto__", "hasOwnProperty"])(
+    "does not find %s on the catalog's prototype",
+    (itemId) => {
+      expect(getItemDefinition(itemId)).toBeNull();
+    }
+  );
+});
+
+describe("add_item", () => {
+  it("refuses an id inherited from Object.prototype", () => {
+    const outcome = INVENTORY_TOOLS.add_item(createDefaultGameState(), {
+      item_id: "constructor",
+    });
+
+    expect(outcome).toEqual({
+      result: { success: false, reason: 'Unknown item "constructor"' },
+    });
+  });
+});
@@ -0,0 +1,332 @@
+import type {
+  CharacterStats,
+  EquipmentSlot,
+  GameState,
+  InventoryEntry,
+} from "@/lib/gameState";
+import {
+  clamp,
+  fail,
+  isParamError,
+  readInteger,
+  readText,
+  type ClientToolParams,
+  type GameToolHandler,
+} from "@/lib/clientTools";
+
+export type ItemCategory = "consumable" | "lacrima" | "equipment" | "key";
+
+type StatBonusKey = "strength" | "magic" | "agility" | "defense";
+
+export type ItemDefinition = {
+  id: string;
+  name: string;
+  description: string;
+  category: ItemCategory;
+  /** Maximum stack size; key items and equipment are unique. */
+  maxStack: number;
+  /** Restores HP/MP when used. */
+  restore?: { hp?: number; mp?: number };
+  slot?: EquipmentSlot;
+  bonuses?: Partial<Record<StatBonusKey, number>>;
+};
+
+export const ITEM_CATALOG: Record<string, ItemDefinition> = {
+  healing_potion: {
+    id: "healing_potion",
+    name: "Potion de soin",
+    description: "Restaure 40 PV.",
+    category: "consumable",
+    maxStack: 20,
+    restore: { hp: 40 },
+  },
+  high_potion: {
+    id: "high_potion",
+    name: "Super potion",
+    description: "Restaure 120 PV.",
+    category: "consumable",
+    maxStack: 10,
+    restore: { hp: 120 },
+  },
+  ration: {
+    id: "ration",
+    name: "Ration de voyage",
+    description: "Un repas du bar de la guilde. Restaure 15 PV.",
+    category: "consumable",
+    maxStack: 20,
+    restore: { hp: 15 },
+  },
+  ether_lacrima: {
+    id: "ether_lacrima",
+    name: "Lacrima d'éthernano",
+    description: "Cristal chargé de magie. Restaure 30 PM.",
+    category: "lacrima",
+    maxStack: 10,
+    restore: { mp: 30 },
+  },
+  pure_lacrima: {
+    id: "pure_lacrima",
+    name: "Lacrima pure",
+    description: "Restaure entièrement les PM.",
+    category: "lacrima",
+    maxStack: 3,
+    restore: { mp: 9999 },
+  },
+  communication_lacrima: {
+    id: "communication_lacrima",
+    name: "Lacrima de communication",
+    description: "Permet de contacter la guilde à distance.",
+    category: "lacrima",
+    maxStack: 1,
+  },
+  iron_sword: {
+    id: "iron_sword",
+    name: "Épée en fer",
+    description: "Une lame simple mais fiable.",
+    category: "equipment",
+    maxStack: 1,
+    slot: "weapon",
+    bonuses: { strength: 3 },
+  },
+  magic_staff: {
+    id: "magic_staff",
+    name: "Bâton de mage",
+    description: "Amplifie le flux magique.",
+    category: "equipment",
+    maxStack: 1,
+    slot: "weapon",
+    bonuses: { magic: 3 },
+  },
+  leather_armor: {
+    id: "leather_armor",
+    name: "Armure de cuir",
+    description: "Protection légère pour les missions.",
+    category: "equipment",
+    maxStack: 1,
+    slot: "armor",
+    bonuses: { defense: 3 },
+  },
+  heavens_wheel_armor: {
+    id: "heavens_wheel_armor",
+    name: "Armure de la Roue Céleste",
+    description: "Une armure de rééquipement légendaire.",
+    category: "equipment",
+    maxStack: 1,
+    slot: "armor",
+    bonuses: { defense: 5, magic: 4 },
+  },
+  speed_ring: {
+    id: "speed_ring",
+    name: "Anneau de célérité",
+    description: "Rend son porteur plus vif.",
+    category: "equipment",
+    maxStack: 1,
+    slot: "accessory",
+    bonuses: { agility: 3 },
+  },
+  guild_mark: {
+    id: "guild_mark",
+    name: "Emblème de Fairy Tail",
+    description: "La marque de la guilde. Elle ne s'efface jamais.",
+    category: "key",
+    maxStack: 1,
+  },
+  celestial_key_silver: {
+    id: "celestial_key_silver",
+    name: "Clé d'argent",
+    description: "Ouvre la porte d'un esprit céleste.",
+    category: "key",
+    maxStack: 1,
+  },
+};
+
+const MAX_ITEM_ID_LENGTH = 64;
+
+/** Item ids come from the model, so only the catalog's own keys match. */
+export function getItemDefinition(itemId: string): ItemDefinition | null {
+  return Object.hasOwn(ITEM_CATALOG, itemId) ? ITEM_CATALOG[itemId] : null;
+}
+
+export function getItemQuantity(state: GameState, itemId: string): number {
+  return (
+    state.inventory.find((entry) => entry.item_id === itemId)?.quantity ?? 0
+  );
+}
+
+/** Sums the stat bonuses of every equipped item. */
+export function getEquipmentBonuses(
+  state: GameState
+): Partial<Record<StatBonusKey, number>> {
+  const totals: Partial<Record<StatBonusKey, number>> = {};
+  for (const itemId of Object.values(state.equipment)) {
+    const bonuses = itemId ? getItemDefinition(itemId)?.bonuses : undefined;
+    for (const [stat, value] of Object.entries(bonuses ?? {})) {
+      const key = stat as StatBonusKey;
+      totals[key] = (totals[key] ?? 0) + value;
+    }
+  }
+  return totals;
+}
+
+function setQuantity(
+  inventory: InventoryEntry[],
+  itemId: string,
+  quantity: number
+): InventoryEntry[] {
+  const others = inventory.filter((entry) => entry.item_id !== itemId);
+  if (quantity <= 0) {
+    return others;
+  }
+  const index = inventory.findIndex((entry) => entry.item_id === itemId);
+  const next = { item_id: itemId, quantity };
+  if (index === -1) {
+    return [...inventory, next];
+  }
+  return inventory.map((entry, position) =>
+    position === index ? next : entry
+  );
+}
+
+function readItem(
+  params: ClientToolParams
+): { item: ItemDefinition; quantity: number } | { error: string } {
+  const itemId = readText(params, "item_id", MAX_ITEM_ID_LENGTH);
+  if (isParamError(itemId)) {
+    return itemId;
+  }
+  const item = getItemDefinition(itemId);
+  if (!item) {
+    return { error: `Unknown item "${itemId}"` };
+  }
+  const quantity = readInteger(params, "quantity", {
+    min: 1,
+    max: 99,
+    optional: true,
+  });
+  if (isParamError(quantity)) {
+    return quantity;
+  }
+  return { item, quantity: quantity ?? 1 };
+}
+
+function describeInventory(state: GameState, item: ItemDefinition) {
+  return {
+    success: true,
+    item_id: item.id,
+    item_name: item.name,
+    quantity: getItemQuantity(state, item.id),
+  };
+}
+
+const addItem: GameToolHandler = (state, params) => {
+  const parsed = readItem(params);
+  if (isParamError(parsed)) {
+    return fail(parsed.error);
+  }
+  const { item, quantity } = parsed;
+  const owned = getItemQuantity(state, item.id);
+  if (owned + quantity > item.maxStack) {
+    return fail(
+      item.maxStack === 1
+        ? `The player already owns "${item.name}"`
+        : `Cannot carry more than ${item.maxStack} × "${item.name}"`
+    );
+  }
+
+  const next: GameState = {
+    ...state,
+    inventory: setQuantity(state.inventory, item.id, owned + quantity),
+  };
+  return { result: describeInventory(next, item), state: next };
+};
+
+const removeItem: GameToolHandler = (state, params) => {
+  const parsed = readItem(params);
+  if (isParamError(parsed)) {
+    return fail(parsed.error);
+  }
+  const { item, quantity } = parsed;
+  if (item.category === "key") {
+    return fail(`"${item.name}" is a key item and cannot be removed`);
+  }
+  const owned = getItemQuantity(state, item.id);
+  if (owned < quantity) {
+    return fail(
+      owned === 0
+        ? `The player does not have "${item.name}"`
+        : `The player only has ${owned} × "${item.name}"`
+    );
+  }
+
+  const remaining = owned - quantity;
+  const equipment = { ...state.equipment };
+  if (remaining === 0 && item.slot && equipment[item.slot] === item.id) {
+    delete equipment[item.slot];
+  }
+
+  const next: GameState = {
+    ...state,
+    inventory: setQuantity(state.inventory, item.id, remaining),
+    equipment,
+  };
+  return { result: describeInventory(next, item), state: next };
+};
+
+const useItem: GameToolHandler = (state, params) => {
+  const parsed = readItem(params);
+  if (isParamError(parsed)) {
+    return fail(parsed.error);
+  }
+  const { item } = parsed;
+  const owned = getItemQuantity(state, item.id);
+  if (owned === 0) {
+    return fail(`The player does not have "${item.name}"`);
+  }
+
+  if (item.slot) {
+    const previous = state.equipment[item.slot] ?? null;
+    const next: GameState = {
+      ...state,
+      equipment: { ...state.equipment, [item.slot]: item.id },
+    };
+    return {
+      result: {
+        ...describeInventory(next, item),
+        equipped_slot: item.slot,
+        unequipped_item_id: previous === item.id ? null : previous,
+      },
+      state: next,
+    };
+  }
+
+  if (!item.restore) {
+    return fail(`"${item.name}" cannot be used directly`);
+  }
+
+  const stats: CharacterStats = {
+    ...state.stats,
+    hp: clamp(state.stats.hp + (item.restore.hp ?? 0), 0, state.stats.max_hp),
+    mp: clamp(state.stats.mp + (item.restore.mp ?? 0), 0, state.stats.max_mp),
+  };
+  const next: GameState = {
+    ...state,
+    stats,
+    inventory: setQuantity(state.inventory, item.id, owned - 1),
+  };
+  return {
+    result: {
+      ...describeInventory(next, item),
+      hp: stats.hp,
+      max_hp: stats.max_hp,
+      mp: stats.mp,
+      max_mp: stats.max_mp,
+    },
+    state: next,
+  };
+};
+
+export const INVENTORY_TOOLS: Record<string, GameToolHandler> = {
+  add_item: addItem,
+  remove_item: removeItem,
+  use_item: useItem,
+};
@@ -0,0 +1,130 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type JournalEntry = {
+  id: number;
+  save_slot: number;
+  fact_id: string;
+  fact_text: string;
+  pinned: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type JournalFact = {
+  factId: string;
+  factText: string;
+};
+
+const JOURNAL_TABLE = "rpg_journal";
+const JOURNAL_COLUMNS =
+  "id, save_slot, fact_id, fact_text, pinned, created_at, updated_at";
+
+export async function fetchJournalEntries(
+  client: SupabaseClient,
+  slotId: number
+): Promise<JournalEntry[]> {
+  const { data, error } = await client
+    .from(JOURNAL_TABLE)
+    .select(JOURNAL_COLUMNS)
+    .eq("save_slot", slotId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Stores a fact recorded by the game master. The `(user_id, save_slot,
+ * fact_id)` triple is unique, so replaying the same `record_fact` call is a
+ * no-op and never overwrites the player's pin. `user_id` defaults to the
+ * signed-in user on insert.
+ */
+export async function recordJournalFact(
+  client: SupabaseClient,
+  slotId: number,
+  fact: JournalFact
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await client.from(JOURNAL_TABLE).upsert(
+    {
+      save_slot: slotId,
+      fact_id: fact.factId,
+      fact_text: fact.factText,
+      created_at: now,
+      updated_at: now,
+    },
+    { onConflict: "user_id,save_slot,fact_id", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function setJournalEntryPinned(
+  client: SupabaseClient,
+  slotId: number,
+  factId: string,
+  pinned: boolean
+): Promise<void> {
+  const { error } = await client
+    .from(JOURNAL_TABLE)
+    .update({ pinned, updated_at: new Date().toISOString() })
+    .eq("save_slot", slotId)
+    .eq("fact_id", factId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function deleteJournalEntry(
+  client: SupabaseClient,
+  slotId: number,
+  factId: string
+): Promise<void> {
+  const { error } = await client
+    .from(JOURNAL_TABLE)
+    .delete()
+    .eq("save_slot", slotId)
+    .eq("fact_id", factId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function insertJournalEntries(
+  client: SupabaseClient,
+  slotId: number,
+  entries: Omit<JournalEntry, "id" | "save_slot">[]
+): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const { error } = await client
+    .from(JOURNAL_TABLE)
+    .insert(entries.map((entry) => ({ ...entry, save_slot: slotId })));
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function clearJournal(
+  client: SupabaseClient,
+  slotId: number
+): Promise<void> {
+  const { error } = await client
+    .from(JOURNAL_TABLE)
+    .delete()
+    .eq("save_slot", slotId);
+
+  if (error) {
+    throw error;
+  }
+}
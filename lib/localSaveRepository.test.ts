@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createDefaultGameState, type GameState } from "@/lib/gameState";
+import { createLocalSaveRepository } from "@/lib/localSaveRepository";
+import { MAX_LEVEL } from "@/lib/gameTools";
+import { fr } from "@/lib/messages/fr";
+import type { SaveRepository } from "@/lib/saveRepository";
+import { branchFromSnapshot } from "@/lib/snapshots";
+import { createMemoryStorage } from "@/lib/testing/memoryStorage";
+
+async function createSlotWithSnapshot(
+  snapshotState: GameState
+): Promise<{ repository: SaveRepository; snapshotId: number }> {
+  const repository = createLocalSaveRepository(createMemoryStorage());
+  const slotNumber = await repository.createSlot();
+  await repository.saveGameState(slotNumber, createDefaultGameState(), null);
+  await repository.addSnapshot(
+    slotNumber,
+    {
+      reason: "manual",
+      level: snapshotState.stats.level,
+      location: snapshotState.location,
+      game_state: snapshotState,
+      journal: [],
+      created_at: new Date().toISOString(),
+    },
+    10
+  );
+  const [snapshot] = await repository.listSnapshots(slotNumber);
+  return { repository, snapshotId: snapshot.id };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("local restoreSnapshot", () => {
+  it("restores a snapshot within the save bounds", async () => {
+    const state = createDefaultGameState();
+    state.location = "Magnolia";
+    const { repository, snapshotId } = await createSlotWithSnapshot(state);
+    const { last_save } = await repository.getSlot(1);
+
+    const result = await repository.restoreSnapshot(1, snapshotId, last_save);
+
+    expect(result).toEqual({ ok: true });
+    expect((await repository.getSlot(1)).location).toBe("Magnolia");
+  });
+
+  it("refuses a snapshot edited past the level bound", async () => {
+    const state = createDefaultGameState();
+    state.stats.level = MAX_LEVEL + 1;
+    const { repository, snapshotId } = await createSlotWithSnapshot(state);
+    const before = await repository.getSlot(1);
+
+    const result = await repository.restoreSnapshot(
+      1,
+      snapshotId,
+      before.last_save
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      invalid: `level must be an integer between 1 and ${MAX_LEVEL}`,
+    });
+    expect(await repository.getSlot(1)).toEqual(before);
+  });
+});
+
+describe("branchFromSnapshot", () => {
+  it("removes the branch when its journal cannot be written", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { repository: local } = await createSlotWithSnapshot(
+      createDefaultGameState()
+    );
+    const [snapshot] = await local.listSnapshots(1);
+    const repository: SaveRepository = {
+      ...local,
+      insertJournalEntries: vi.fn().mockRejectedValue(new Error("Offline")),
+    };
+
+    await expect(
+      branchFromSnapshot(repository, 1, snapshot, fr.slots)
+    ).rejects.toThrow("Offline");
+
+    expect((await local.listSlots()).map((slot) => slot.save_slot)).toEqual([
+      1,
+    ]);
+  });
+});
@@ -0,0 +1,323 @@
+import type { JournalEntry } from "@/lib/journal";
+import type { SaveSnapshot } from "@/lib/snapshots";
+import {
+  createSaveUid,
+  findFreeSlotNumber,
+  requiresBaseLastSave,
+  type GameStateSaveResult,
+  type SaveRepository,
+  type SaveSlot,
+  type SaveSlotRecord,
+  type SlotUpdateResult,
+  type SnapshotRestoreResult,
+} from "@/lib/saveRepository";
+import { buildGameStateChanges } from "@/lib/saves";
+import { readGameState } from "@/lib/saveValidation";
+
+const STORE_KEY = "fairy-tail-rpg:local-saves";
+const OWNER_KEY = "fairy-tail-rpg:local-owner";
+const STORE_VERSION = 1;
+
+export const LOCAL_SAVE_SLOT_LIMIT = 3;
+
+type LocalStore = {
+  version: number;
+  next_id: number;
+  slots: SaveSlotRecord[];
+  journal: JournalEntry[];
+  snapshots: SaveSnapshot[];
+};
+
+function createEmptyStore(): LocalStore {
+  return {
+    version: STORE_VERSION,
+    next_id: 1,
+    slots: [],
+    journal: [],
+    snapshots: [],
+  };
+}
+
+function readStore(storage: Storage): LocalStore {
+  const raw = storage.getItem(STORE_KEY);
+  if (!raw) {
+    return createEmptyStore();
+  }
+
+  const parsed = JSON.parse(raw) as Partial<LocalStore> | null;
+  if (
+    !parsed ||
+    parsed.version !== STORE_VERSION ||
+    !Array.isArray(parsed.slots) ||
+    !Array.isArray(parsed.journal) ||
+    (parsed.snapshots !== undefined && !Array.isArray(parsed.snapshots)) ||
+    typeof parsed.next_id !== "number"
+  ) {
+    // Never silently replace saves we cannot read.
+    throw new Error("The local save store is unreadable");
+  }
+
+  // Stores written before snapshots existed have no list yet.
+  const store = { ...parsed, snapshots: parsed.snapshots ?? [] } as LocalStore;
+
+  // Slots written before save uids existed get theirs once, for good.
+  const legacySlots = store.slots.filter((slot) => !slot.save_uid);
+  if (legacySlots.length > 0) {
+    for (const slot of legacySlots) {
+      slot.save_uid = createSaveUid();
+    }
+    writeStore(storage, store);
+  }
+  return store;
+}
+
+function writeStore(storage: Storage, store: LocalStore): void {
+  try {
+    storage.setItem(STORE_KEY, JSON.stringify(store));
+  } catch (error) {
+    throw new Error(
+      `Could not write local saves: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function readOwnerId(storage: Storage): string {
+  const existing = storage.getItem(OWNER_KEY);
+  if (existing) {
+    return existing;
+  }
+  const generated = `local-${crypto.randomUUID()}`;
+  storage.setItem(OWNER_KEY, generated);
+  return generated;
+}
+
+function toSlot(record: SaveSlotRecord): SaveSlot {
+  return {
+    id: record.id,
+    save_slot: record.save_slot,
+    save_uid: record.save_uid,
+    save_name: record.save_name,
+    character_name: record.character_name,
+    level: record.level,
+    location: record.location,
+    last_save: record.last_save,
+    game_state: record.game_state,
+  };
+}
+
+/** True when the browser store holds at least one slot. */
+export function hasLocalSaves(storage: Storage = window.localStorage): boolean {
+  try {
+    return readStore(storage).slots.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Saves kept in the browser's localStorage, for playing without a Supabase
+ * project. Each call reads and writes the whole store synchronously, so
+ * operations from the same tab never interleave.
+ */
+export function createLocalSaveRepository(
+  storage: Storage = window.localStorage
+): SaveRepository {
+  const update = <T>(mutate: (store: LocalStore) => T): T => {
+    const store = readStore(storage);
+    const result = mutate(store);
+    writeStore(storage, store);
+    return result;
+  };
+
+  const findSlot = (store: LocalStore, slotNumber: number): SaveSlotRecord => {
+    const slot = store.slots.find((entry) => entry.save_slot === slotNumber);
+    if (!slot) {
+      throw new Error(`Save slot ${slotNumber} does not exist`);
+    }
+    return slot;
+  };
+
+  return {
+    kind: "local",
+    ownerId: readOwnerId(storage),
+    listSlots: async () =>
+      readStore(storage)
+        .slots.map(toSlot)
+        .sort((left, right) => left.save_slot - right.save_slot),
+    getSlotLimit: async () => LOCAL_SAVE_SLOT_LIMIT,
+    getSlot: async (slotNumber) => ({
+      ...findSlot(readStore(storage), slotNumber),
+    }),
+    createSlot: async (contents = {}) =>
+      update((store) => {
+        if (store.slots.length >= LOCAL_SAVE_SLOT_LIMIT) {
+          throw new Error(`Save slot limit reached (${LOCAL_SAVE_SLOT_LIMIT})`);
+        }
+        const slotNumber = findFreeSlotNumber(store.slots);
+        store.slots.push({
+          id: store.next_id,
+          save_slot: slotNumber,
+          save_uid: createSaveUid(),
+          save_name: null,
+          character_name: null,
+          level: 1,
+          location: null,
+          last_save: null,
+          game_state: null,
+          conversation_history: null,
+          ...contents,
+        });
+        store.next_id += 1;
+        return slotNumber;
+      }),
+    // Other tabs share the store, so they can have saved since this one read.
+    updateSlot: async (slotNumber, changes, baseLastSave) =>
+      update((store): SlotUpdateResult => {
+        if (baseLastSave === undefined && requiresBaseLastSave(changes)) {
+          throw new Error("Replacing the game state requires base_last_save");
+        }
+        const slot = findSlot(store, slotNumber);
+        if (baseLastSave !== undefined && slot.last_save !== baseLastSave) {
+          return { ok: false, conflict: { lastSave: slot.last_save } };
+        }
+        Object.assign(slot, changes);
+        return { ok: true };
+      }),
+    saveGameState: async (slotNumber, state, baseLastSave) =>
+      update((store): GameStateSaveResult => {
+        const slot = findSlot(store, slotNumber);
+        if (slot.last_save !== baseLastSave) {
+          return { ok: false, conflict: { lastSave: slot.last_save } };
+        }
+        const { state: nextState, changes } = buildGameStateChanges(state);
+        Object.assign(slot, changes);
+        return { ok: true, state: nextState, lastSave: changes.last_save };
+      }),
+    restoreSnapshot: async (slotNumber, snapshotId, baseLastSave) =>
+      update((store): SnapshotRestoreResult => {
+        const slot = findSlot(store, slotNumber);
+        if (slot.last_save !== baseLastSave) {
+          return { ok: false, conflict: { lastSave: slot.last_save } };
+        }
+        const snapshot = store.snapshots.find(
+          (entry) => entry.id === snapshotId && entry.save_slot === slotNumber
+        );
+        if (!snapshot) {
+          throw new Error(`Snapshot ${snapshotId} does not exist`);
+        }
+        const parsed = readGameState(snapshot.game_state);
+        if (!parsed.ok) {
+          return { ok: false, invalid: parsed.error };
+        }
+
+        const { changes } = buildGameStateChanges(parsed.value);
+        Object.assign(slot, changes, { conversation_history: null });
+        store.journal = store.journal.filter(
+          (entry) => entry.save_slot !== slotNumber
+        );
+        for (const entry of snapshot.journal) {
+          store.journal.push({
+            ...entry,
+            id: store.next_id,
+            save_slot: slotNumber,
+          });
+          store.next_id += 1;
+        }
+        return { ok: true };
+      }),
+    deleteSlot: async (slotNumber) =>
+      update((store) => {
+        store.slots = store.slots.filter(
+          (slot) => slot.save_slot !== slotNumber
+        );
+        store.journal = store.journal.filter(
+          (entry) => entry.save_slot !== slotNumber
+        );
+        store.snapshots = store.snapshots.filter(
+          (snapshot) => snapshot.save_slot !== slotNumber
+        );
+      }),
+    listJournal: async (slotNumber) =>
+      readStore(storage)
+        .journal.filter((entry) => entry.save_slot === slotNumber)
+        .sort((left, right) => right.created_at.localeCompare(left.created_at)),
+    recordJournalFact: async (slotNumber, fact) =>
+      update((store) => {
+        const exists = store.journal.some(
+          (entry) =>
+            entry.save_slot === slotNumber && entry.fact_id === fact.factId
+        );
+        if (exists) {
+          return;
+        }
+        const now = new Date().toISOString();
+        store.journal.push({
+          id: store.next_id,
+          save_slot: slotNumber,
+          fact_id: fact.factId,
+          fact_text: fact.factText,
+          pinned: false,
+          created_at: now,
+          updated_at: now,
+        });
+        store.next_id += 1;
+      }),
+    insertJournalEntries: async (slotNumber, entries) =>
+      update((store) => {
+        for (const entry of entries) {
+          store.journal.push({
+            ...entry,
+            id: store.next_id,
+            save_slot: slotNumber,
+          });
+          store.next_id += 1;
+        }
+      }),
+    setJournalEntryPinned: async (slotNumber, factId, pinned) =>
+      update((store) => {
+        for (const entry of store.journal) {
+          if (entry.save_slot === slotNumber && entry.fact_id === factId) {
+            entry.pinned = pinned;
+            entry.updated_at = new Date().toISOString();
+          }
+        }
+      }),
+    deleteJournalEntry: async (slotNumber, factId) =>
+      update((store) => {
+        store.journal = store.journal.filter(
+          (entry) => entry.save_slot !== slotNumber || entry.fact_id !== factId
+        );
+      }),
+    clearJournal: async (slotNumber) =>
+      update((store) => {
+        store.journal = store.journal.filter(
+          (entry) => entry.save_slot !== slotNumber
+        );
+      }),
+    listSnapshots: async (slotNumber) =>
+      readStore(storage)
+        .snapshots.filter((snapshot) => snapshot.save_slot === slotNumber)
+        .sort((left, right) => right.created_at.localeCompare(left.created_at)),
+    addSnapshot: async (slotNumber, snapshot, retention) =>
+      update((store) => {
+        store.snapshots.push({
+          ...snapshot,
+          id: store.next_id,
+          save_slot: slotNumber,
+        });
+        store.next_id += 1;
+
+        const expired = new Set(
+          store.snapshots
+            .filter((entry) => entry.save_slot === slotNumber)
+            .sort((left, right) =>
+              right.created_at.localeCompare(left.created_at)
+            )
+            .slice(retention)
+        );
+        store.snapshots = store.snapshots.filter(
+          (entry) => !expired.has(entry)
+        );
+      }),
+  };
+}
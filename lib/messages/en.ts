@@ -0,0 +1,472 @@
+import type { Messages } from "@/lib/messages/fr";
+
+export const en: Messages = {
+  languageName: "English",
+  common: {
+    back: "Back",
+    delete: "Delete",
+    loading: "Loading...",
+    unknownDate: "unknown",
+    retryLater: "Please try again later.",
+  },
+  stats: {
+    strength: "Strength",
+    magic: "Magic",
+    agility: "Agility",
+    defense: "Defense",
+  },
+  languageSwitcher: {
+    label: "Language",
+  },
+  app: {
+    connecting: "Signing in...",
+    backToMenu: "Back to menu",
+    quickSaveTitle: "Save a restore point",
+    quickSave: {
+      idle: "Quick save",
+      saving: "Saving...",
+      saved: "Saved!",
+      error: "Save failed",
+    },
+    createCharacterFailed: "Could not create the character. Try again.",
+    defaultSaveName: (name: string) => `${name}'s adventure`,
+  },
+  signIn: {
+    title: "Welcome to Fairy Tail",
+    subtitle: "Sign in to get your saves back.",
+    linkSentBefore: "A sign-in link was sent to",
+    linkSentAfter: ". Open it in this browser to continue.",
+    emailPlaceholder: "your.address@email.com",
+    sending: "Sending...",
+    sendMagicLink: "Get a magic link",
+    playAsGuest: "Play as a guest",
+    guestNote: "Guest games stay tied to this browser.",
+    playLocally: "Play without an account (saves on this device)",
+    magicLinkFailed:
+      "Could not send the link. Check the address and try again.",
+    guestUnavailable: "Guest sign-in is unavailable right now.",
+  },
+  slots: {
+    loading: "Loading saves...",
+    title: "Choose your save",
+    intro:
+      "Each slot holds a different adventure. Pick an empty slot to start a new game.",
+    usage: (used: number, limit: number) => `${used} / ${limit} slots used`,
+    localSaves: "saves on this device",
+    onlineSaves: "online saves",
+    refreshing: "Refreshing...",
+    refresh: "Refresh",
+    import: "Import",
+    importNewTitle: "Import a save into a new slot",
+    importHereTitle: "Import a save into this slot",
+    switchToOnline: "Online saves",
+    switchToLocal: "Local saves",
+    signOut: "Sign out",
+    migratePrompt:
+      "This device has local saves. Copy them to your account to play them anywhere.",
+    migrate: "Copy to my account",
+    slotLabel: (slot: number) => `Slot ${slot}`,
+    branchName: (name: string) => `${name} (branch)`,
+    newGame: "New game",
+    untitled: "Adventure in progress",
+    rename: "Rename",
+    duplicate: "Duplicate",
+    duplicateTitle: "Branch this adventure",
+    noFreeSlot: "No free slot for a branch",
+    history: "History",
+    export: "Export",
+    emptySlot: "Start a new story in this slot.",
+    character: "Character:",
+    campaign: "Campaign:",
+    level: "Level:",
+    location: "Location:",
+    startingLocation: "Start of the adventure",
+    activeQuests: "Active quests:",
+    moreQuests: (count: number) => `+${count} more`,
+    lastSave: "Last saved:",
+    unreadable: "Unreadable save: it cannot be loaded.",
+    startAdventure: "Start a new adventure",
+    continue: "Continue",
+    restorePoints: "Restore points",
+    newSlot: "New slot",
+    limitReached: (limit: number) =>
+      `Limit of ${limit} slots reached. Delete a slot to create another one.`,
+    renamePrompt: (maxLength: number) =>
+      `New save name (${maxLength} characters max):`,
+    confirmDelete: (slot: number) =>
+      `Permanently delete slot ${slot} and its journal?`,
+    confirmReplace: (current: string, slot: number, incoming: string) =>
+      `Replace ${current}'s adventure (slot ${slot}) with ${incoming}'s?`,
+    confirmRestore: (date: string, slot: number) =>
+      `Go back to the point from ${date}? Newer progress and journal entries in slot ${slot} will be lost.`,
+    loadFailed: "Could not fetch the saves right now.",
+    createFailed: "Could not create a new slot.",
+    duplicateFailed: "Duplicating failed. Check that a slot is still free.",
+    renameFailed: "Renaming failed. Please try again later.",
+    deleteFailed: "Deleting failed. Please try again later.",
+    exportFailed: "Exporting the save failed.",
+    importTooLarge: "Save file rejected: the file is too large.",
+    importRejected: (reason: string) => `Save file rejected: ${reason}.`,
+    importReasons: {
+      notJson: "it is not a valid JSON file",
+      notSaveExport: "it is not a save export",
+      missingVersion: "the export version is missing",
+      newerVersion: "it comes from a newer version of the game",
+      incomplete: "the export is incomplete",
+      checksum: "the file is damaged or incomplete",
+      invalidSource: "the source slot is invalid",
+      invalidCharacterName: "the character name is invalid",
+      invalidSaveName: "the save name is invalid",
+      invalidThread: "the chat reference is invalid",
+      invalidJournal: "the journal is invalid",
+      invalidGameState: "the game state is invalid",
+    },
+    importFailed: "Importing the save failed.",
+    restoreFailed: "Restoring failed. Please try again later.",
+    branchFailed:
+      "Creating the branch failed. Check that a slot is still free.",
+    migrateFailed:
+      "Some local saves could not be copied: free up slots and try again.",
+  },
+  snapshots: {
+    reasons: {
+      level_up: "Level up",
+      location: "New location",
+      manual: "Quick save",
+    },
+    loadFailed: "Could not load this slot's history.",
+    empty:
+      "No restore points yet. They are created on every level-up, every change of location and every quick save.",
+    summary: (level: number, location: string | null) =>
+      `Level ${level} · ${location ?? "Unknown location"}`,
+    restore: "Restore",
+    branch: "Branch",
+    branchTitle: "Create a branch from this point",
+    noFreeSlot: "No free slot for a branch",
+  },
+  conflict: {
+    title: "Save changed elsewhere",
+    body: (when: string | null) =>
+      `This game was saved ${when ? `on ${when}` : "recently"} from another tab or device. Choose the version to keep: the other one will be lost.`,
+    keepMine: "Keep this game",
+    loadTheirs: "Load the other version",
+    failed: "Could not resolve the conflict. Try again.",
+  },
+  creator: {
+    heading: "New adventure",
+    step: (current: number, total: number) => `Step ${current} / ${total}`,
+    steps: {
+      campaign: "Which adventure do you want to play?",
+      name: "What is your wizard's name?",
+      magicSchool: "Which magic do you wield?",
+      allocation: "Spend your stat points",
+      appearance: "What do you look like?",
+      backstory: "Tell your story",
+    },
+    startingPoint: (location: string) => `Starts at: ${location}`,
+    namePlaceholder: "E.g. Natsu, Lucy, Gray...",
+    pointsLeft: "Points left:",
+    removePoint: (stat: string) => `Remove a point from ${stat}`,
+    addPoint: (stat: string) => `Add a point to ${stat}`,
+    schoolBonusNote: (school: string) =>
+      `${school} bonuses are included in the totals.`,
+    markColorPlaceholder: "Guild mark color (e.g. pink)",
+    markLocationPlaceholder: "Placement (e.g. right shoulder)",
+    appearancePlaceholder: "Hair, outfit, distinguishing features...",
+    backstoryPlaceholder: "Where do you come from? Why join Fairy Tail?",
+    next: "Next",
+    creating: "Creating...",
+    begin: "Start the adventure",
+    errors: {
+      campaign: "Choose a campaign.",
+      nameMissing: "Choose a name for your wizard.",
+      nameTooLong: (max: number) =>
+        `The name must not exceed ${max} characters.`,
+      magicSchool: "Choose a school of magic.",
+      allocationRange: (max: number) =>
+        `Each stat takes between 0 and ${max} points.`,
+      allocationTotal: (total: number, spent: number) =>
+        `Spend exactly ${total} points (${spent} used).`,
+      appearanceTooLong: "The appearance description is too long.",
+      backstoryTooLong: (max: number) =>
+        `The story must not exceed ${max} characters.`,
+    },
+  },
+  opening: {
+    intro: (name: string, school: string | null) =>
+      `I am ${name}, a new Fairy Tail wizard${school ? ` (${school})` : ""}.`,
+    campaign: (campaign: string) => `Campaign: ${campaign}.`,
+    location: (location: string) => `I am at ${location}.`,
+    defaultLocation: "Magnolia",
+    guildMark: (color: string | null, location: string | null) =>
+      `My guild mark is ${color || "visible"}${location ? `, on my ${location}` : ""}.`,
+    appearance: (description: string) => `Appearance: ${description}`,
+    backstory: (backstory: string) => `My story: ${backstory}`,
+    start: "Let the adventure begin!",
+  },
+  journal: {
+    title: "Adventure journal",
+    entries: (count: number) => `${count} entries`,
+    filterPlaceholder: "Filter the journal...",
+    pinnedOnly: "Pinned only",
+    loading: "Loading the journal...",
+    empty: "Nothing recorded yet.",
+    noMatch: "No entry matches the filter.",
+    pin: "Pin",
+    unpin: "Unpin",
+    loadFailed: "Could not load the journal.",
+    pinFailed: "Could not update this entry.",
+    deleteFailed: "Deleting failed. Please try again later.",
+  },
+  quests: {
+    title: "Quests",
+    tabs: {
+      board: "Board",
+      active: "Active",
+      done: "Finished",
+    },
+    empty: "No quests here.",
+    reward: (jewels: number) => `Reward: ${jewels} J`,
+    failed: "Failed",
+    ranks: {
+      D: "Rank D",
+      C: "Rank C",
+      B: "Rank B",
+      A: "Rank A",
+      S: "S-Class",
+    },
+  },
+  inventory: {
+    title: "Inventory",
+    count: (count: number) => `${count} items`,
+    empty: "Your bag is empty.",
+    categories: {
+      consumable: "Consumables",
+      lacrima: "Lacrimas",
+      equipment: "Equipment",
+      key: "Key items",
+    },
+    slots: {
+      weapon: "Weapon",
+      armor: "Armor",
+      accessory: "Accessory",
+    },
+  },
+  rolls: {
+    title: "Dice rolls",
+    count: (count: number) => `${count} rolls`,
+    seed: (seed: number, counter: number) => `Seed ${seed} · draw #${counter}`,
+    empty: "No rolls yet.",
+    modes: {
+      normal: "",
+      advantage: "advantage",
+      disadvantage: "disadvantage",
+    },
+    dice: "Dice:",
+    modifier: "mod.",
+    check: (dc: number, passed: boolean) =>
+      `DC ${dc} ${passed ? "passed" : "failed"}`,
+  },
+  battle: {
+    title: "Battle",
+    round: (round: number) => `Round ${round}`,
+    you: "You",
+    level: (level: number) => `lv. ${level}`,
+    hp: "HP",
+    mp: "MP",
+    statuses: {
+      burn: "Burn",
+      poison: "Poison",
+      freeze: "Freeze",
+      stun: "Stunned",
+      defend: "Guard",
+    },
+  },
+  hud: {
+    title: "Character sheet",
+    open: "Sheet",
+    close: "Close",
+    level: (level: number) => `Level ${level}`,
+    xp: "XP",
+    maxLevel: "Max level",
+    magic: "Magic",
+    noMagic: "No school",
+    location: "Location",
+    unknownLocation: "Unknown",
+    jewels: "Jewels",
+    statuses: "Effects",
+    noStatus: "No effects",
+  },
+  chat: {
+    greeting: "Welcome, wizard! Where does your adventure begin?",
+    placeholder: "What do you do?",
+    starterPrompts: [
+      {
+        label: "What can you do?",
+        prompt: "What can you do?",
+        icon: "circle-question",
+      },
+    ],
+    loadingSession: "Loading assistant session...",
+    reconnecting: "Reconnecting to the adventure...",
+    restart: "Restart chat",
+    retryIn: (seconds: number) => `Try again in ${seconds} s.`,
+    cooldown:
+      "Too many games were started in a short time. Wait a moment before resuming the adventure.",
+    missingWorkflow:
+      "Set NEXT_PUBLIC_CHATKIT_WORKFLOW_ID in your .env.local file.",
+    scriptUnavailable:
+      "ChatKit web component is unavailable. Verify that the script URL is reachable.",
+    sessionFailed: "Unable to start ChatKit session.",
+    sessionExpired:
+      "Your sign-in expired. Sign in again to resume the adventure.",
+    sessionRejected:
+      "The server refused to open this adventure. Check the workflow configuration.",
+    serviceUnavailable:
+      "The narrator is unavailable right now. Try again in a moment.",
+    missingSecret: "The server did not return a valid session.",
+  },
+  startScreen: {
+    newGameGreeting: (name: string) =>
+      `Welcome to Fairy Tail, ${name}! Introduce yourself to the guild or pick your first job.`,
+    resumeGreeting: (name: string, level: number, location: string | null) =>
+      `Welcome back, ${name}! Level ${level}${location ? ` · ${location}` : ""}. What do you do?`,
+    beginAdventureLabel: "Begin the adventure",
+    onboardingPrompts: [
+      {
+        label: "Look around the guild",
+        prompt:
+          "I look around the guild and introduce myself to the other wizards.",
+        icon: "map-pin",
+      },
+      {
+        label: "Check the request board",
+        prompt: "I go to the request board to pick my first job.",
+        icon: "notebook-pencil",
+      },
+      {
+        label: "How do I play?",
+        prompt: "Explain how a game plays out and what I can do.",
+        icon: "circle-question",
+      },
+    ],
+    resumeCombatLabel: "Resume the battle",
+    resumeCombatPrompt: "I pick the battle up where it left off.",
+    continueQuestLabel: (title: string) => `Continue the job: ${title}`,
+    continueQuestPrompt: (title: string, objective: string | null) =>
+      `I carry on with the job "${title}"${objective ? `: ${objective}` : ""}.`,
+    questBoardLabel: "Check the request board",
+    questBoardPrompt: "I go and look at the guild's request board.",
+    returnToGuildLabel: "Head back to the guild",
+    returnToGuildPrompt: "I head back to the guild.",
+    exploreLabel: (location: string) => `Explore ${location}`,
+    explorePrompt: (location: string) =>
+      `I explore the surroundings (${location}).`,
+    recallLabel: "Where was I?",
+    recallPrompt: (facts: string[]) =>
+      `Remind me where I am. Latest journal notes: ${facts.join(" / ")}`,
+  },
+  catalog: {
+    campaigns: {
+      magnolia_debutant: {
+        name: "Magnolia for beginners",
+        description:
+          "Your first steps at Fairy Tail: small jobs, encounters and rivalries in town.",
+      },
+      ile_tenro: {
+        name: "Tenrou Island",
+        description:
+          "The S-Class trial on the guild's sacred island, where a far greater threat lurks.",
+      },
+      grands_jeux_magiques: {
+        name: "Grand Magic Games",
+        description:
+          "The Crocus tournament pits the guilds of Fiore against each other before the whole kingdom.",
+      },
+    },
+    schools: {
+      fire_dragon_slayer: {
+        name: "Fire Dragon Slayer",
+        description:
+          "A lost magic taught by a dragon. You devour flames to hit harder.",
+      },
+      sky_dragon_slayer: {
+        name: "Sky Dragon Slayer",
+        description:
+          "The breath of the sky dragon: healing, support and gusts of wind.",
+      },
+      celestial_spirit: {
+        name: "Celestial Spirit Wizard",
+        description: "You summon celestial spirits with silver and gold keys.",
+      },
+      ice_make: {
+        name: "Ice-Make",
+        description:
+          "A creation magic: you shape ice into weapons and shields.",
+      },
+      requip: {
+        name: "Requip",
+        description:
+          "You summon weapons and armor stored in a pocket dimension.",
+      },
+      take_over: {
+        name: "Take Over",
+        description: "You take on the form and power of defeated creatures.",
+      },
+    },
+    items: {
+      healing_potion: {
+        name: "Healing potion",
+        description: "Restores 40 HP.",
+      },
+      high_potion: {
+        name: "High potion",
+        description: "Restores 120 HP.",
+      },
+      ration: {
+        name: "Travel ration",
+        description: "A meal from the guild bar. Restores 15 HP.",
+      },
+      ether_lacrima: {
+        name: "Ethernano lacrima",
+        description: "A crystal charged with magic. Restores 30 MP.",
+      },
+      pure_lacrima: {
+        name: "Pure lacrima",
+        description: "Fully restores MP.",
+      },
+      communication_lacrima: {
+        name: "Communication lacrima",
+        description: "Lets you reach the guild from afar.",
+      },
+      iron_sword: {
+        name: "Iron sword",
+        description: "A plain but reliable blade.",
+      },
+      magic_staff: {
+        name: "Wizard's staff",
+        description: "Amplifies the flow of magic.",
+      },
+      leather_armor: {
+        name: "Leather armor",
+        description: "Light protection for jobs.",
+      },
+      heavens_wheel_armor: {
+        name: "Heaven's Wheel Armor",
+        description: "A legendary requip armor.",
+      },
+      speed_ring: {
+        name: "Ring of swiftness",
+        description: "Makes its wearer quicker.",
+      },
+      guild_mark: {
+        name: "Fairy Tail guild mark",
+        description: "The mark of the guild. It never fades.",
+      },
+      celestial_key_silver: {
+        name: "Silver key",
+        description: "Opens the gate of a celestial spirit.",
+      },
+    },
+  },
+};
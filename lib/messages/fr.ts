@@ -0,0 +1,396 @@
+import type { StartScreenPrompt } from "@openai/chatkit";
+import type { SaveImportRejection } from "@/lib/saveTransfer";
+
+/** Translated name and description of a catalog entry, keyed by its id. */
+export type LocalizedEntries = Record<
+  string,
+  { name: string; description: string }
+>;
+
+const STARTER_PROMPTS: StartScreenPrompt[] = [
+  {
+    label: "Que peux-tu faire ?",
+    prompt: "Que peux-tu faire ?",
+    icon: "circle-question",
+  },
+];
+
+const ONBOARDING_PROMPTS: StartScreenPrompt[] = [
+  {
+    label: "Faire le tour de la guilde",
+    prompt: "Je fais le tour de la guilde et je me présente aux autres mages.",
+    icon: "map-pin",
+  },
+  {
+    label: "Consulter le tableau des missions",
+    prompt: "Je vais voir le tableau des missions pour choisir ma première.",
+    icon: "notebook-pencil",
+  },
+  {
+    label: "Comment jouer ?",
+    prompt:
+      "Explique-moi comment se déroule une partie et ce que je peux faire.",
+    icon: "circle-question",
+  },
+];
+
+const IMPORT_REASONS: Record<SaveImportRejection, string> = {
+  notJson: "ce n'est pas un fichier JSON valide",
+  notSaveExport: "ce n'est pas un export de sauvegarde",
+  missingVersion: "la version de l'export est manquante",
+  newerVersion: "l'export vient d'une version plus récente du jeu",
+  incomplete: "l'export est incomplet",
+  checksum: "le fichier est endommagé ou incomplet",
+  invalidSource: "le slot d'origine est invalide",
+  invalidCharacterName: "le nom du personnage est invalide",
+  invalidSaveName: "le nom de la sauvegarde est invalide",
+  invalidThread: "la référence de discussion est invalide",
+  invalidJournal: "le journal est invalide",
+  invalidGameState: "l'état de la partie est invalide",
+};
+
+// The game data in `lib/` is written in French, so French needs no overrides.
+const NO_OVERRIDES: LocalizedEntries = {};
+
+export const fr = {
+  languageName: "Français",
+  common: {
+    back: "Retour",
+    delete: "Supprimer",
+    loading: "Chargement...",
+    unknownDate: "inconnue",
+    retryLater: "Réessayez plus tard.",
+  },
+  stats: {
+    strength: "Force",
+    magic: "Magie",
+    agility: "Agilité",
+    defense: "Défense",
+  },
+  languageSwitcher: {
+    label: "Langue",
+  },
+  app: {
+    connecting: "Connexion...",
+    backToMenu: "Retour au menu",
+    quickSaveTitle: "Enregistrer un point de restauration",
+    quickSave: {
+      idle: "Sauvegarde rapide",
+      saving: "Sauvegarde...",
+      saved: "Sauvegardé !",
+      error: "Échec de la sauvegarde",
+    },
+    createCharacterFailed: "Impossible de créer le personnage. Réessaie.",
+    defaultSaveName: (name: string) => `Aventure de ${name}`,
+  },
+  signIn: {
+    title: "Bienvenue à Fairy Tail",
+    subtitle: "Connecte-toi pour retrouver tes sauvegardes.",
+    linkSentBefore: "Un lien de connexion a été envoyé à",
+    linkSentAfter: ". Ouvre-le depuis ce navigateur pour continuer.",
+    emailPlaceholder: "ton.adresse@email.com",
+    sending: "Envoi...",
+    sendMagicLink: "Recevoir un lien magique",
+    playAsGuest: "Jouer en invité",
+    guestNote: "Les parties invitées restent liées à ce navigateur.",
+    playLocally: "Jouer sans compte (sauvegardes sur cet appareil)",
+    magicLinkFailed:
+      "Impossible d'envoyer le lien. Vérifie l'adresse et réessaie.",
+    guestUnavailable: "La connexion invité est indisponible pour le moment.",
+  },
+  slots: {
+    loading: "Chargement des sauvegardes...",
+    title: "Choisis ta sauvegarde",
+    intro:
+      "Chaque slot correspond à une aventure différente. Sélectionne un slot vide pour commencer une nouvelle partie.",
+    usage: (used: number, limit: number) => `${used} / ${limit} slots utilisés`,
+    localSaves: "sauvegardes sur cet appareil",
+    onlineSaves: "sauvegardes en ligne",
+    refreshing: "Actualisation...",
+    refresh: "Actualiser",
+    import: "Importer",
+    importNewTitle: "Importer une sauvegarde dans un nouveau slot",
+    importHereTitle: "Importer une sauvegarde dans ce slot",
+    switchToOnline: "Sauvegardes en ligne",
+    switchToLocal: "Sauvegardes locales",
+    signOut: "Se déconnecter",
+    migratePrompt:
+      "Des sauvegardes locales existent sur cet appareil. Copie-les dans ton compte pour les retrouver partout.",
+    migrate: "Copier dans mon compte",
+    slotLabel: (slot: number) => `Slot ${slot}`,
+    branchName: (name: string) => `${name} (branche)`,
+    newGame: "Nouvelle partie",
+    untitled: "Aventure en cours",
+    rename: "Renommer",
+    duplicate: "Dupliquer",
+    duplicateTitle: "Créer une branche de cette aventure",
+    noFreeSlot: "Aucun slot libre pour une branche",
+    history: "Historique",
+    export: "Exporter",
+    emptySlot: "Commence une nouvelle histoire dans ce slot.",
+    character: "Personnage :",
+    campaign: "Campagne :",
+    level: "Niveau :",
+    location: "Lieu :",
+    startingLocation: "Début de l'aventure",
+    activeQuests: "Missions en cours :",
+    moreQuests: (count: number) => `+${count} autres`,
+    lastSave: "Dernière sauvegarde :",
+    unreadable: "Sauvegarde illisible : impossible de la charger.",
+    startAdventure: "Commencer une nouvelle aventure",
+    continue: "Continuer",
+    restorePoints: "Points de restauration",
+    newSlot: "Nouveau slot",
+    limitReached: (limit: number) =>
+      `Limite de ${limit} slots atteinte. Supprime un slot pour en créer un autre.`,
+    renamePrompt: (maxLength: number) =>
+      `Nouveau nom de la sauvegarde (${maxLength} caractères max) :`,
+    confirmDelete: (slot: number) =>
+      `Supprimer définitivement le slot ${slot} et son journal ?`,
+    confirmReplace: (current: string, slot: number, incoming: string) =>
+      `Remplacer l'aventure de ${current} (slot ${slot}) par celle de ${incoming} ?`,
+    confirmRestore: (date: string, slot: number) =>
+      `Revenir au point du ${date} ? La progression et le journal plus récents du slot ${slot} seront perdus.`,
+    loadFailed: "Impossible de récupérer les sauvegardes pour le moment.",
+    createFailed: "Impossible de créer un nouveau slot.",
+    duplicateFailed:
+      "La duplication a échoué. Vérifie qu'il reste un slot libre.",
+    renameFailed: "Le renommage a échoué. Réessayez plus tard.",
+    deleteFailed: "La suppression a échoué. Réessayez plus tard.",
+    exportFailed: "L'export de la sauvegarde a échoué.",
+    importTooLarge:
+      "Fichier de sauvegarde refusé : le fichier est trop volumineux.",
+    importRejected: (reason: string) =>
+      `Fichier de sauvegarde refusé : ${reason}.`,
+    importReasons: IMPORT_REASONS,
+    importFailed: "L'import de la sauvegarde a échoué.",
+    restoreFailed: "La restauration a échoué. Réessayez plus tard.",
+    branchFailed:
+      "La création de la branche a échoué. Vérifie qu'il reste un slot libre.",
+    migrateFailed:
+      "Certaines sauvegardes locales n'ont pas pu être copiées : libère des slots puis réessaie.",
+  },
+  snapshots: {
+    reasons: {
+      level_up: "Niveau supérieur",
+      location: "Nouveau lieu",
+      manual: "Sauvegarde rapide",
+    },
+    loadFailed: "Impossible de charger l'historique de ce slot.",
+    empty:
+      "Aucun point de restauration pour l'instant. Ils sont créés à chaque niveau gagné, à chaque changement de lieu et lors des sauvegardes rapides.",
+    summary: (level: number, location: string | null) =>
+      `Niveau ${level} · ${location ?? "Lieu inconnu"}`,
+    restore: "Restaurer",
+    branch: "Brancher",
+    branchTitle: "Créer une branche depuis ce point",
+    noFreeSlot: "Aucun slot libre pour une branche",
+  },
+  conflict: {
+    title: "Sauvegarde modifiée ailleurs",
+    body: (when: string | null) =>
+      `Cette partie a été sauvegardée ${when ? `le ${when}` : "récemment"} depuis un autre onglet ou appareil. Choisis la version à conserver : l'autre sera perdue.`,
+    keepMine: "Garder cette partie",
+    loadTheirs: "Charger l'autre version",
+    failed: "Impossible de résoudre le conflit. Réessaie.",
+  },
+  creator: {
+    heading: "Nouvelle aventure",
+    step: (current: number, total: number) => `Étape ${current} / ${total}`,
+    steps: {
+      campaign: "Quelle aventure veux-tu vivre ?",
+      name: "Quel est le nom de ton mage ?",
+      magicSchool: "Quelle magie maîtrises-tu ?",
+      allocation: "Répartis tes points de caractéristiques",
+      appearance: "À quoi ressembles-tu ?",
+      backstory: "Raconte ton histoire",
+    },
+    startingPoint: (location: string) => `Départ : ${location}`,
+    namePlaceholder: "Ex: Natsu, Lucy, Gray...",
+    pointsLeft: "Points restants :",
+    removePoint: (stat: string) => `Retirer un point de ${stat}`,
+    addPoint: (stat: string) => `Ajouter un point à ${stat}`,
+    schoolBonusNote: (school: string) =>
+      `Les bonus de ${school} sont inclus dans les totaux.`,
+    markColorPlaceholder: "Couleur de l'emblème (ex: rose)",
+    markLocationPlaceholder: "Emplacement (ex: épaule droite)",
+    appearancePlaceholder: "Cheveux, tenue, signe distinctif...",
+    backstoryPlaceholder: "D'où viens-tu ? Pourquoi rejoins-tu Fairy Tail ?",
+    next: "Suivant",
+    creating: "Création...",
+    begin: "Commencer l'aventure",
+    errors: {
+      campaign: "Choisis une campagne.",
+      nameMissing: "Choisis un nom pour ton mage.",
+      nameTooLong: (max: number) =>
+        `Le nom ne doit pas dépasser ${max} caractères.`,
+      magicSchool: "Choisis une école de magie.",
+      allocationRange: (max: number) =>
+        `Chaque caractéristique accepte entre 0 et ${max} points.`,
+      allocationTotal: (total: number, spent: number) =>
+        `Répartis exactement ${total} points (${spent} utilisés).`,
+      appearanceTooLong: "La description de l'apparence est trop longue.",
+      backstoryTooLong: (max: number) =>
+        `L'histoire ne doit pas dépasser ${max} caractères.`,
+    },
+  },
+  opening: {
+    intro: (name: string, school: string | null) =>
+      `Je suis ${name}, nouveau mage de Fairy Tail${school ? ` (${school})` : ""}.`,
+    campaign: (campaign: string) => `Campagne : ${campaign}.`,
+    location: (location: string) => `Je me trouve à ${location}.`,
+    defaultLocation: "Magnolia",
+    guildMark: (color: string | null, location: string | null) =>
+      `Mon emblème de guilde est ${color || "visible"}${location ? `, sur ${location}` : ""}.`,
+    appearance: (description: string) => `Apparence : ${description}`,
+    backstory: (backstory: string) => `Mon histoire : ${backstory}`,
+    start: "Commençons l'aventure !",
+  },
+  journal: {
+    title: "Journal d'aventure",
+    entries: (count: number) => `${count} entrées`,
+    filterPlaceholder: "Filtrer le journal...",
+    pinnedOnly: "Épinglées uniquement",
+    loading: "Chargement du journal...",
+    empty: "Aucun fait consigné pour le moment.",
+    noMatch: "Aucune entrée ne correspond au filtre.",
+    pin: "Épingler",
+    unpin: "Désépingler",
+    loadFailed: "Impossible de charger le journal.",
+    pinFailed: "Impossible de modifier cette entrée.",
+    deleteFailed: "La suppression a échoué. Réessayez plus tard.",
+  },
+  quests: {
+    title: "Missions",
+    tabs: {
+      board: "Tableau",
+      active: "En cours",
+      done: "Terminées",
+    },
+    empty: "Aucune mission ici.",
+    reward: (jewels: number) => `Récompense : ${jewels} J`,
+    failed: "Échouée",
+    ranks: {
+      D: "Rang D",
+      C: "Rang C",
+      B: "Rang B",
+      A: "Rang A",
+      S: "Classe S",
+    },
+  },
+  inventory: {
+    title: "Inventaire",
+    count: (count: number) => `${count} objets`,
+    empty: "Ton sac est vide.",
+    categories: {
+      consumable: "Consommables",
+      lacrima: "Lacrimas",
+      equipment: "Équipement",
+      key: "Objets clés",
+    },
+    slots: {
+      weapon: "Arme",
+      armor: "Armure",
+      accessory: "Accessoire",
+    },
+  },
+  rolls: {
+    title: "Jets de dés",
+    count: (count: number) => `${count} jets`,
+    seed: (seed: number, counter: number) =>
+      `Graine ${seed} · tirage n°${counter}`,
+    empty: "Aucun jet pour le moment.",
+    modes: {
+      normal: "",
+      advantage: "avantage",
+      disadvantage: "désavantage",
+    },
+    dice: "Dés :",
+    modifier: "mod.",
+    check: (dc: number, passed: boolean) =>
+      `DD ${dc} ${passed ? "réussi" : "raté"}`,
+  },
+  battle: {
+    title: "Combat",
+    round: (round: number) => `Tour ${round}`,
+    you: "Toi",
+    level: (level: number) => `niv. ${level}`,
+    hp: "PV",
+    mp: "PM",
+    statuses: {
+      burn: "Brûlure",
+      poison: "Poison",
+      freeze: "Gel",
+      stun: "Étourdi",
+      defend: "Garde",
+    },
+  },
+  hud: {
+    title: "Fiche de personnage",
+    open: "Fiche",
+    close: "Fermer",
+    level: (level: number) => `Niveau ${level}`,
+    xp: "XP",
+    maxLevel: "Niveau maximum",
+    magic: "Magie",
+    noMagic: "Aucune école",
+    location: "Lieu",
+    unknownLocation: "Inconnu",
+    jewels: "Jewels",
+    statuses: "Effets",
+    noStatus: "Aucun effet",
+  },
+  chat: {
+    greeting: "Bienvenue, mage ! Où commence ton aventure ?",
+    placeholder: "Que fais-tu ?",
+    starterPrompts: STARTER_PROMPTS,
+    loadingSession: "Chargement de la session...",
+    reconnecting: "Reconnexion à l'aventure...",
+    restart: "Relancer la discussion",
+    retryIn: (seconds: number) => `Réessaie dans ${seconds} s.`,
+    cooldown:
+      "Trop de parties ont été lancées en peu de temps. Patiente un instant avant de relancer l'aventure.",
+    missingWorkflow:
+      "Définis NEXT_PUBLIC_CHATKIT_WORKFLOW_ID dans ton fichier .env.local.",
+    scriptUnavailable:
+      "Le composant ChatKit est indisponible. Vérifie que l'URL du script est accessible.",
+    sessionFailed: "Impossible de démarrer la session ChatKit.",
+    sessionExpired:
+      "Ta connexion a expiré. Reconnecte-toi pour reprendre l'aventure.",
+    sessionRejected:
+      "Le serveur a refusé d'ouvrir cette aventure. Vérifie la configuration du workflow.",
+    serviceUnavailable:
+      "Le narrateur est indisponible pour le moment. Réessaie dans un instant.",
+    missingSecret: "Le serveur n'a pas renvoyé de session valide.",
+  },
+  startScreen: {
+    newGameGreeting: (name: string) =>
+      `Bienvenue à Fairy Tail, ${name} ! Présente-toi à la guilde ou choisis ta première mission.`,
+    resumeGreeting: (name: string, level: number, location: string | null) =>
+      `Bon retour, ${name} ! Niveau ${level}${location ? ` · ${location}` : ""}. Que fais-tu ?`,
+    beginAdventureLabel: "Commencer l'aventure",
+    onboardingPrompts: ONBOARDING_PROMPTS,
+    resumeCombatLabel: "Reprendre le combat",
+    resumeCombatPrompt: "Je reprends le combat là où il s'est arrêté.",
+    continueQuestLabel: (title: string) => `Continuer la mission : ${title}`,
+    continueQuestPrompt: (title: string, objective: string | null) =>
+      `Je continue la mission « ${title} »${objective ? ` : ${objective}` : ""}.`,
+    questBoardLabel: "Consulter le tableau des missions",
+    questBoardPrompt: "Je vais voir le tableau des missions de la guilde.",
+    returnToGuildLabel: "Retourner à la guilde",
+    returnToGuildPrompt: "Je retourne à la guilde.",
+    exploreLabel: (location: string) => `Explorer ${location}`,
+    explorePrompt: (location: string) =>
+      `J'explore les environs (${location}).`,
+    recallLabel: "Où en étais-je ?",
+    recallPrompt: (facts: string[]) =>
+      `Rappelle-moi où j'en suis. Dernières notes du journal : ${facts.join(" / ")}`,
+  },
+  catalog: {
+    campaigns: NO_OVERRIDES,
+    schools: NO_OVERRIDES,
+    items: NO_OVERRIDES,
+  },
+};
+
+export type Messages = typeof fr;
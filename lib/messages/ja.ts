@@ -0,0 +1,472 @@
+import type { Messages } from "@/lib/messages/fr";
+
+export const ja: Messages = {
+  languageName: "日本語",
+  common: {
+    back: "戻る",
+    delete: "削除",
+    loading: "読み込み中...",
+    unknownDate: "不明",
+    retryLater: "しばらくしてからもう一度お試しください。",
+  },
+  stats: {
+    strength: "筋力",
+    magic: "魔力",
+    agility: "敏捷",
+    defense: "防御",
+  },
+  languageSwitcher: {
+    label: "言語",
+  },
+  app: {
+    connecting: "ログイン中...",
+    backToMenu: "メニューに戻る",
+    quickSaveTitle: "復元ポイントを保存する",
+    quickSave: {
+      idle: "クイックセーブ",
+      saving: "保存中...",
+      saved: "保存しました！",
+      error: "保存に失敗しました",
+    },
+    createCharacterFailed:
+      "キャラクターを作成できませんでした。もう一度お試しください。",
+    defaultSaveName: (name: string) => `${name}の冒険`,
+  },
+  signIn: {
+    title: "フェアリーテイルへようこそ",
+    subtitle: "ログインしてセーブデータを引き継ぎましょう。",
+    linkSentBefore: "ログインリンクを送信しました：",
+    linkSentAfter: "。このブラウザで開いて続けてください。",
+    emailPlaceholder: "your.address@email.com",
+    sending: "送信中...",
+    sendMagicLink: "マジックリンクを受け取る",
+    playAsGuest: "ゲストでプレイ",
+    guestNote: "ゲストのデータはこのブラウザに保存されます。",
+    playLocally: "アカウントなしでプレイ（この端末に保存）",
+    magicLinkFailed:
+      "リンクを送信できませんでした。アドレスを確認してもう一度お試しください。",
+    guestUnavailable: "現在ゲストログインは利用できません。",
+  },
+  slots: {
+    loading: "セーブデータを読み込み中...",
+    title: "セーブデータを選択",
+    intro:
+      "スロットごとに別の冒険を記録できます。空きスロットを選ぶと新しいゲームを始めます。",
+    usage: (used: number, limit: number) => `${used} / ${limit} スロット使用中`,
+    localSaves: "この端末のセーブデータ",
+    onlineSaves: "オンラインのセーブデータ",
+    refreshing: "更新中...",
+    refresh: "更新",
+    import: "インポート",
+    importNewTitle: "新しいスロットにセーブデータをインポート",
+    importHereTitle: "このスロットにセーブデータをインポート",
+    switchToOnline: "オンラインのセーブデータ",
+    switchToLocal: "ローカルのセーブデータ",
+    signOut: "ログアウト",
+    migratePrompt:
+      "この端末にローカルのセーブデータがあります。アカウントにコピーすればどこでも遊べます。",
+    migrate: "アカウントにコピー",
+    slotLabel: (slot: number) => `スロット ${slot}`,
+    branchName: (name: string) => `${name}（分岐）`,
+    newGame: "ニューゲーム",
+    untitled: "冒険中",
+    rename: "名前を変更",
+    duplicate: "複製",
+    duplicateTitle: "この冒険から分岐する",
+    noFreeSlot: "分岐用の空きスロットがありません",
+    history: "履歴",
+    export: "エクスポート",
+    emptySlot: "このスロットで新しい物語を始めましょう。",
+    character: "キャラクター：",
+    campaign: "キャンペーン：",
+    level: "レベル：",
+    location: "場所：",
+    startingLocation: "冒険の始まり",
+    activeQuests: "進行中の依頼：",
+    moreQuests: (count: number) => `ほか ${count} 件`,
+    lastSave: "最終セーブ：",
+    unreadable: "読み込めないセーブデータです。",
+    startAdventure: "新しい冒険を始める",
+    continue: "続ける",
+    restorePoints: "復元ポイント",
+    newSlot: "新しいスロット",
+    limitReached: (limit: number) =>
+      `スロットの上限（${limit}）に達しました。スロットを削除してから作成してください。`,
+    renamePrompt: (maxLength: number) =>
+      `新しいセーブ名（最大 ${maxLength} 文字）：`,
+    confirmDelete: (slot: number) =>
+      `スロット ${slot} とその日誌を完全に削除しますか？`,
+    confirmReplace: (current: string, slot: number, incoming: string) =>
+      `${current}の冒険（スロット ${slot}）を${incoming}の冒険で置き換えますか？`,
+    confirmRestore: (date: string, slot: number) =>
+      `${date} の時点に戻しますか？スロット ${slot} のそれ以降の進行と日誌は失われます。`,
+    loadFailed: "現在セーブデータを取得できません。",
+    createFailed: "新しいスロットを作成できませんでした。",
+    duplicateFailed:
+      "複製に失敗しました。空きスロットがあるか確認してください。",
+    renameFailed:
+      "名前の変更に失敗しました。しばらくしてからもう一度お試しください。",
+    deleteFailed:
+      "削除に失敗しました。しばらくしてからもう一度お試しください。",
+    exportFailed: "セーブデータのエクスポートに失敗しました。",
+    importTooLarge:
+      "セーブファイルを受け付けられません：ファイルが大きすぎます。",
+    importRejected: (reason: string) =>
+      `セーブファイルを受け付けられません：${reason}。`,
+    importReasons: {
+      notJson: "有効な JSON ファイルではありません",
+      notSaveExport: "セーブのエクスポートファイルではありません",
+      missingVersion: "エクスポートのバージョンがありません",
+      newerVersion: "より新しいバージョンのゲームで作られたファイルです",
+      incomplete: "エクスポートが不完全です",
+      checksum: "ファイルが破損しているか不完全です",
+      invalidSource: "元のスロットが不正です",
+      invalidCharacterName: "キャラクター名が不正です",
+      invalidSaveName: "セーブ名が不正です",
+      invalidThread: "チャットの参照が不正です",
+      invalidJournal: "日誌が不正です",
+      invalidGameState: "ゲームの状態が不正です",
+    },
+    importFailed: "セーブデータのインポートに失敗しました。",
+    restoreFailed:
+      "復元に失敗しました。しばらくしてからもう一度お試しください。",
+    branchFailed:
+      "分岐の作成に失敗しました。空きスロットがあるか確認してください。",
+    migrateFailed:
+      "一部のローカルセーブデータをコピーできませんでした。スロットを空けてもう一度お試しください。",
+  },
+  snapshots: {
+    reasons: {
+      level_up: "レベルアップ",
+      location: "新しい場所",
+      manual: "クイックセーブ",
+    },
+    loadFailed: "このスロットの履歴を読み込めませんでした。",
+    empty:
+      "復元ポイントはまだありません。レベルアップ、場所の移動、クイックセーブのたびに作成されます。",
+    summary: (level: number, location: string | null) =>
+      `レベル ${level} · ${location ?? "不明な場所"}`,
+    restore: "復元",
+    branch: "分岐",
+    branchTitle: "この時点から分岐を作成",
+    noFreeSlot: "分岐用の空きスロットがありません",
+  },
+  conflict: {
+    title: "別の場所でセーブが更新されました",
+    body: (when: string | null) =>
+      `このゲームは${when ? ` ${when} に` : "最近"}別のタブまたは端末で保存されました。残すバージョンを選んでください。もう一方は失われます。`,
+    keepMine: "このゲームを残す",
+    loadTheirs: "別のバージョンを読み込む",
+    failed: "競合を解決できませんでした。もう一度お試しください。",
+  },
+  creator: {
+    heading: "新しい冒険",
+    step: (current: number, total: number) => `ステップ ${current} / ${total}`,
+    steps: {
+      campaign: "どの冒険に挑みますか？",
+      name: "魔導士の名前は？",
+      magicSchool: "どの魔法を使いますか？",
+      allocation: "能力値ポイントを振り分けよう",
+      appearance: "あなたの見た目は？",
+      backstory: "あなたの物語を教えて",
+    },
+    startingPoint: (location: string) => `開始地点：${location}`,
+    namePlaceholder: "例：ナツ、ルーシィ、グレイ...",
+    pointsLeft: "残りポイント：",
+    removePoint: (stat: string) => `${stat}を1ポイント減らす`,
+    addPoint: (stat: string) => `${stat}に1ポイント追加`,
+    schoolBonusNote: (school: string) =>
+      `${school}のボーナスは合計に含まれています。`,
+    markColorPlaceholder: "ギルドマークの色（例：ピンク）",
+    markLocationPlaceholder: "位置（例：右肩）",
+    appearancePlaceholder: "髪型、服装、特徴など...",
+    backstoryPlaceholder: "どこから来たの？なぜフェアリーテイルに？",
+    next: "次へ",
+    creating: "作成中...",
+    begin: "冒険を始める",
+    errors: {
+      campaign: "キャンペーンを選んでください。",
+      nameMissing: "魔導士の名前を決めてください。",
+      nameTooLong: (max: number) => `名前は ${max} 文字以内にしてください。`,
+      magicSchool: "魔法の系統を選んでください。",
+      allocationRange: (max: number) => `各能力値は 0〜${max} ポイントです。`,
+      allocationTotal: (total: number, spent: number) =>
+        `ちょうど ${total} ポイントを振り分けてください（${spent} 使用済み）。`,
+      appearanceTooLong: "見た目の説明が長すぎます。",
+      backstoryTooLong: (max: number) =>
+        `物語は ${max} 文字以内にしてください。`,
+    },
+  },
+  opening: {
+    intro: (name: string, school: string | null) =>
+      `私は${name}、フェアリーテイルの新しい魔導士${school ? `（${school}）` : ""}です。`,
+    campaign: (campaign: string) => `キャンペーン：${campaign}。`,
+    location: (location: string) => `今いる場所は${location}です。`,
+    defaultLocation: "マグノリア",
+    guildMark: (color: string | null, location: string | null) =>
+      `ギルドマークは${location ? `${location}にある` : ""}${color ? `${color}色` : "目立つ"}の紋章です。`,
+    appearance: (description: string) => `見た目：${description}`,
+    backstory: (backstory: string) => `私の物語：${backstory}`,
+    start: "冒険を始めよう！",
+  },
+  journal: {
+    title: "冒険日誌",
+    entries: (count: number) => `${count} 件`,
+    filterPlaceholder: "日誌を絞り込む...",
+    pinnedOnly: "ピン留めのみ",
+    loading: "日誌を読み込み中...",
+    empty: "まだ記録はありません。",
+    noMatch: "条件に一致する記録はありません。",
+    pin: "ピン留め",
+    unpin: "ピン留めを外す",
+    loadFailed: "日誌を読み込めませんでした。",
+    pinFailed: "この記録を更新できませんでした。",
+    deleteFailed:
+      "削除に失敗しました。しばらくしてからもう一度お試しください。",
+  },
+  quests: {
+    title: "依頼",
+    tabs: {
+      board: "掲示板",
+      active: "進行中",
+      done: "完了",
+    },
+    empty: "依頼はありません。",
+    reward: (jewels: number) => `報酬：${jewels} J`,
+    failed: "失敗",
+    ranks: {
+      D: "Dランク",
+      C: "Cランク",
+      B: "Bランク",
+      A: "Aランク",
+      S: "S級",
+    },
+  },
+  inventory: {
+    title: "所持品",
+    count: (count: number) => `${count} 個`,
+    empty: "かばんは空です。",
+    categories: {
+      consumable: "消耗品",
+      lacrima: "魔水晶",
+      equipment: "装備",
+      key: "大事なもの",
+    },
+    slots: {
+      weapon: "武器",
+      armor: "防具",
+      accessory: "装飾品",
+    },
+  },
+  rolls: {
+    title: "ダイスロール",
+    count: (count: number) => `${count} 回`,
+    seed: (seed: number, counter: number) => `シード ${seed} · ${counter} 回目`,
+    empty: "まだロールはありません。",
+    modes: {
+      normal: "",
+      advantage: "有利",
+      disadvantage: "不利",
+    },
+    dice: "ダイス：",
+    modifier: "補正",
+    check: (dc: number, passed: boolean) =>
+      `難易度 ${dc} ${passed ? "成功" : "失敗"}`,
+  },
+  battle: {
+    title: "戦闘",
+    round: (round: number) => `ラウンド ${round}`,
+    you: "あなた",
+    level: (level: number) => `Lv. ${level}`,
+    hp: "HP",
+    mp: "MP",
+    statuses: {
+      burn: "火傷",
+      poison: "毒",
+      freeze: "凍結",
+      stun: "気絶",
+      defend: "防御",
+    },
+  },
+  hud: {
+    title: "キャラクターシート",
+    open: "シート",
+    close: "閉じる",
+    level: (level: number) => `レベル ${level}`,
+    xp: "XP",
+    maxLevel: "最大レベル",
+    magic: "魔法",
+    noMagic: "流派なし",
+    location: "現在地",
+    unknownLocation: "不明",
+    jewels: "ジュエル",
+    statuses: "状態",
+    noStatus: "状態異常なし",
+  },
+  chat: {
+    greeting: "ようこそ、魔導士！冒険はどこから始まる？",
+    placeholder: "どうする？",
+    starterPrompts: [
+      {
+        label: "何ができるの？",
+        prompt: "何ができるの？",
+        icon: "circle-question",
+      },
+    ],
+    loadingSession: "セッションを読み込み中...",
+    reconnecting: "冒険に再接続中...",
+    restart: "チャットを再開",
+    retryIn: (seconds: number) => `${seconds} 秒後に再試行できます。`,
+    cooldown:
+      "短時間にゲームを開始しすぎました。しばらく待ってから冒険を再開してください。",
+    missingWorkflow:
+      ".env.local ファイルに NEXT_PUBLIC_CHATKIT_WORKFLOW_ID を設定してください。",
+    scriptUnavailable:
+      "ChatKit コンポーネントを利用できません。スクリプトの URL にアクセスできるか確認してください。",
+    sessionFailed: "ChatKit セッションを開始できませんでした。",
+    sessionExpired:
+      "ログインの有効期限が切れました。冒険を再開するには再度ログインしてください。",
+    sessionRejected:
+      "サーバーがこの冒険の開始を拒否しました。ワークフローの設定を確認してください。",
+    serviceUnavailable:
+      "現在ナレーターを利用できません。しばらくしてから再試行してください。",
+    missingSecret: "サーバーから有効なセッションが返されませんでした。",
+  },
+  startScreen: {
+    newGameGreeting: (name: string) =>
+      `フェアリーテイルへようこそ、${name}！ギルドのみんなに挨拶するか、最初の依頼を選ぼう。`,
+    resumeGreeting: (name: string, level: number, location: string | null) =>
+      `おかえり、${name}！レベル ${level}${location ? ` · ${location}` : ""}。どうする？`,
+    beginAdventureLabel: "冒険を始める",
+    onboardingPrompts: [
+      {
+        label: "ギルドを見て回る",
+        prompt: "ギルドを見て回り、ほかの魔導士たちに自己紹介する。",
+        icon: "map-pin",
+      },
+      {
+        label: "依頼掲示板を見る",
+        prompt: "最初の依頼を選びに依頼掲示板へ行く。",
+        icon: "notebook-pencil",
+      },
+      {
+        label: "遊び方は？",
+        prompt: "ゲームの進め方と、できることを教えて。",
+        icon: "circle-question",
+      },
+    ],
+    resumeCombatLabel: "戦闘を再開する",
+    resumeCombatPrompt: "中断したところから戦闘を再開する。",
+    continueQuestLabel: (title: string) => `依頼を続ける：${title}`,
+    continueQuestPrompt: (title: string, objective: string | null) =>
+      `依頼「${title}」を続ける${objective ? `：${objective}` : ""}。`,
+    questBoardLabel: "依頼掲示板を見る",
+    questBoardPrompt: "ギルドの依頼掲示板を見に行く。",
+    returnToGuildLabel: "ギルドに戻る",
+    returnToGuildPrompt: "ギルドに戻る。",
+    exploreLabel: (location: string) => `${location}を探索する`,
+    explorePrompt: (location: string) => `周辺（${location}）を探索する。`,
+    recallLabel: "どこまで進んだっけ？",
+    recallPrompt: (facts: string[]) =>
+      `今の状況を思い出させて。最近の日誌：${facts.join(" / ")}`,
+  },
+  catalog: {
+    campaigns: {
+      magnolia_debutant: {
+        name: "マグノリア入門編",
+        description:
+          "フェアリーテイルでの第一歩。街での小さな依頼、出会い、ライバルたち。",
+      },
+      ile_tenro: {
+        name: "天狼島",
+        description:
+          "ギルドの聖地で行われるS級魔導士昇格試験。そこにはさらに大きな脅威が潜む。",
+      },
+      grands_jeux_magiques: {
+        name: "大魔闘演武",
+        description:
+          "クロッカスの大会で、フィオーレ中のギルドが王国の前で競い合う。",
+      },
+    },
+    schools: {
+      fire_dragon_slayer: {
+        name: "火の滅竜魔法",
+        description: "竜に教わった失われた魔法。炎を食べて力を増す。",
+      },
+      sky_dragon_slayer: {
+        name: "天空の滅竜魔法",
+        description: "天空竜の息吹。回復、支援、そして突風。",
+      },
+      celestial_spirit: {
+        name: "星霊魔法",
+        description: "銀と金の鍵で星霊を呼び出す。",
+      },
+      ice_make: {
+        name: "氷の造形魔法",
+        description: "造形魔法。氷を武器や盾の形に変える。",
+      },
+      requip: {
+        name: "換装",
+        description: "異空間にしまった武器や鎧を呼び出す。",
+      },
+      take_over: {
+        name: "接収",
+        description: "倒した魔物の姿と力を身にまとう。",
+      },
+    },
+    items: {
+      healing_potion: {
+        name: "回復薬",
+        description: "HPを40回復する。",
+      },
+      high_potion: {
+        name: "上級回復薬",
+        description: "HPを120回復する。",
+      },
+      ration: {
+        name: "携帯食",
+        description: "ギルドの酒場の食事。HPを15回復する。",
+      },
+      ether_lacrima: {
+        name: "エーテルナノ魔水晶",
+        description: "魔力を帯びた水晶。MPを30回復する。",
+      },
+      pure_lacrima: {
+        name: "純粋な魔水晶",
+        description: "MPを全回復する。",
+      },
+      communication_lacrima: {
+        name: "通信用魔水晶",
+        description: "離れた場所からギルドと連絡できる。",
+      },
+      iron_sword: {
+        name: "鉄の剣",
+        description: "平凡だが頼れる刃。",
+      },
+      magic_staff: {
+        name: "魔導士の杖",
+        description: "魔力の流れを増幅する。",
+      },
+      leather_armor: {
+        name: "革の鎧",
+        description: "依頼に向いた軽い防具。",
+      },
+      heavens_wheel_armor: {
+        name: "天輪の鎧",
+        description: "伝説の換装用の鎧。",
+      },
+      speed_ring: {
+        name: "俊足の指輪",
+        description: "身につけた者を素早くする。",
+      },
+      guild_mark: {
+        name: "フェアリーテイルの紋章",
+        description: "ギルドの証。決して消えない。",
+      },
+      celestial_key_silver: {
+        name: "銀の鍵",
+        description: "星霊の門を開く。",
+      },
+    },
+  },
+};
@@ -0,0 +1,131 @@
+/**
+ * A stand-in for the `POST /v1/chatkit/sessions` upstream, so the session
+ * route and the panel can be exercised without an OpenAI key or network.
+ * The scenario is the last segment of `CHATKIT_API_BASE`, e.g.
+ * `http://localhost:3000/api/mock-chatkit/server_error`.
+ */
+export const MOCK_SCENARIOS = [
+  "success",
+  "short_lived",
+  "slow",
+  "bad_request",
+  "unauthorized",
+  "rate_limited",
+  "server_error",
+  "malformed",
+] as const;
+
+export type MockScenario = (typeof MOCK_SCENARIOS)[number];
+
+/** Secret lifetimes: a real session's, and one short enough to watch refresh. */
+const SESSION_LIFETIME_SECONDS = 600;
+const SHORT_SESSION_LIFETIME_SECONDS = 90;
+const SLOW_RESPONSE_MS = 8_000;
+
+export function isMockScenario(value: string): value is MockScenario {
+  return (MOCK_SCENARIOS as readonly string[]).includes(value);
+}
+
+function upstreamError(
+  status: number,
+  type: string,
+  message: string,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify({ error: { type, message } }), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}_mock_${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+/**
+ * Answers a session request the way the scenario asks. Requests are checked
+ * like the real API would, so a route that forgets the key or the workflow
+ * sees the same 401 and 400 it would upstream.
+ */
+export async function createMockSessionResponse(
+  scenario: MockScenario,
+  request: Request
+): Promise<Response> {
+  if (!request.headers.get("authorization")?.startsWith("Bearer ")) {
+    return upstreamError(
+      401,
+      "invalid_request_error",
+      "You didn't provide an API key."
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    workflow?: { id?: unknown } | null;
+    user?: unknown;
+  } | null;
+  const workflowId = body?.workflow?.id;
+  if (typeof workflowId !== "string" || !workflowId) {
+    return upstreamError(
+      400,
+      "invalid_request_error",
+      "Missing required parameter: 'workflow.id'."
+    );
+  }
+
+  switch (scenario) {
+    case "bad_request":
+      return upstreamError(
+        400,
+        "invalid_request_error",
+        `Workflow '${workflowId}' does not exist.`
+      );
+    case "unauthorized":
+      return upstreamError(
+        401,
+        "invalid_request_error",
+        "Incorrect API key provided."
+      );
+    case "rate_limited":
+      return upstreamError(
+        429,
+        "rate_limit_exceeded",
+        "Rate limit reached for chatkit sessions.",
+        { "Retry-After": "20" }
+      );
+    case "server_error":
+      return upstreamError(
+        500,
+        "server_error",
+        "The server had an error while processing your request."
+      );
+    case "malformed":
+      return new Response('{"client_secret": "ek_mock_', {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    case "slow":
+      await new Promise((resolve) => setTimeout(resolve, SLOW_RESPONSE_MS));
+      break;
+    case "success":
+    case "short_lived":
+      break;
+  }
+
+  const lifetime =
+    scenario === "short_lived"
+      ? SHORT_SESSION_LIFETIME_SECONDS
+      : SESSION_LIFETIME_SECONDS;
+  const createdAt = Math.floor(Date.now() / 1000);
+  return new Response(
+    JSON.stringify({
+      id: randomId("cksess"),
+      object: "chatkit.session",
+      client_secret: randomId("ek"),
+      expires_at: createdAt + lifetime,
+      workflow: { id: workflowId },
+      user: typeof body?.user === "string" ? body.user : null,
+      status: "active",
+    }),
+    { status: 200, headers: { "Content-Type": "application/json" } }
+  );
+}
@@ -0,0 +1,245 @@
+import {
+  QUEST_RANKS,
+  type GameState,
+  type Quest,
+  type QuestObjective,
+  type QuestRank,
+} from "@/lib/gameState";
+import {
+  fail,
+  isParamError,
+  readInteger,
+  readText,
+  type ClientToolParams,
+  type ClientToolResult,
+  type GameToolHandler,
+  type ParamError,
+} from "@/lib/clientTools";
+
+export const MAX_ACTIVE_QUESTS = 5;
+const MAX_QUEST_ID_LENGTH = 64;
+const MAX_TITLE_LENGTH = 120;
+const MAX_OBJECTIVES = 10;
+const MAX_REWARD_JEWELS = 10_000_000;
+
+export function getQuestsByStatus(
+  state: GameState,
+  status: Quest["status"]
+): Quest[] {
+  return Object.values(state.quests)
+    .filter((quest) => quest.status === status)
+    .sort((left, right) => right.updated_at.localeCompare(left.updated_at));
+}
+
+function readRank(params: ClientToolParams): QuestRank | ParamError {
+  const raw = params.rank;
+  const normalized =
+    typeof raw === "string"
+      ? raw
+          .trim()
+          .toUpperCase()
+          .replace(/[-\s]?CLASS$/, "")
+      : raw;
+  if (!(QUEST_RANKS as readonly unknown[]).includes(normalized)) {
+    return {
+      error: `Parameter "rank" must be one of ${QUEST_RANKS.join(", ")}`,
+    };
+  }
+  return normalized as QuestRank;
+}
+
+function readObjectives(
+  params: ClientToolParams
+): QuestObjective[] | ParamError {
+  const raw = params.objectives;
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { error: 'Parameter "objectives" must be a non-empty array' };
+  }
+  if (raw.length > MAX_OBJECTIVES) {
+    return { error: `A quest can have at most ${MAX_OBJECTIVES} objectives` };
+  }
+
+  const objectives: QuestObjective[] = [];
+  for (const [index, entry] of raw.entries()) {
+    const fields =
+      typeof entry === "string"
+        ? { id: `o${index + 1}`, label: entry }
+        : (entry as ClientToolParams);
+    const id =
+      typeof fields?.id === "string" && fields.id.trim()
+        ? fields.id.trim()
+        : `o${index + 1}`;
+    const label = readText(fields ?? {}, "label", MAX_TITLE_LENGTH);
+    if (isParamError(label)) {
+      return { error: `Objective ${index + 1}: ${label.error}` };
+    }
+    if (objectives.some((objective) => objective.id === id)) {
+      return { error: `Duplicate objective id "${id}"` };
+    }
+    objectives.push({ id, label, done: false });
+  }
+  return objectives;
+}
+
+/** Quest ids come from the model, so only the state's own keys match. */
+function findQuest(state: GameState, questId: string): Quest | null {
+  return Object.hasOwn(state.quests, questId) ? state.quests[questId] : null;
+}
+
+function readQuest(
+  state: GameState,
+  params: ClientToolParams
+): Quest | ParamError {
+  const questId = readText(params, "quest_id", MAX_QUEST_ID_LENGTH);
+  if (isParamError(questId)) {
+    return questId;
+  }
+  return findQuest(state, questId) ?? { error: `Unknown quest "${questId}"` };
+}
+
+function describeQuest(quest: Quest): ClientToolResult {
+  return {
+    success: true,
+    quest_id: quest.id,
+    title: quest.title,
+    rank: quest.rank,
+    status: quest.status,
+    reward_jewels: quest.reward_jewels,
+    objectives: quest.objectives,
+  };
+}
+
+function withQuest(state: GameState, quest: Quest): GameState {
+  return { ...state, quests: { ...state.quests, [quest.id]: quest } };
+}
+
+const postQuest: GameToolHandler = (state, params) => {
+  const questId = readText(params, "quest_id", MAX_QUEST_ID_LENGTH);
+  if (isParamError(questId)) {
+    return fail(questId.error);
+  }
+  if (findQuest(state, questId)) {
+    return fail(`Quest "${questId}" already exists`);
+  }
+  const title = readText(params, "title", MAX_TITLE_LENGTH);
+  if (isParamError(title)) {
+    return fail(title.error);
+  }
+  const rank = readRank(params);
+  if (isParamError(rank)) {
+    return fail(rank.error);
+  }
+  const reward = readInteger(params, "reward_jewels", {
+    min: 0,
+    max: MAX_REWARD_JEWELS,
+  });
+  if (isParamError(reward) || reward === null) {
+    return fail(reward?.error ?? 'Missing parameter "reward_jewels"');
+  }
+  const objectives = readObjectives(params);
+  if (isParamError(objectives)) {
+    return fail(objectives.error);
+  }
+
+  const quest: Quest = {
+    id: questId,
+    title,
+    rank,
+    reward_jewels: reward,
+    status: "posted",
+    objectives,
+    updated_at: new Date().toISOString(),
+  };
+  return { result: describeQuest(quest), state: withQuest(state, quest) };
+};
+
+const acceptQuest: GameToolHandler = (state, params) => {
+  const quest = readQuest(state, params);
+  if (isParamError(quest)) {
+    return fail(quest.error);
+  }
+  if (quest.status !== "posted") {
+    return fail(`Quest "${quest.id}" is ${quest.status}, not on the board`);
+  }
+  if (getQuestsByStatus(state, "active").length >= MAX_ACTIVE_QUESTS) {
+    return fail(`The player already has ${MAX_ACTIVE_QUESTS} active quests`);
+  }
+
+  const accepted: Quest = {
+    ...quest,
+    status: "active",
+    updated_at: new Date().toISOString(),
+  };
+  return { result: describeQuest(accepted), state: withQuest(state, accepted) };
+};
+
+const updateObjective: GameToolHandler = (state, params) => {
+  const quest = readQuest(state, params);
+  if (isParamError(quest)) {
+    return fail(quest.error);
+  }
+  if (quest.status !== "active") {
+    return fail(`Quest "${quest.id}" is not active`);
+  }
+  const objectiveId = readText(params, "objective_id", MAX_QUEST_ID_LENGTH);
+  if (isParamError(objectiveId)) {
+    return fail(objectiveId.error);
+  }
+  if (!quest.objectives.some((objective) => objective.id === objectiveId)) {
+    return fail(`Quest "${quest.id}" has no objective "${objectiveId}"`);
+  }
+  const done = params.done === undefined ? true : params.done === true;
+
+  const updated: Quest = {
+    ...quest,
+    objectives: quest.objectives.map((objective) =>
+      objective.id === objectiveId ? { ...objective, done } : objective
+    ),
+    updated_at: new Date().toISOString(),
+  };
+  return {
+    result: {
+      ...describeQuest(updated),
+      all_objectives_done: updated.objectives.every(
+        (objective) => objective.done
+      ),
+    },
+    state: withQuest(state, updated),
+  };
+};
+
+const completeQuest: GameToolHandler = (state, params) => {
+  const quest = readQuest(state, params);
+  if (isParamError(quest)) {
+    return fail(quest.error);
+  }
+  if (quest.status !== "active") {
+    return fail(`Quest "${quest.id}" is not active`);
+  }
+
+  const failed = params.outcome === "failure";
+  const remaining = quest.objectives.filter((objective) => !objective.done);
+  if (!failed && remaining.length > 0) {
+    return fail(
+      `Objectives still pending: ${remaining.map((objective) => objective.id).join(", ")}`
+    );
+  }
+
+  const completed: Quest = {
+    ...quest,
+    status: failed ? "failed" : "completed",
+    updated_at: new Date().toISOString(),
+  };
+  const jewels = state.jewels + (failed ? 0 : quest.reward_jewels);
+  return {
+    result: { ...describeQuest(completed), jewels },
+    state: { ...withQuest(state, completed), jewels },
+  };
+};
+
+export const QUEST_TOOLS: Record<string, GameToolHandler> = {
+  post_quest: postQuest,
+  accept_quest: acceptQuest,
+  update_objective: updateObjective,
+  complete_quest: completeQuest,
+};
@@ -0,0 +1,225 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+
+/** A token bucket that holds `capacity` tokens and refills them all over `windowSeconds`. */
+export type RateLimitRule = {
+  capacity: number;
+  windowSeconds: number;
+};
+
+export type RateLimitDecision =
+  { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+/**
+ * Where buckets live. Edge instances do not share memory, so deployments with
+ * several instances should use a shared store such as Supabase.
+ */
+export type RateLimitStore = {
+  take: (key: string, rule: RateLimitRule) => Promise<RateLimitDecision>;
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+
+const MAX_MEMORY_BUCKETS = 10_000;
+
+function refillRate(rule: RateLimitRule): number {
+  return rule.capacity / rule.windowSeconds;
+}
+
+/** Refills `bucket` up to `now` and tries to take one token from it. */
+export function takeToken(
+  bucket: Bucket | undefined,
+  rule: RateLimitRule,
+  now: number
+): { bucket: Bucket; decision: RateLimitDecision } {
+  const rate = refillRate(rule);
+  const elapsedSeconds = bucket ? (now - bucket.updatedAt) / 1000 : 0;
+  const tokens = Math.min(
+    rule.capacity,
+    (bucket?.tokens ?? rule.capacity) + elapsedSeconds * rate
+  );
+
+  if (tokens < 1) {
+    return {
+      bucket: { tokens, updatedAt: now },
+      decision: {
+        allowed: false,
+        retryAfterSeconds: Math.ceil((1 - tokens) / rate),
+      },
+    };
+  }
+
+  return {
+    bucket: { tokens: tokens - 1, updatedAt: now },
+    decision: { allowed: true },
+  };
+}
+
+/**
+ * Keeps buckets in the instance's memory. The oldest buckets are evicted past
+ * `maxBuckets`, which at worst hands a forgotten caller a fresh bucket.
+ */
+export function createMemoryRateLimitStore(
+  maxBuckets = MAX_MEMORY_BUCKETS
+): RateLimitStore {
+  const buckets = new Map<string, Bucket>();
+
+  return {
+    take: async (key, rule) => {
+      const { bucket, decision } = takeToken(
+        buckets.get(key),
+        rule,
+        Date.now()
+      );
+      // Re-inserting keeps the map ordered from least to most recently used.
+      buckets.delete(key);
+      buckets.set(key, bucket);
+      if (buckets.size > maxBuckets) {
+        const oldest = buckets.keys().next().value;
+        if (oldest !== undefined) {
+          buckets.delete(oldest);
+        }
+      }
+      return decision;
+    },
+  };
+}
+
+/**
+ * Shares buckets between instances through the `rpg_take_rate_limit_token`
+ * function from `supabase/schema.sql`, which updates a bucket atomically.
+ */
+export function createSupabaseRateLimitStore(
+  client: SupabaseClient
+): RateLimitStore {
+  return {
+    take: async (key, rule) => {
+      const { data, error } = await client.rpc("rpg_take_rate_limit_token", {
+        target_key: key,
+        bucket_capacity: rule.capacity,
+        refill_rate: refillRate(rule),
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      const waitSeconds = typeof data === "number" ? data : 0;
+      return waitSeconds > 0
+        ? { allowed: false, retryAfterSeconds: Math.ceil(waitSeconds) }
+        : { allowed: true };
+    },
+  };
+}
+
+let defaultStore: RateLimitStore | undefined;
+
+/**
+ * The store selected by `RATE_LIMIT_STORE` (`memory` or `supabase`). Falls
+ * back to memory when the Supabase service role is not configured.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (defaultStore) {
+    return defaultStore;
+  }
+
+  const client =
+    process.env.RATE_LIMIT_STORE?.trim() === "supabase"
+      ? createSupabaseAdminClient()
+      : null;
+  defaultStore = client
+    ? createSupabaseRateLimitStore(client)
+    : createMemoryRateLimitStore();
+  return defaultStore;
+}
+
+/** Reads a `"<requests>/<seconds>"` quota such as `"10/600"`. */
+export function parseRateLimitRule(
+  raw: string | undefined,
+  fallback: RateLimitRule
+): RateLimitRule {
+  const match = raw?.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match) {
+    return fallback;
+  }
+  const capacity = Number(match[1]);
+  const windowSeconds = Number(match[2]);
+  return capacity > 0 && windowSeconds > 0
+    ? { capacity, windowSeconds }
+    : fallback;
+}
+
+/**
+ * Takes a token from each bucket and reports the longest wait among the
+ * refused ones. A failing store lets the request through: limiting must not
+ * take the game down.
+ */
+export async function checkRateLimits(
+  store: RateLimitStore,
+  checks: { key: string; rule: RateLimitRule }[]
+): Promise<RateLimitDecision> {
+  let retryAfterSeconds = 0;
+
+  for (const { key, rule } of checks) {
+    try {
+      const decision = await store.take(key, rule);
+      if (!decision.allowed) {
+        retryAfterSeconds = Math.max(
+          retryAfterSeconds,
+          decision.retryAfterSeconds
+        );
+      }
+    } catch (error) {
+      console.error("[rate-limit] store unavailable", error);
+    }
+  }
+
+  return retryAfterSeconds > 0
+    ? { allowed: false, retryAfterSeconds }
+    : { allowed: true };
+}
+
+/**
+ * Where the caller's address comes from. `header` names a header that the
+ * hosting platform sets itself, such as `x-real-ip` on Vercel or
+ * `cf-connecting-ip` behind Cloudflare. Without one, `proxyHops` is the number
+ * of proxies in front of the app that append to `X-Forwarded-For`.
+ */
+export type ClientIpOptions = { header: string | null; proxyHops: number };
+
+/** Reads `TRUSTED_IP_HEADER` and `TRUSTED_PROXY_HOPS` (default 1). */
+export function readClientIpOptions(
+  env: Record<string, string | undefined> = process.env
+): ClientIpOptions {
+  const header = env.TRUSTED_IP_HEADER?.trim().toLowerCase() || null;
+  const hops = Number(env.TRUSTED_PROXY_HOPS?.trim() || 1);
+  return {
+    header,
+    proxyHops: Number.isInteger(hops) && hops >= 1 ? hops : 1,
+  };
+}
+
+/**
+ * The caller's address as seen by the trusted proxies, or null when they did
+ * not report one. Callers can put anything in `X-Forwarded-For`, but each
+ * proxy appends the address it received the request from, so only the
+ * entries added by the trusted hops, counted from the right, can be relied on.
+ */
+export function readClientIp(
+  request: Request,
+  options: ClientIpOptions
+): string | null {
+  if (options.header) {
+    return request.headers.get(options.header)?.trim() || null;
+  }
+
+  const forwarded = request.headers
+    .get("x-forwarded-for")
+    ?.split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (!forwarded || forwarded.length < options.proxyHops) {
+    return null;
+  }
+  return forwarded[forwarded.length - options.proxyHops];
+}
@@ -0,0 +1,168 @@
+import type { GameState } from "@/lib/gameState";
+import type {
+  SaveSlot,
+  SaveSlotContents,
+  SaveSlotRecord,
+  SaveSlotStore,
+} from "@/lib/saveRepository";
+
+export const SAVES_ENDPOINT = "/api/saves";
+
+export type SaveListResponse = { slots: SaveSlot[]; limit: number };
+export type SaveSlotResponse = { slot: SaveSlotRecord };
+export type SaveCreateResponse = { save_slot: number };
+export type SlotUpdateRequest = Partial<SaveSlotContents> & {
+  base_last_save?: string | null;
+};
+export type AutosaveRequest = {
+  game_state: GameState;
+  base_last_save: string | null;
+};
+export type SnapshotRestoreRequest = {
+  snapshot_id: number;
+  base_last_save: string | null;
+};
+export type AutosaveResponse = { game_state: GameState; last_save: string };
+export type SaveApiErrorResponse = { error: string };
+export type SaveConflictResponse = SaveApiErrorResponse & {
+  last_save: string | null;
+};
+
+/**
+ * Browsers only let `keepalive` requests, which survive the page closing,
+ * carry about 64 KB.
+ */
+const KEEPALIVE_MAX_BODY_LENGTH = 60_000;
+
+type SaveApiRequest = { method: string; body?: unknown };
+
+function toRequestError(response: Response, payload: unknown): Error {
+  const error = (payload as Partial<SaveApiErrorResponse> | null)?.error;
+  return new Error(
+    typeof error === "string"
+      ? error
+      : `Save request failed (${response.status})`
+  );
+}
+
+type AccessTokenGetter = () => Promise<string | null>;
+
+/**
+ * Typed client for the `/api/saves` routes. Each request carries the Supabase
+ * access token; the server validates the payload and writes it with its own
+ * credentials.
+ */
+export function createSaveApiClient(
+  getAccessToken: AccessTokenGetter
+): SaveSlotStore {
+  const send = async (
+    path: string,
+    init: SaveApiRequest
+  ): Promise<{ response: Response; payload: unknown }> => {
+    const token = await getAccessToken();
+    const headers: Record<string, string> = {};
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    const body =
+      init.body === undefined ? undefined : JSON.stringify(init.body);
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    const response = await fetch(`${SAVES_ENDPOINT}${path}`, {
+      method: init.method,
+      headers,
+      body,
+      // Lets the save sent from `pagehide` finish after the tab is gone.
+      keepalive: body !== undefined && body.length <= KEEPALIVE_MAX_BODY_LENGTH,
+    });
+    const payload: unknown = await response.json().catch(() => null);
+    return { response, payload };
+  };
+
+  const request = async <T>(
+    path: string,
+    init: SaveApiRequest = { method: "GET" }
+  ): Promise<T> => {
+    const { response, payload } = await send(path, init);
+
+    if (!response.ok) {
+      throw toRequestError(response, payload);
+    }
+
+    return payload as T;
+  };
+
+  return {
+    listSlots: async () => (await request<SaveListResponse>("")).slots,
+    getSlotLimit: async () => (await request<SaveListResponse>("")).limit,
+    getSlot: async (slotNumber) =>
+      (await request<SaveSlotResponse>(`/${slotNumber}`)).slot,
+    createSlot: async (contents: Partial<SaveSlotContents> = {}) =>
+      (
+        await request<SaveCreateResponse>("", {
+          method: "POST",
+          body: contents,
+        })
+      ).save_slot,
+    updateSlot: async (slotNumber, changes, baseLastSave) => {
+      const body: SlotUpdateRequest =
+        baseLastSave === undefined
+          ? changes
+          : { ...changes, base_last_save: baseLastSave };
+      const { response, payload } = await send(`/${slotNumber}`, {
+        method: "PUT",
+        body,
+      });
+
+      if (response.status === 409) {
+        const conflict = payload as SaveConflictResponse;
+        return { ok: false, conflict: { lastSave: conflict.last_save } };
+      }
+      if (!response.ok) {
+        throw toRequestError(response, payload);
+      }
+      return { ok: true };
+    },
+    saveGameState: async (slotNumber, state, baseLastSave) => {
+      const body: AutosaveRequest = {
+        game_state: state,
+        base_last_save: baseLastSave,
+      };
+      const path = `/${slotNumber}/autosave`;
+      const { response, payload } = await send(path, { method: "POST", body });
+
+      if (response.status === 409) {
+        const conflict = payload as SaveConflictResponse;
+        return { ok: false, conflict: { lastSave: conflict.last_save } };
+      }
+      if (!response.ok) {
+        throw toRequestError(response, payload);
+      }
+
+      const saved = payload as AutosaveResponse;
+      return { ok: true, state: saved.game_state, lastSave: saved.last_save };
+    },
+    restoreSnapshot: async (slotNumber, snapshotId, baseLastSave) => {
+      const body: SnapshotRestoreRequest = {
+        snapshot_id: snapshotId,
+        base_last_save: baseLastSave,
+      };
+      const path = `/${slotNumber}/restore`;
+      const { response, payload } = await send(path, { method: "POST", body });
+
+      if (response.status === 409) {
+        const conflict = payload as SaveConflictResponse;
+        return { ok: false, conflict: { lastSave: conflict.last_save } };
+      }
+      if (!response.ok) {
+        throw toRequestError(response, payload);
+      }
+      return { ok: true };
+    },
+    deleteSlot: async (slotNumber) => {
+      await request(`/${slotNumber}`, { method: "DELETE" });
+    },
+  };
+}
@@ -0,0 +1,174 @@
+import type { GameState } from "@/lib/gameState";
+import type { JournalEntry, JournalFact } from "@/lib/journal";
+import type { SaveSnapshot, SaveSnapshotFields } from "@/lib/snapshots";
+
+export type SaveStorageKind = "supabase" | "local";
+
+export type SaveSlot = {
+  id: number;
+  save_slot: number;
+  /**
+   * Identity of the save held by the slot. ChatKit threads are scoped to it,
+   * so it is created with the slot and renewed when an import replaces the
+   * slot's contents with another save.
+   */
+  save_uid: string;
+  save_name: string | null;
+  character_name: string | null;
+  level: number | null;
+  location: string | null;
+  last_save: string | null;
+  game_state: unknown;
+};
+
+/** The editable columns of a slot. */
+export type SaveSlotContents = {
+  save_uid: string;
+  save_name: string | null;
+  character_name: string | null;
+  level: number | null;
+  location: string | null;
+  conversation_history: unknown;
+  game_state: unknown;
+  last_save: string | null;
+};
+
+export type SaveSlotRecord = SaveSlot & { conversation_history: unknown };
+
+/** A journal row without its storage ids, as copied between slots. */
+export type JournalEntryFields = Omit<JournalEntry, "id" | "save_slot">;
+
+export function toJournalEntryFields(entry: JournalEntry): JournalEntryFields {
+  return {
+    fact_id: entry.fact_id,
+    fact_text: entry.fact_text,
+    pinned: entry.pinned,
+    created_at: entry.created_at,
+    updated_at: entry.updated_at,
+  };
+}
+
+/** The save that won when a write was rejected. */
+export type SaveConflict = { lastSave: string | null };
+
+export type GameStateSaveResult =
+  | { ok: true; state: GameState; lastSave: string }
+  | { ok: false; conflict: SaveConflict };
+
+export type SlotUpdateResult =
+  { ok: true } | { ok: false; conflict: SaveConflict };
+
+/**
+ * Snapshots are written by the player's own client, so their state is checked
+ * again before it replaces the slot's; `invalid` says why it was refused.
+ */
+export type SnapshotRestoreResult =
+  SlotUpdateResult | { ok: false; invalid: string };
+
+/**
+ * Changes that replace the game state or its save time must say which save
+ * they were based on, so they cannot silently overwrite a newer one.
+ */
+export function requiresBaseLastSave(
+  changes: Partial<SaveSlotContents>
+): boolean {
+  return changes.game_state !== undefined || changes.last_save !== undefined;
+}
+
+/**
+ * The slot half of a save repository. The browser reaches Supabase slots
+ * through the `/api/saves` routes, which implement it on the server.
+ */
+export type SaveSlotStore = {
+  listSlots: () => Promise<SaveSlot[]>;
+  getSlotLimit: () => Promise<number>;
+  /** Throws when the slot does not exist. */
+  getSlot: (slotNumber: number) => Promise<SaveSlotRecord>;
+  /** Adds a slot in the lowest free position; throws at the slot limit. */
+  createSlot: (contents?: Partial<SaveSlotContents>) => Promise<number>;
+  /**
+   * Writes the changes. When they include `game_state` or `last_save`,
+   * `baseLastSave` is required and nothing is written unless the slot's
+   * `last_save` still equals it.
+   */
+  updateSlot: (
+    slotNumber: number,
+    changes: Partial<SaveSlotContents>,
+    baseLastSave?: string | null
+  ) => Promise<SlotUpdateResult>;
+  /**
+   * Stores the game state with its denormalised columns, provided the slot's
+   * `last_save` still equals `baseLastSave`. Otherwise another tab or device
+   * saved in between and nothing is written.
+   */
+  saveGameState: (
+    slotNumber: number,
+    state: GameState,
+    baseLastSave: string | null
+  ) => Promise<GameStateSaveResult>;
+  /**
+   * Rewinds the slot to one of its snapshots, replacing the game state and
+   * the journal at once and dropping the ChatKit thread. Like
+   * `saveGameState`, nothing is written when `baseLastSave` is stale.
+   */
+  restoreSnapshot: (
+    slotNumber: number,
+    snapshotId: number,
+    baseLastSave: string | null
+  ) => Promise<SnapshotRestoreResult>;
+  /** Deletes the slot together with its journal. */
+  deleteSlot: (slotNumber: number) => Promise<void>;
+};
+
+/**
+ * Storage for save slots and their journals. Every component that reads or
+ * writes a save goes through this, so the game runs the same on Supabase and
+ * on the browser-only store.
+ */
+export type SaveRepository = SaveSlotStore & {
+  readonly kind: SaveStorageKind;
+  /** Stable id of the storage owner, recorded in exported saves. */
+  readonly ownerId: string;
+  listJournal: (slotNumber: number) => Promise<JournalEntry[]>;
+  /** Stores a fact once; replaying the same `fact_id` is a no-op. */
+  recordJournalFact: (slotNumber: number, fact: JournalFact) => Promise<void>;
+  insertJournalEntries: (
+    slotNumber: number,
+    entries: JournalEntryFields[]
+  ) => Promise<void>;
+  setJournalEntryPinned: (
+    slotNumber: number,
+    factId: string,
+    pinned: boolean
+  ) => Promise<void>;
+  deleteJournalEntry: (slotNumber: number, factId: string) => Promise<void>;
+  clearJournal: (slotNumber: number) => Promise<void>;
+  /** Newest first. */
+  listSnapshots: (slotNumber: number) => Promise<SaveSnapshot[]>;
+  /** Stores a snapshot and keeps only the newest `retention` ones. */
+  addSnapshot: (
+    slotNumber: number,
+    snapshot: SaveSnapshotFields,
+    retention: number
+  ) => Promise<void>;
+};
+
+export function findFreeSlotNumber(slots: SaveSlot[]): number {
+  const used = new Set(slots.map((slot) => slot.save_slot));
+  let candidate = 1;
+  while (used.has(candidate)) {
+    candidate += 1;
+  }
+  return candidate;
+}
+
+const SAVE_UID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isSaveUid(value: string): boolean {
+  return SAVE_UID_PATTERN.test(value);
+}
+
+export function createSaveUid(): string {
+  return crypto.randomUUID();
+}
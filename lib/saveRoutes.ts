@@ -0,0 +1,99 @@
+import { authenticateRequest } from "@/lib/auth";
+import type { SaveApiErrorResponse } from "@/lib/saveApi";
+import type { SaveSlotStore } from "@/lib/saveRepository";
+import { parseSlotNumber } from "@/lib/saveValidation";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+import { createSupabaseSaveSlotStore } from "@/lib/supabaseSaveSlotStore";
+
+/** Game states stay far below this; anything larger is not a save. */
+export const MAX_SAVE_BODY_BYTES = 1_000_000;
+
+export type SlotRouteContext = { params: Promise<{ slot: string }> };
+
+export function jsonResponse(payload: unknown, status = 200): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export function errorResponse(error: string, status: number): Response {
+  const payload: SaveApiErrorResponse = { error };
+  return jsonResponse(payload, status);
+}
+
+/**
+ * Authenticates the request and runs `handler` with a slot store scoped to
+ * the caller. Database errors are mapped to HTTP statuses here so the routes
+ * only deal with the happy path.
+ */
+export async function withSaveSlotStore(
+  request: Request,
+  handler: (store: SaveSlotStore) => Promise<Response>
+): Promise<Response> {
+  const auth = await authenticateRequest(request);
+  if (!auth.ok) {
+    return errorResponse(auth.error, auth.status);
+  }
+
+  const client = createSupabaseAdminClient();
+  if (!client) {
+    return errorResponse(
+      "Missing SUPABASE_SERVICE_ROLE_KEY environment variable",
+      500
+    );
+  }
+
+  try {
+    return await handler(createSupabaseSaveSlotStore(client, auth.userId));
+  } catch (error) {
+    switch (readErrorCode(error)) {
+      case "PGRST116":
+        return errorResponse("Save slot not found", 404);
+      case "P0001":
+        return errorResponse("Save slot limit reached", 409);
+      case "23505":
+        return errorResponse("Save slot already exists", 409);
+      default:
+        console.error("[saves] request failed", error);
+        return errorResponse("Unexpected error", 500);
+    }
+  }
+}
+
+export async function readSlotParam(
+  context: SlotRouteContext
+): Promise<number | null> {
+  const { slot } = await context.params;
+  return parseSlotNumber(slot);
+}
+
+export type JsonBodyResult =
+  { ok: true; body: unknown } | { ok: false; response: Response };
+
+export async function readJsonBody(request: Request): Promise<JsonBodyResult> {
+  const text = await request.text();
+  if (new TextEncoder().encode(text).length > MAX_SAVE_BODY_BYTES) {
+    return {
+      ok: false,
+      response: errorResponse("Request body is too large", 413),
+    };
+  }
+
+  try {
+    return { ok: true, body: text ? JSON.parse(text) : {} };
+  } catch {
+    return {
+      ok: false,
+      response: errorResponse("Request body is not valid JSON", 400),
+    };
+  }
+}
+
+function readErrorCode(error: unknown): string | null {
+  if (!error || typeof error !== "object") {
+    return null;
+  }
+  const code = (error as { code?: unknown }).code;
+  return typeof code === "string" ? code : null;
+}
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createDefaultGameState } from "@/lib/gameState";
+import { createLocalSaveRepository } from "@/lib/localSaveRepository";
+import { fr } from "@/lib/messages/fr";
+import type { SaveRepository } from "@/lib/saveRepository";
+import { duplicateSaveSlot } from "@/lib/saveSlots";
+import { createMemoryStorage } from "@/lib/testing/memoryStorage";
+
+async function createAdventure(repository: SaveRepository): Promise<number> {
+  return repository.createSlot({
+    character_name: "Lucy",
+    game_state: createDefaultGameState(),
+    last_save: new Date().toISOString(),
+  });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("duplicateSaveSlot", () => {
+  it("copies the slot into a new one", async () => {
+    const repository = createLocalSaveRepository(createMemoryStorage());
+    const sourceSlot = await createAdventure(repository);
+
+    const slotNumber = await duplicateSaveSlot(
+      repository,
+      sourceSlot,
+      fr.slots
+    );
+
+    expect((await repository.getSlot(slotNumber)).character_name).toBe("Lucy");
+  });
+
+  it("removes the copy when its journal cannot be written", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const local = createLocalSaveRepository(createMemoryStorage());
+    const sourceSlot = await createAdventure(local);
+    const repository: SaveRepository = {
+      ...local,
+      insertJournalEntries: vi.fn().mockRejectedValue(new Error("Offline")),
+    };
+
+    await expect(
+      duplicateSaveSlot(repository, sourceSlot, fr.slots)
+    ).rejects.toThrow("Offline");
+
+    expect((await local.listSlots()).map((slot) => slot.save_slot)).toEqual([
+      sourceSlot,
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+import type { Messages } from "@/lib/messages/fr";
+import {
+  toJournalEntryFields,
+  type SaveRepository,
+} from "@/lib/saveRepository";
+
+export const MAX_SAVE_NAME_LENGTH = 60;
+
+/** Translated labels used to name a branched save. */
+export type BranchNameText = Pick<
+  Messages["slots"],
+  "branchName" | "slotLabel"
+>;
+
+/** Names a branch after the save it comes from, within the length limit. */
+export function buildBranchName(
+  source: { save_name: string | null; character_name: string | null },
+  sourceSlot: number,
+  text: BranchNameText
+): string {
+  const baseName =
+    source.save_name ?? source.character_name ?? text.slotLabel(sourceSlot);
+  return text.branchName(baseName).slice(0, MAX_SAVE_NAME_LENGTH);
+}
+
+/**
+ * Copies a slot and its journal into a free slot so the player can branch the
+ * adventure. ChatKit threads are scoped per save and the copy gets its own
+ * save uid, so the branch starts a new conversation from the copied game
+ * state.
+ */
+export async function duplicateSaveSlot(
+  repository: SaveRepository,
+  sourceSlot: number,
+  text: BranchNameText
+): Promise<number> {
+  const source = await repository.getSlot(sourceSlot);
+
+  const slotNumber = await repository.createSlot({
+    save_name: buildBranchName(source, sourceSlot, text),
+    character_name: source.character_name,
+    level: source.level,
+    location: source.location,
+    game_state: source.game_state,
+    conversation_history: null,
+    last_save: new Date().toISOString(),
+  });
+
+  await copyJournalIntoNewSlot(repository, sourceSlot, repository, slotNumber);
+  return slotNumber;
+}
+
+export async function renameSaveSlot(
+  repository: SaveRepository,
+  slotNumber: number,
+  name: string
+): Promise<void> {
+  const saveName = name.replace(/\s+/g, " ").trim();
+  if (!saveName) {
+    throw new Error("Save name cannot be empty");
+  }
+
+  await repository.updateSlot(slotNumber, {
+    save_name: saveName.slice(0, MAX_SAVE_NAME_LENGTH),
+  });
+}
+
+export type SaveMigrationResult = {
+  copied: number;
+  remaining: number;
+};
+
+/**
+ * Moves every slot of `source` into free slots of `target`, journal included.
+ * Each slot is removed from `source` only once its copy is complete, so an
+ * interrupted migration can simply be run again. Stops early when `target`
+ * has no free slot left.
+ */
+export async function migrateSaveSlots(
+  source: SaveRepository,
+  target: SaveRepository
+): Promise<SaveMigrationResult> {
+  const slots = await source.listSlots();
+  const [existing, limit] = await Promise.all([
+    target.listSlots(),
+    target.getSlotLimit(),
+  ]);
+  const available = Math.max(0, limit - existing.length);
+  let copied = 0;
+
+  for (const slot of slots.slice(0, available)) {
+    const record = await source.getSlot(slot.save_slot);
+    const slotNumber = await target.createSlot({
+      save_name: record.save_name,
+      character_name: record.character_name,
+      level: record.level,
+      location: record.location,
+      game_state: record.game_state,
+      // Threads belong to the source identity and cannot be reopened.
+      conversation_history: null,
+      last_save: record.last_save,
+    });
+    await copyJournalIntoNewSlot(source, slot.save_slot, target, slotNumber);
+    await source.deleteSlot(slot.save_slot);
+    copied += 1;
+  }
+
+  return { copied, remaining: slots.length - copied };
+}
+
+async function copyJournal(
+  source: SaveRepository,
+  sourceSlot: number,
+  target: SaveRepository,
+  targetSlot: number
+): Promise<void> {
+  const entries = await source.listJournal(sourceSlot);
+  await target.insertJournalEntries(
+    targetSlot,
+    entries.map(toJournalEntryFields)
+  );
+}
+
+/**
+ * Fills a slot that was just created for the copy. If the journal cannot be
+ * written the slot is removed again, so no half-copied save is left behind.
+ */
+async function copyJournalIntoNewSlot(
+  source: SaveRepository,
+  sourceSlot: number,
+  target: SaveRepository,
+  targetSlot: number
+): Promise<void> {
+  try {
+    await copyJournal(source, sourceSlot, target, targetSlot);
+  } catch (error) {
+    await target.deleteSlot(targetSlot).catch((cleanupError) => {
+      console.error("[save-slots] could not remove slot", cleanupError);
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createDefaultGameState } from "@/lib/gameState";
+import { createLocalSaveRepository } from "@/lib/localSaveRepository";
+import type { JournalEntryFields, SaveRepository } from "@/lib/saveRepository";
+import {
+  exportSaveSlot,
+  importSaveSlot,
+  parseSaveExport,
+  type ExportedSave,
+} from "@/lib/saveTransfer";
+import { createMemoryStorage } from "@/lib/testing/memoryStorage";
+
+const defaultSaveName = (characterName: string) => `Partie de ${characterName}`;
+
+function fact(factId: string, factText: string): JournalEntryFields {
+  return {
+    fact_id: factId,
+    fact_text: factText,
+    pinned: false,
+    created_at: "2026-01-01T00:00:00.000Z",
+    updated_at: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+async function createAdventure(
+  repository: SaveRepository,
+  characterName: string,
+  journal: JournalEntryFields[]
+): Promise<number> {
+  const slotNumber = await repository.createSlot({
+    character_name: characterName,
+    game_state: createDefaultGameState(),
+    last_save: new Date().toISOString(),
+  });
+  await repository.insertJournalEntries(slotNumber, journal);
+  return slotNumber;
+}
+
+async function exportAdventure(
+  journal: JournalEntryFields[]
+): Promise<ExportedSave> {
+  const repository = createLocalSaveRepository(createMemoryStorage());
+  const slotNumber = await createAdventure(repository, "Lucy", journal);
+  return (await exportSaveSlot(repository, slotNumber)).save;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("parseSaveExport", () => {
+  it("refuses a journal that repeats a fact id", async () => {
+    const repository = createLocalSaveRepository(createMemoryStorage());
+    const slotNumber = await createAdventure(repository, "Lucy", [
+      fact("met-natsu", "Lucy a rencontré Natsu."),
+      fact("met-natsu", "Lucy a rencontré Natsu à Hargeon."),
+    ]);
+    const exported = await exportSaveSlot(repository, slotNumber);
+
+    const parsed = await parseSaveExport(JSON.stringify(exported));
+
+    expect(parsed).toEqual({
+      ok: false,
+      reason: "invalidJournal",
+      error: "Duplicate journal fact ids",
+    });
+  });
+});
+
+describe("importSaveSlot", () => {
+  it("replaces the slot's state and journal", async () => {
+    const save = await exportAdventure([fact("joined", "Lucy a rejoint.")]);
+    const repository = createLocalSaveRepository(createMemoryStorage());
+    const slotNumber = await createAdventure(repository, "Erza", [
+      fact("armor", "Erza a changé d'armure."),
+    ]);
+
+    await importSaveSlot(repository, slotNumber, save, defaultSaveName);
+
+    expect((await repository.getSlot(slotNumber)).character_name).toBe("Lucy");
+    expect(
+      (await repository.listJournal(slotNumber)).map((entry) => entry.fact_id)
+    ).toEqual(["joined"]);
+  });
+
+  it("keeps the slot and its journal when the slot write fails", async () => {
+    const save = await exportAdventure([fact("joined", "Lucy a rejoint.")]);
+    const local = createLocalSaveRepository(createMemoryStorage());
+    const slotNumber = await createAdventure(local, "Erza", [
+      fact("armor", "Erza a changé d'armure."),
+    ]);
+    const before = await local.getSlot(slotNumber);
+    const repository: SaveRepository = {
+      ...local,
+      updateSlot: vi.fn().mockRejectedValue(new Error("Network error")),
+    };
+
+    await expect(
+      importSaveSlot(repository, slotNumber, save, defaultSaveName)
+    ).rejects.toThrow("Network error");
+
+    expect(await local.getSlot(slotNumber)).toEqual(before);
+    expect(
+      (await local.listJournal(slotNumber)).map((entry) => entry.fact_id)
+    ).toEqual(["armor"]);
+  });
+
+  it("keeps the slot and its journal when the journal write fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const save = await exportAdventure([fact("joined", "Lucy a rejoint.")]);
+    const local = createLocalSaveRepository(createMemoryStorage());
+    const slotNumber = await createAdventure(local, "Erza", [
+      fact("armor", "Erza a changé d'armure."),
+    ]);
+    const before = await local.getSlot(slotNumber);
+    const repository: SaveRepository = {
+      ...local,
+      insertJournalEntries: vi
+        .fn(local.insertJournalEntries)
+        .mockRejectedValueOnce(new Error("duplicate key value")),
+    };
+
+    await expect(
+      importSaveSlot(repository, slotNumber, save, defaultSaveName)
+    ).rejects.toThrow("duplicate key value");
+
+    expect(await local.getSlot(slotNumber)).toEqual(before);
+    expect(
+      (await local.listJournal(slotNumber)).map((entry) => entry.fact_id)
+    ).toEqual(["armor"]);
+  });
+
+  it("puts the journal back when the slot was saved meanwhile", async () => {
+    const save = await exportAdventure([fact("joined", "Lucy a rejoint.")]);
+    const repository = createLocalSaveRepository(createMemoryStorage());
+    const slotNumber = await createAdventure(repository, "Erza", [
+      fact("armor", "Erza a changé d'armure."),
+    ]);
+    const updateSlot = repository.updateSlot;
+    repository.updateSlot = async (slot, changes) =>
+      updateSlot(slot, changes, "2000-01-01T00:00:00.000Z");
+
+    await expect(
+      importSaveSlot(repository, slotNumber, save, defaultSaveName)
+    ).rejects.toThrow("was saved while being imported");
+
+    expect((await repository.getSlot(slotNumber)).character_name).toBe("Erza");
+    expect(
+      (await repository.listJournal(slotNumber)).map((entry) => entry.fact_id)
+    ).toEqual(["armor"]);
+  });
+});
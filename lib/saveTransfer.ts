@@ -0,0 +1,405 @@
+import { parseGameState, type GameState } from "@/lib/gameState";
+import { MAX_CHARACTER_NAME_LENGTH } from "@/lib/character";
+import { MAX_SAVE_NAME_LENGTH } from "@/lib/saveSlots";
+import { readThreadId } from "@/lib/saves";
+import {
+  createSaveUid,
+  toJournalEntryFields,
+  type JournalEntryFields,
+  type SaveRepository,
+} from "@/lib/saveRepository";
+
+export const SAVE_EXPORT_FORMAT = "fairy-tail-rpg/save";
+export const SAVE_EXPORT_VERSION = 1;
+
+export type ExportedJournalFact = JournalEntryFields;
+
+export type ExportedSave = {
+  /** `save_uid` is null in files exported before saves had one. */
+  source: { user_id: string; save_slot: number; save_uid: string | null };
+  save_name: string | null;
+  character_name: string;
+  thread_id: string | null;
+  game_state: GameState;
+  journal: ExportedJournalFact[];
+};
+
+export type SaveExportDocument = {
+  format: typeof SAVE_EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  checksum: string;
+  save: ExportedSave;
+};
+
+/** Why a file was refused, as a key of the interface's translated reasons. */
+export type SaveImportRejection =
+  | "notJson"
+  | "notSaveExport"
+  | "missingVersion"
+  | "newerVersion"
+  | "incomplete"
+  | "checksum"
+  | "invalidSource"
+  | "invalidCharacterName"
+  | "invalidSaveName"
+  | "invalidThread"
+  | "invalidJournal"
+  | "invalidGameState";
+
+export type SaveImportParseResult =
+  | { ok: true; save: ExportedSave; migrated: boolean }
+  | { ok: false; reason: SaveImportRejection; error: string };
+
+type RawRecord = Record<string, unknown>;
+
+/** JSON with sorted keys, so the checksum does not depend on key order. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as RawRecord)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([left], [right]) => (left < right ? -1 : left > right ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Detects files that were truncated or damaged on the way. It is not a
+ * signature: anyone can edit a file and recompute it, so imported contents
+ * are validated like any other player input.
+ */
+async function computeChecksum(save: unknown): Promise<string> {
+  const bytes = new TextEncoder().encode(canonicalJson(save));
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `sha256:${hex}`;
+}
+
+export async function exportSaveSlot(
+  repository: SaveRepository,
+  slotNumber: number
+): Promise<SaveExportDocument> {
+  const row = await repository.getSlot(slotNumber);
+  if (!row.character_name) {
+    throw new Error(`Slot ${slotNumber} has no adventure to export`);
+  }
+
+  const parsed = parseGameState(row.game_state);
+  if (!parsed.ok) {
+    throw new Error(
+      `Invalid game state in slot ${slotNumber}: ${parsed.error}`
+    );
+  }
+
+  const journal = await repository.listJournal(slotNumber);
+
+  const save: ExportedSave = {
+    source: {
+      user_id: repository.ownerId,
+      save_slot: slotNumber,
+      save_uid: row.save_uid,
+    },
+    save_name: row.save_name,
+    character_name: row.character_name,
+    thread_id: readThreadId(row.conversation_history),
+    game_state: parsed.state,
+    journal: journal.map(toJournalEntryFields).reverse(),
+  };
+
+  return {
+    format: SAVE_EXPORT_FORMAT,
+    version: SAVE_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    checksum: await computeChecksum(save),
+    save,
+  };
+}
+
+/**
+ * Parses an exported file. The checksum is verified against the raw `save`
+ * payload before anything else is read, then every field is validated and the
+ * game state goes through the regular migrations so files from older releases
+ * still load.
+ */
+export async function parseSaveExport(
+  text: string
+): Promise<SaveImportParseResult> {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return {
+      ok: false,
+      reason: "notJson",
+      error: "The file is not valid JSON",
+    };
+  }
+
+  if (!isRecord(payload) || payload.format !== SAVE_EXPORT_FORMAT) {
+    return {
+      ok: false,
+      reason: "notSaveExport",
+      error: "The file is not a save export",
+    };
+  }
+  if (
+    typeof payload.version !== "number" ||
+    !Number.isInteger(payload.version) ||
+    payload.version < 1
+  ) {
+    return {
+      ok: false,
+      reason: "missingVersion",
+      error: "The export version is missing",
+    };
+  }
+  if (payload.version > SAVE_EXPORT_VERSION) {
+    return {
+      ok: false,
+      reason: "newerVersion",
+      error: `Export version ${payload.version} is newer than supported version ${SAVE_EXPORT_VERSION}`,
+    };
+  }
+  if (typeof payload.checksum !== "string" || !isRecord(payload.save)) {
+    return {
+      ok: false,
+      reason: "incomplete",
+      error: "The export is incomplete",
+    };
+  }
+  if ((await computeChecksum(payload.save)) !== payload.checksum) {
+    return {
+      ok: false,
+      reason: "checksum",
+      error: "Checksum mismatch: the file is damaged or incomplete",
+    };
+  }
+
+  const save = payload.save;
+  const source = save.source;
+  if (
+    !isRecord(source) ||
+    typeof source.user_id !== "string" ||
+    typeof source.save_slot !== "number" ||
+    (source.save_uid !== undefined &&
+      source.save_uid !== null &&
+      typeof source.save_uid !== "string")
+  ) {
+    return {
+      ok: false,
+      reason: "invalidSource",
+      error: "Invalid source slot",
+    };
+  }
+  if (
+    typeof save.character_name !== "string" ||
+    !save.character_name.trim() ||
+    save.character_name.length > MAX_CHARACTER_NAME_LENGTH
+  ) {
+    return {
+      ok: false,
+      reason: "invalidCharacterName",
+      error: "Invalid character name",
+    };
+  }
+  if (
+    save.save_name !== null &&
+    (typeof save.save_name !== "string" ||
+      save.save_name.length > MAX_SAVE_NAME_LENGTH)
+  ) {
+    return {
+      ok: false,
+      reason: "invalidSaveName",
+      error: "Invalid save name",
+    };
+  }
+  if (save.thread_id !== null && typeof save.thread_id !== "string") {
+    return {
+      ok: false,
+      reason: "invalidThread",
+      error: "Invalid thread reference",
+    };
+  }
+  if (!Array.isArray(save.journal) || !save.journal.every(isJournalFact)) {
+    return {
+      ok: false,
+      reason: "invalidJournal",
+      error: "Invalid journal entries",
+    };
+  }
+  // A slot stores each fact once, so a file repeating one could not be
+  // written back.
+  const factIds = new Set(save.journal.map((fact) => fact.fact_id));
+  if (factIds.size !== save.journal.length) {
+    return {
+      ok: false,
+      reason: "invalidJournal",
+      error: "Duplicate journal fact ids",
+    };
+  }
+
+  const parsed = parseGameState(save.game_state);
+  if (!parsed.ok) {
+    return {
+      ok: false,
+      reason: "invalidGameState",
+      error: `Invalid game state: ${parsed.error}`,
+    };
+  }
+
+  return {
+    ok: true,
+    migrated: parsed.migrated,
+    save: {
+      source: {
+        user_id: source.user_id,
+        save_slot: source.save_slot,
+        save_uid: source.save_uid ?? null,
+      },
+      save_name: save.save_name,
+      character_name: save.character_name.trim(),
+      thread_id: save.thread_id,
+      game_state: parsed.state,
+      journal: save.journal,
+    },
+  };
+}
+
+/**
+ * Writes an imported save into `slotNumber`, replacing its contents and
+ * journal. Saves exported without a name get `defaultSaveName`, translated by
+ * the caller. ChatKit threads are scoped to a player's save, so the thread
+ * reference is only kept when the file is restored over the save it came
+ * from; any other import gives the slot a new save uid.
+ *
+ * The journal is written first and the slot last, behind its `last_save`
+ * check. If either write fails the previous journal is put back, so the slot
+ * keeps its game state and journal together.
+ */
+export async function importSaveSlot(
+  repository: SaveRepository,
+  slotNumber: number,
+  save: ExportedSave,
+  defaultSaveName: (characterName: string) => string
+): Promise<void> {
+  const now = new Date().toISOString();
+  const [target, previousJournal] = await Promise.all([
+    repository.getSlot(slotNumber),
+    repository.listJournal(slotNumber),
+  ]);
+  const sameSave =
+    save.source.user_id === repository.ownerId &&
+    save.source.save_uid === target.save_uid;
+
+  try {
+    await replaceJournal(repository, slotNumber, save.journal);
+    const result = await repository.updateSlot(
+      slotNumber,
+      {
+        ...buildImportedContents(save, now, defaultSaveName),
+        save_uid: sameSave ? target.save_uid : createSaveUid(),
+        conversation_history:
+          sameSave && save.thread_id
+            ? { thread_id: save.thread_id, updated_at: now }
+            : null,
+      },
+      target.last_save
+    );
+    if (!result.ok) {
+      throw new Error(`Slot ${slotNumber} was saved while being imported`);
+    }
+  } catch (error) {
+    await replaceJournal(
+      repository,
+      slotNumber,
+      previousJournal.map(toJournalEntryFields).reverse()
+    ).catch((rollbackError) => {
+      console.error("[save-transfer] could not restore journal", rollbackError);
+    });
+    throw error;
+  }
+}
+
+async function replaceJournal(
+  repository: SaveRepository,
+  slotNumber: number,
+  entries: JournalEntryFields[]
+): Promise<void> {
+  await repository.clearJournal(slotNumber);
+  await repository.insertJournalEntries(slotNumber, entries);
+}
+
+/**
+ * Writes an imported save into a new slot. The slot is created with the save's
+ * contents rather than empty, and removed again if its journal cannot be
+ * written, so a failed import never leaves a blank slot behind.
+ */
+export async function importSaveAsNewSlot(
+  repository: SaveRepository,
+  save: ExportedSave,
+  defaultSaveName: (characterName: string) => string
+): Promise<number> {
+  const slotNumber = await repository.createSlot({
+    ...buildImportedContents(save, new Date().toISOString(), defaultSaveName),
+    conversation_history: null,
+  });
+  try {
+    await repository.insertJournalEntries(slotNumber, save.journal);
+  } catch (error) {
+    await repository.deleteSlot(slotNumber).catch((cleanupError) => {
+      console.error("[save-transfer] could not remove slot", cleanupError);
+    });
+    throw error;
+  }
+  return slotNumber;
+}
+
+function buildImportedContents(
+  save: ExportedSave,
+  now: string,
+  defaultSaveName: (characterName: string) => string
+) {
+  const gameState: GameState = { ...save.game_state, last_activity: now };
+  return {
+    save_name: save.save_name ?? defaultSaveName(save.character_name),
+    character_name: save.character_name,
+    level: gameState.stats.level,
+    location: gameState.location,
+    game_state: gameState,
+    last_save: now,
+  };
+}
+
+export function getExportFileName(exported: SaveExportDocument): string {
+  const name = exported.save.character_name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+  const date = exported.exported_at.slice(0, 10);
+  return `fairy-tail-slot-${exported.save.source.save_slot}-${name || "save"}-${date}.json`;
+}
+
+function isJournalFact(value: unknown): value is ExportedJournalFact {
+  return (
+    isRecord(value) &&
+    typeof value.fact_id === "string" &&
+    value.fact_id.length > 0 &&
+    typeof value.fact_text === "string" &&
+    typeof value.pinned === "boolean" &&
+    typeof value.created_at === "string" &&
+    typeof value.updated_at === "string"
+  );
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
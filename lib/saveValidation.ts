@@ -0,0 +1,274 @@
+import { parseGameState, type GameState } from "@/lib/gameState";
+import { MAX_CHARACTER_NAME_LENGTH } from "@/lib/character";
+import { MAX_LEVEL } from "@/lib/gameTools";
+import {
+  isSaveUid,
+  requiresBaseLastSave,
+  type SaveSlotContents,
+} from "@/lib/saveRepository";
+import { MAX_SAVE_NAME_LENGTH } from "@/lib/saveSlots";
+
+export const MAX_SAVE_SLOT_NUMBER = 100;
+export const MAX_LOCATION_LENGTH = 120;
+
+export type SaveValidationResult<T> =
+  { ok: true; value: T } | { ok: false; error: string };
+
+type FieldValidator = (
+  value: unknown
+) => SaveValidationResult<SaveSlotContents[keyof SaveSlotContents]>;
+
+function invalid(error: string): { ok: false; error: string } {
+  return { ok: false, error };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readOptionalText(field: string, maxLength: number): FieldValidator {
+  return (value) => {
+    if (value === null) {
+      return { ok: true, value: null };
+    }
+    if (typeof value !== "string") {
+      return invalid(`${field} must be a string or null`);
+    }
+    const text = value.replace(/\s+/g, " ").trim();
+    if (!text) {
+      return invalid(`${field} cannot be empty`);
+    }
+    if (text.length > maxLength) {
+      return invalid(`${field} must be at most ${maxLength} characters`);
+    }
+    return { ok: true, value: text };
+  };
+}
+
+/**
+ * Parses a game state and applies the same bounds as the slot columns it is
+ * denormalised into.
+ */
+export function readGameState(value: unknown): SaveValidationResult<GameState> {
+  const parsed = parseGameState(value);
+  if (!parsed.ok) {
+    return invalid(`game_state is invalid: ${parsed.error}`);
+  }
+
+  const { level } = parsed.state.stats;
+  if (!Number.isInteger(level) || level < 1 || level > MAX_LEVEL) {
+    return invalid(`level must be an integer between 1 and ${MAX_LEVEL}`);
+  }
+  const { location } = parsed.state;
+  if (location !== null && location.length > MAX_LOCATION_LENGTH) {
+    return invalid(
+      `location must be at most ${MAX_LOCATION_LENGTH} characters`
+    );
+  }
+
+  return { ok: true, value: parsed.state };
+}
+
+const FIELD_VALIDATORS: Record<keyof SaveSlotContents, FieldValidator> = {
+  save_uid: (value) =>
+    typeof value === "string" && isSaveUid(value)
+      ? { ok: true, value: value.toLowerCase() }
+      : invalid("save_uid must be a UUID"),
+  save_name: readOptionalText("save_name", MAX_SAVE_NAME_LENGTH),
+  character_name: readOptionalText("character_name", MAX_CHARACTER_NAME_LENGTH),
+  location: readOptionalText("location", MAX_LOCATION_LENGTH),
+  level: (value) => {
+    if (value === null) {
+      return { ok: true, value: null };
+    }
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < 1 ||
+      value > MAX_LEVEL
+    ) {
+      return invalid(`level must be an integer between 1 and ${MAX_LEVEL}`);
+    }
+    return { ok: true, value };
+  },
+  last_save: (value) => {
+    if (value === null) {
+      return { ok: true, value: null };
+    }
+    if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+      return invalid("last_save must be an ISO date or null");
+    }
+    return { ok: true, value: new Date(value).toISOString() };
+  },
+  conversation_history: (value) => {
+    if (value === null) {
+      return { ok: true, value: null };
+    }
+    if (!isRecord(value)) {
+      return invalid("conversation_history must be an object or null");
+    }
+    const threadId = value.thread_id ?? null;
+    if (threadId !== null && typeof threadId !== "string") {
+      return invalid("conversation_history.thread_id must be a string");
+    }
+    return {
+      ok: true,
+      value: { thread_id: threadId, updated_at: new Date().toISOString() },
+    };
+  },
+  // Stored slots always hold a current, migrated state.
+  game_state: (value) =>
+    value === null ? { ok: true, value: null } : readGameState(value),
+};
+
+/** Parses the `[slot]` route segment. */
+export function parseSlotNumber(raw: string): number | null {
+  if (!/^\d+$/.test(raw)) {
+    return null;
+  }
+  const slotNumber = Number(raw);
+  return slotNumber >= 1 && slotNumber <= MAX_SAVE_SLOT_NUMBER
+    ? slotNumber
+    : null;
+}
+
+/**
+ * Validates the columns a client may write to a slot. Unknown fields are
+ * rejected rather than ignored so a typo never silently drops data. When a
+ * game state is written, `level` and `location` are taken from it to keep the
+ * slot cards consistent with the save.
+ */
+export function validateSlotChanges(
+  raw: unknown
+): SaveValidationResult<Partial<SaveSlotContents>> {
+  if (!isRecord(raw)) {
+    return invalid("Request body must be a JSON object");
+  }
+
+  const changes: Partial<Record<keyof SaveSlotContents, unknown>> = {};
+  for (const [field, value] of Object.entries(raw)) {
+    if (!Object.prototype.hasOwnProperty.call(FIELD_VALIDATORS, field)) {
+      return invalid(`Unknown field: ${field}`);
+    }
+    const key = field as keyof SaveSlotContents;
+    const result = FIELD_VALIDATORS[key](value);
+    if (!result.ok) {
+      return result;
+    }
+    changes[key] = result.value;
+  }
+
+  const state = changes.game_state as GameState | null | undefined;
+  if (state) {
+    changes.level = state.stats.level;
+    changes.location = state.location;
+  }
+
+  return { ok: true, value: changes as Partial<SaveSlotContents> };
+}
+
+function readBaseLastSave(value: unknown): SaveValidationResult<string | null> {
+  if (
+    value !== null &&
+    (typeof value !== "string" || Number.isNaN(Date.parse(value)))
+  ) {
+    return invalid("base_last_save must be an ISO date or null");
+  }
+  return { ok: true, value };
+}
+
+export type SlotUpdatePayload = {
+  changes: Partial<SaveSlotContents>;
+  /** Absent for changes that leave the game state alone. */
+  baseLastSave?: string | null;
+};
+
+/**
+ * Validates a slot update. `base_last_save` is required as soon as the update
+ * replaces `game_state` or `last_save`.
+ */
+export function validateSlotUpdate(
+  raw: unknown
+): SaveValidationResult<SlotUpdatePayload> {
+  if (!isRecord(raw)) {
+    return invalid("Request body must be a JSON object");
+  }
+
+  const { base_last_save: rawBaseLastSave, ...fields } = raw;
+  const changes = validateSlotChanges(fields);
+  if (!changes.ok) {
+    return changes;
+  }
+  if (rawBaseLastSave === undefined) {
+    return requiresBaseLastSave(changes.value)
+      ? invalid("base_last_save is required to replace the game state")
+      : { ok: true, value: { changes: changes.value } };
+  }
+
+  const baseLastSave = readBaseLastSave(rawBaseLastSave);
+  if (!baseLastSave.ok) {
+    return baseLastSave;
+  }
+  return {
+    ok: true,
+    value: { changes: changes.value, baseLastSave: baseLastSave.value },
+  };
+}
+
+export type SnapshotRestorePayload = {
+  snapshotId: number;
+  baseLastSave: string | null;
+};
+
+export function validateSnapshotRestore(
+  raw: unknown
+): SaveValidationResult<SnapshotRestorePayload> {
+  if (
+    !isRecord(raw) ||
+    typeof raw.snapshot_id !== "number" ||
+    !Number.isSafeInteger(raw.snapshot_id) ||
+    raw.snapshot_id < 1
+  ) {
+    return invalid("snapshot_id must be a positive integer");
+  }
+
+  const baseLastSave = readBaseLastSave(raw.base_last_save);
+  if (!baseLastSave.ok) {
+    return baseLastSave;
+  }
+
+  return {
+    ok: true,
+    value: { snapshotId: raw.snapshot_id, baseLastSave: baseLastSave.value },
+  };
+}
+
+export type AutosavePayload = { state: GameState; baseLastSave: string | null };
+
+/** Validates the body of `POST /api/saves/[slot]/autosave`. */
+export function validateAutosave(
+  raw: unknown
+): SaveValidationResult<AutosavePayload> {
+  if (
+    !isRecord(raw) ||
+    raw.game_state === undefined ||
+    raw.game_state === null
+  ) {
+    return invalid("Request body must contain a game_state");
+  }
+
+  const baseLastSave = readBaseLastSave(raw.base_last_save);
+  if (!baseLastSave.ok) {
+    return baseLastSave;
+  }
+
+  const state = readGameState(raw.game_state);
+  if (!state.ok) {
+    return state;
+  }
+
+  return {
+    ok: true,
+    value: { state: state.value, baseLastSave: baseLastSave.value },
+  };
+}
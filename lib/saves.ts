@@ -0,0 +1,82 @@
+import {
+  mergeGameState,
+  parseGameState,
+  type GameState,
+  type GameStateParseResult,
+} from "@/lib/gameState";
+import type { SaveSlotContents, SaveSlotStore } from "@/lib/saveRepository";
+
+export type SaveStateColumns = {
+  game_state: unknown;
+  level: number | null;
+  location: string | null;
+};
+
+/** Reads the active ChatKit thread stored in `conversation_history`. */
+export function readThreadId(conversationHistory: unknown): string | null {
+  if (!conversationHistory || typeof conversationHistory !== "object") {
+    return null;
+  }
+  const threadId = (conversationHistory as { thread_id?: unknown }).thread_id;
+  return typeof threadId === "string" && threadId ? threadId : null;
+}
+
+/**
+ * Parses a save row's game state. Rows that predate the typed state carry
+ * their level and location only in the legacy columns, so those seed the
+ * migrated state instead of being reset to defaults.
+ */
+export function parseSaveState(row: SaveStateColumns): GameStateParseResult {
+  const parsed = parseGameState(row.game_state);
+  if (!parsed.ok || (row.game_state && !parsed.migrated)) {
+    return parsed;
+  }
+
+  return {
+    ...parsed,
+    state: mergeGameState(parsed.state, {
+      location: row.location ?? parsed.state.location,
+      stats: { level: row.level ?? parsed.state.stats.level },
+    }),
+  };
+}
+
+export type GameStateChanges = Pick<
+  SaveSlotContents,
+  "game_state" | "level" | "location"
+> & { last_save: string };
+
+/**
+ * Stamps `state` with the save time and returns it with the slot columns to
+ * write: the denormalised `level` and `location` shown on slot cards.
+ */
+export function buildGameStateChanges(state: GameState): {
+  state: GameState;
+  changes: GameStateChanges;
+} {
+  const now = new Date().toISOString();
+  const nextState: GameState = { ...state, last_activity: now };
+
+  return {
+    state: nextState,
+    changes: {
+      game_state: nextState,
+      level: nextState.stats.level,
+      location: nextState.location,
+      last_save: now,
+    },
+  };
+}
+
+export async function persistThreadId(
+  repository: SaveSlotStore,
+  slotId: number,
+  threadId: string | null
+): Promise<void> {
+  await repository.updateSlot(slotId, {
+    conversation_history: {
+      thread_id: threadId,
+      updated_at: new Date().toISOString(),
+    },
+  });
+}
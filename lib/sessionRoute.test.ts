@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  extractUpstreamError,
+  getCookieValue,
+  resolveUserId,
+  serializeSessionCookie,
+} from "@/lib/sessionRoute";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("resolveUserId", () => {
+  it("creates an anonymous id and the cookie that keeps it", async () => {
+    const identity = await resolveUserId(
+      new Request("http://localhost/api/create-session")
+    );
+
+    expect(identity.ok).toBe(true);
+    if (!identity.ok) return;
+    const sessionId = identity.userId.replace(/^anon:/, "");
+    expect(identity.authenticated).toBe(false);
+    expect(identity.sessionCookie).toBe(serializeSessionCookie(sessionId));
+  });
+
+  it("reads a returning browser's id from its cookie", async () => {
+    const identity = await resolveUserId(
+      new Request("http://localhost/api/create-session", {
+        headers: { Cookie: "theme=dark; chatkit_session_id=abc-123" },
+      })
+    );
+
+    expect(identity).toEqual({
+      ok: true,
+      userId: "anon:abc-123",
+      authenticated: false,
+      sessionCookie: null,
+    });
+  });
+
+  it("verifies a bearer token instead of trusting the cookie", async () => {
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "");
+
+    const identity = await resolveUserId(
+      new Request("http://localhost/api/create-session", {
+        headers: {
+          Authorization: "Bearer token",
+          Cookie: "chatkit_session_id=abc-123",
+        },
+      })
+    );
+
+    expect(identity).toEqual({
+      ok: false,
+      status: 500,
+      error: "Missing Supabase environment variables",
+    });
+  });
+});
+
+describe("getCookieValue", () => {
+  it("finds a cookie among others and keeps `=` in its value", () => {
+    expect(
+      getCookieValue("a=1; chatkit_session_id=x=y; b=2", "chatkit_session_id")
+    ).toBe("x=y");
+  });
+
+  it("ignores missing headers, bare names and other cookies", () => {
+    expect(getCookieValue(null, "chatkit_session_id")).toBeNull();
+    expect(
+      getCookieValue("chatkit_session_id", "chatkit_session_id")
+    ).toBeNull();
+    expect(
+      getCookieValue("chatkit_session_idx=1", "chatkit_session_id")
+    ).toBeNull();
+  });
+});
+
+describe("serializeSessionCookie", () => {
+  it("keeps the id for 30 days out of reach of scripts", () => {
+    expect(serializeSessionCookie("a b")).toBe(
+      "chatkit_session_id=a%20b; Path=/; Max-Age=2592000; HttpOnly; SameSite=Lax"
+    );
+  });
+
+  it("is only sent over HTTPS in production", () => {
+    vi.stubEnv("NODE_ENV", "production");
+
+    expect(serializeSessionCookie("id")).toMatch(/; Secure$/);
+  });
+});
+
+describe("extractUpstreamError", () => {
+  it.each([
+    [{ error: "plain" }, "plain"],
+    [{ error: { message: "nested" } }, "nested"],
+    [{ details: "in details" }, "in details"],
+    [{ details: { error: "detail error" } }, "detail error"],
+    [{ details: { error: { message: "detail message" } } }, "detail message"],
+    [{ message: "top-level" }, "top-level"],
+  ])("reads %j", (payload, expected) => {
+    expect(extractUpstreamError(payload)).toBe(expected);
+  });
+
+  it("returns null when there is no message", () => {
+    expect(extractUpstreamError(undefined)).toBeNull();
+    expect(extractUpstreamError({})).toBeNull();
+    expect(extractUpstreamError({ error: { code: 42 } })).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { authenticateRequest } from "@/lib/auth";
+
+export const SESSION_COOKIE_NAME = "chatkit_session_id";
+const SESSION_COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+
+export type UserIdentity =
+  | {
+      ok: true;
+      userId: string;
+      authenticated: boolean;
+      sessionCookie: string | null;
+    }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Signed-in players are identified by their verified Supabase user id.
+ * Requests without a token come from local-save play and get an anonymous
+ * per-browser id instead; the `anon:` prefix keeps a forged cookie from ever
+ * matching a real account.
+ */
+export async function resolveUserId(request: Request): Promise<UserIdentity> {
+  if (request.headers.has("authorization")) {
+    const auth = await authenticateRequest(request);
+    return auth.ok
+      ? {
+          ok: true,
+          userId: auth.userId,
+          authenticated: true,
+          sessionCookie: null,
+        }
+      : auth;
+  }
+
+  const existing = getCookieValue(
+    request.headers.get("cookie"),
+    SESSION_COOKIE_NAME
+  );
+  if (existing) {
+    return {
+      ok: true,
+      userId: `anon:${existing}`,
+      authenticated: false,
+      sessionCookie: null,
+    };
+  }
+
+  const generated =
+    typeof crypto.randomUUID === "function"
+      ? crypto.randomUUID()
+      : Math.random().toString(36).slice(2);
+
+  return {
+    ok: true,
+    userId: `anon:${generated}`,
+    authenticated: false,
+    sessionCookie: serializeSessionCookie(generated),
+  };
+}
+
+export function getCookieValue(
+  cookieHeader: string | null,
+  name: string
+): string | null {
+  if (!cookieHeader) {
+    return null;
+  }
+
+  const cookies = cookieHeader.split(";");
+  for (const cookie of cookies) {
+    const [rawName, ...rest] = cookie.split("=");
+    if (!rawName || rest.length === 0) {
+      continue;
+    }
+    if (rawName.trim() === name) {
+      return rest.join("=").trim();
+    }
+  }
+  return null;
+}
+
+export function serializeSessionCookie(value: string): string {
+  const attributes = [
+    `${SESSION_COOKIE_NAME}=${encodeURIComponent(value)}`,
+    "Path=/",
+    `Max-Age=${SESSION_COOKIE_MAX_AGE}`,
+    "HttpOnly",
+    "SameSite=Lax",
+  ];
+
+  if (process.env.NODE_ENV === "production") {
+    attributes.push("Secure");
+  }
+  return attributes.join("; ");
+}
+
+/**
+ * The message of a failed ChatKit response, which depending on the endpoint
+ * sits in `error`, `error.message`, `details` or `message`.
+ */
+export function extractUpstreamError(
+  payload: Record<string, unknown> | undefined
+): string | null {
+  if (!payload) {
+    return null;
+  }
+
+  const error = payload.error;
+  if (typeof error === "string") {
+    return error;
+  }
+
+  if (
+    error &&
+    typeof error === "object" &&
+    "message" in error &&
+    typeof (error as { message?: unknown }).message === "string"
+  ) {
+    return (error as { message: string }).message;
+  }
+
+  const details = payload.details;
+  if (typeof details === "string") {
+    return details;
+  }
+
+  if (details && typeof details === "object" && "error" in details) {
+    const nestedError = (details as { error?: unknown }).error;
+    if (typeof nestedError === "string") {
+      return nestedError;
+    }
+    if (
+      nestedError &&
+      typeof nestedError === "object" &&
+      "message" in nestedError &&
+      typeof (nestedError as { message?: unknown }).message === "string"
+    ) {
+      return (nestedError as { message: string }).message;
+    }
+  }
+
+  if (typeof payload.message === "string") {
+    return payload.message;
+  }
+  return null;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultGameState, type GameState } from "@/lib/gameState";
+import type { SaveSlotRecord } from "@/lib/saveRepository";
+import {
+  buildSessionStateVariables,
+  MAX_STATE_BYTES,
+  MAX_STATE_FLAGS,
+  MAX_STATE_TEXT_LENGTH,
+} from "@/lib/sessionState";
+
+function buildSlot(
+  characterName: string,
+  change: (state: GameState) => void
+): SaveSlotRecord {
+  const state = createDefaultGameState();
+  change(state);
+  return {
+    id: 1,
+    save_slot: 1,
+    save_uid: "0b6f7d2e-4a53-4c1f-9d8e-2f1a3b4c5d6e",
+    save_name: null,
+    character_name: characterName,
+    level: state.stats.level,
+    location: state.location,
+    last_save: null,
+    game_state: state,
+    conversation_history: null,
+  };
+}
+
+function sizeOf(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length;
+}
+
+describe("buildSessionStateVariables", () => {
+  it("clamps a long magic school like the other texts", () => {
+    const slot = buildSlot("Lucy", (state) => {
+      state.character.magic_school = "Esprits stellaires ".repeat(500);
+    });
+
+    const variables = buildSessionStateVariables(slot, []);
+
+    expect(variables.magic_school).toHaveLength(MAX_STATE_TEXT_LENGTH);
+  });
+
+  it("stays within the size limit when escaping inflates every text", () => {
+    // Control characters take six bytes each once escaped in JSON.
+    const inflated = "\u0001".repeat(10_000);
+    const flagNames = Array.from(
+      { length: MAX_STATE_FLAGS },
+      (_, index) => `flag_${index}`
+    );
+    const slot = buildSlot(inflated, (state) => {
+      state.location = inflated;
+      state.character.magic_school = inflated;
+      state.flags = Object.fromEntries(
+        flagNames.map((flag) => [flag, inflated])
+      );
+    });
+
+    const variables = buildSessionStateVariables(slot, flagNames);
+
+    expect(sizeOf(variables)).toBeLessThanOrEqual(MAX_STATE_BYTES);
+    expect(variables.character_level).toBe(1);
+  });
+});
@@ -0,0 +1,110 @@
+import type { FlagValue } from "@/lib/gameState";
+import type { SaveSlotRecord } from "@/lib/saveRepository";
+import { parseSaveState } from "@/lib/saves";
+
+export type SessionStateValue = string | number | boolean;
+export type SessionStateVariables = Record<string, SessionStateValue>;
+
+/** Per-value and total budgets, so a save can never bloat the session. */
+export const MAX_STATE_TEXT_LENGTH = 120;
+export const MAX_STATE_FLAGS = 12;
+export const MAX_STATE_BYTES = 2_000;
+
+const FLAG_VARIABLE_PREFIX = "flag_";
+const FLAG_NAME_PATTERN = /^[a-z0-9_]{1,40}$/;
+/** Dropped in this order, after the flags, while the budget is exceeded. */
+const DROPPABLE_VARIABLES = ["magic_school", "location", "character_name"];
+
+/**
+ * Game flags the narrator may see, from the comma-separated
+ * `CHATKIT_STATE_FLAGS` server variable. Flags are opt-in because they can
+ * hold spoilers the workflow should not read.
+ */
+export function readFlagAllowlist(
+  raw: string | undefined = process.env.CHATKIT_STATE_FLAGS
+): string[] {
+  return (raw ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => FLAG_NAME_PATTERN.test(name))
+    .slice(0, MAX_STATE_FLAGS);
+}
+
+function clampText(value: string): string {
+  const text = value.replace(/\s+/g, " ").trim();
+  return text.length > MAX_STATE_TEXT_LENGTH
+    ? `${text.slice(0, MAX_STATE_TEXT_LENGTH - 1)}…`
+    : text;
+}
+
+function toStateValue(value: FlagValue): SessionStateValue | null {
+  if (typeof value === "string") {
+    return clampText(value) || null;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  return value;
+}
+
+function sizeOf(variables: SessionStateVariables): number {
+  return new TextEncoder().encode(JSON.stringify(variables)).length;
+}
+
+/**
+ * Builds the workflow state variables describing a slot's character:
+ * `character_name`, `character_level`, `location`, `magic_school` and one
+ * `flag_<name>` per allowlisted flag that is set. Every text is clamped to
+ * `MAX_STATE_TEXT_LENGTH`, but JSON escaping can still grow it, so flags are
+ * dropped, last first, then the descriptive fields, until the variables fit
+ * in `MAX_STATE_BYTES`.
+ */
+export function buildSessionStateVariables(
+  slot: SaveSlotRecord,
+  flagAllowlist: readonly string[]
+): SessionStateVariables {
+  const parsed = parseSaveState(slot);
+  const state = parsed.ok ? parsed.state : null;
+  const variables: SessionStateVariables = {};
+
+  const name = slot.character_name ? clampText(slot.character_name) : "";
+  if (name) {
+    variables.character_name = name;
+  }
+  const level = state?.stats.level ?? slot.level;
+  if (typeof level === "number") {
+    variables.character_level = level;
+  }
+  const location = clampText(state?.location ?? slot.location ?? "");
+  if (location) {
+    variables.location = location;
+  }
+  const magicSchool = clampText(state?.character.magic_school ?? "");
+  if (magicSchool) {
+    variables.magic_school = magicSchool;
+  }
+
+  const flags = state?.flags ?? {};
+  const flagNames = flagAllowlist.filter((flag) =>
+    Object.prototype.hasOwnProperty.call(flags, flag)
+  );
+  for (const flag of flagNames) {
+    const value = toStateValue(flags[flag]);
+    if (value !== null) {
+      variables[`${FLAG_VARIABLE_PREFIX}${flag}`] = value;
+    }
+  }
+
+  const droppable = [
+    ...flagNames.map((flag) => `${FLAG_VARIABLE_PREFIX}${flag}`).reverse(),
+    ...DROPPABLE_VARIABLES,
+  ];
+  for (const key of droppable) {
+    if (sizeOf(variables) <= MAX_STATE_BYTES) {
+      break;
+    }
+    delete variables[key];
+  }
+
+  return variables;
+}
@@ -0,0 +1,207 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { SNAPSHOT_RETENTION } from "@/lib/config";
+import { parseGameState, type GameState } from "@/lib/gameState";
+import {
+  toJournalEntryFields,
+  type JournalEntryFields,
+  type SaveRepository,
+} from "@/lib/saveRepository";
+import { buildBranchName, type BranchNameText } from "@/lib/saveSlots";
+
+export const SNAPSHOT_REASONS = ["level_up", "location", "manual"] as const;
+
+export type SnapshotReason = (typeof SNAPSHOT_REASONS)[number];
+
+/** A point-in-time copy of a slot's game state and journal. */
+export type SaveSnapshot = {
+  id: number;
+  save_slot: number;
+  reason: SnapshotReason;
+  level: number | null;
+  location: string | null;
+  game_state: unknown;
+  journal: JournalEntryFields[];
+  created_at: string;
+};
+
+export type SaveSnapshotFields = Omit<SaveSnapshot, "id" | "save_slot">;
+
+const SNAPSHOTS_TABLE = "rpg_snapshots";
+const SNAPSHOT_COLUMNS =
+  "id, save_slot, reason, level, location, game_state, journal, created_at";
+
+export async function fetchSnapshots(
+  client: SupabaseClient,
+  slotId: number
+): Promise<SaveSnapshot[]> {
+  const { data, error } = await client
+    .from(SNAPSHOTS_TABLE)
+    .select(SNAPSHOT_COLUMNS)
+    .eq("save_slot", slotId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Stores a snapshot, then drops the slot's oldest snapshots beyond
+ * `retention`. `user_id` defaults to the signed-in user on insert.
+ */
+export async function insertSnapshot(
+  client: SupabaseClient,
+  slotId: number,
+  snapshot: SaveSnapshotFields,
+  retention: number
+): Promise<void> {
+  const { error } = await client
+    .from(SNAPSHOTS_TABLE)
+    .insert({ ...snapshot, save_slot: slotId });
+
+  if (error) {
+    throw error;
+  }
+
+  const { data: expired, error: listError } = await client
+    .from(SNAPSHOTS_TABLE)
+    .select("id")
+    .eq("save_slot", slotId)
+    .order("created_at", { ascending: false })
+    .range(retention, retention + 99);
+
+  if (listError) {
+    throw listError;
+  }
+  if (!expired?.length) {
+    return;
+  }
+
+  const { error: deleteError } = await client
+    .from(SNAPSHOTS_TABLE)
+    .delete()
+    .in(
+      "id",
+      expired.map((row) => row.id)
+    );
+
+  if (deleteError) {
+    throw deleteError;
+  }
+}
+
+/**
+ * Decides whether a save is a milestone worth a snapshot: the character
+ * gained a level or travelled somewhere new.
+ */
+export function getAutoSnapshotReason(
+  previous: GameState | null,
+  next: GameState
+): SnapshotReason | null {
+  if (!previous) {
+    return null;
+  }
+  if (next.stats.level > previous.stats.level) {
+    return "level_up";
+  }
+  if (next.location && next.location !== previous.location) {
+    return "location";
+  }
+  return null;
+}
+
+/** Copies the slot as currently stored, journal included. */
+export async function takeSnapshot(
+  repository: SaveRepository,
+  slotNumber: number,
+  reason: SnapshotReason
+): Promise<void> {
+  const [slot, journal] = await Promise.all([
+    repository.getSlot(slotNumber),
+    repository.listJournal(slotNumber),
+  ]);
+
+  await repository.addSnapshot(
+    slotNumber,
+    {
+      reason,
+      level: slot.level,
+      location: slot.location,
+      game_state: slot.game_state,
+      journal: journal.map(toJournalEntryFields),
+      created_at: new Date().toISOString(),
+    },
+    SNAPSHOT_RETENTION
+  );
+}
+
+function readSnapshotState(snapshot: SaveSnapshot): GameState {
+  const parsed = parseGameState(snapshot.game_state);
+  if (!parsed.ok) {
+    throw new Error(`Invalid game state in snapshot: ${parsed.error}`);
+  }
+  return parsed.state;
+}
+
+/**
+ * Rewinds the slot to `snapshot`: game state and journal are replaced in one
+ * write, and the ChatKit thread is dropped because it remembers what came
+ * after.
+ */
+export async function restoreSnapshot(
+  repository: SaveRepository,
+  slotNumber: number,
+  snapshot: SaveSnapshot
+): Promise<void> {
+  const current = await repository.getSlot(slotNumber);
+
+  const result = await repository.restoreSnapshot(
+    slotNumber,
+    snapshot.id,
+    current.last_save
+  );
+  if (!result.ok && "invalid" in result) {
+    throw new Error(
+      `Snapshot ${snapshot.id} cannot be restored: ${result.invalid}`
+    );
+  }
+  if (!result.ok) {
+    throw new Error(`Slot ${slotNumber} was saved while being restored`);
+  }
+}
+
+/**
+ * Starts a new slot from `snapshot`, leaving the original slot untouched. The
+ * new slot is removed again if its journal cannot be written.
+ */
+export async function branchFromSnapshot(
+  repository: SaveRepository,
+  sourceSlot: number,
+  snapshot: SaveSnapshot,
+  text: BranchNameText
+): Promise<number> {
+  const state = readSnapshotState(snapshot);
+  const source = await repository.getSlot(sourceSlot);
+
+  const slotNumber = await repository.createSlot({
+    save_name: buildBranchName(source, sourceSlot, text),
+    character_name: source.character_name,
+    level: state.stats.level,
+    location: state.location,
+    game_state: state,
+    conversation_history: null,
+    last_save: new Date().toISOString(),
+  });
+
+  try {
+    await repository.insertJournalEntries(slotNumber, snapshot.journal);
+  } catch (error) {
+    await repository.deleteSlot(slotNumber).catch((cleanupError) => {
+      console.error("[snapshots] could not remove slot", cleanupError);
+    });
+    throw error;
+  }
+  return slotNumber;
+}
@@ -0,0 +1,165 @@
+import type { StartScreenPrompt } from "@openai/chatkit";
+import { getCampaign } from "@/lib/campaigns";
+import { buildOpeningMessage } from "@/lib/character";
+import type { GameState, Quest } from "@/lib/gameState";
+import type { Messages } from "@/lib/i18n";
+import { getQuestsByStatus } from "@/lib/quests";
+
+export const MAX_START_PROMPTS = 4;
+/** How many of the latest journal facts the start screen recalls. */
+export const START_SCREEN_FACTS = 2;
+const MAX_RECALLED_FACT_LENGTH = 80;
+/** Below this share of their HP, a character away from home should rest. */
+const WOUNDED_HP_RATIO = 1 / 3;
+
+export type StartScreenContext = {
+  characterName: string | null;
+  state: GameState | null;
+  /** Latest journal facts, newest first. */
+  recentFacts: string[];
+};
+
+export type StartScreenConfig = {
+  greeting: string;
+  prompts: StartScreenPrompt[];
+};
+
+/** A character who has not earned anything or recorded a single fact yet. */
+export function isNewGame(state: GameState, recentFacts: string[]): boolean {
+  return (
+    state.stats.level === 1 &&
+    state.stats.xp === 0 &&
+    Object.keys(state.quests).length === 0 &&
+    recentFacts.length === 0
+  );
+}
+
+function clampFact(fact: string): string {
+  return fact.length > MAX_RECALLED_FACT_LENGTH
+    ? `${fact.slice(0, MAX_RECALLED_FACT_LENGTH - 1)}…`
+    : fact;
+}
+
+/**
+ * Heading home only makes sense away from the guild and outside a fight: when
+ * the last mission has ended and none is under way, or to recover from wounds.
+ */
+function shouldReturnToGuild(state: GameState, activeQuests: Quest[]): boolean {
+  if (
+    state.combat ||
+    !state.location ||
+    state.location === getCampaign(state.campaign).startingLocation
+  ) {
+    return false;
+  }
+  const missionEnded =
+    activeQuests.length === 0 &&
+    Object.values(state.quests).some(
+      (quest) => quest.status === "completed" || quest.status === "failed"
+    );
+  const wounded = state.stats.hp <= state.stats.max_hp * WOUNDED_HP_RATIO;
+  return missionEnded || wounded;
+}
+
+/** Picks the quest back up at its first unfinished objective. */
+function buildQuestPrompt(
+  quest: Quest,
+  text: Messages["startScreen"]
+): StartScreenPrompt {
+  return {
+    label: text.continueQuestLabel(quest.title),
+    prompt: text.continueQuestPrompt(
+      quest.title,
+      quest.objectives.find((objective) => !objective.done)?.label ?? null
+    ),
+    icon: "suitcase",
+  };
+}
+
+/**
+ * The ChatKit start screen for the loaded slot. A new character gets an
+ * onboarding greeting whose first prompt introduces them to the narrator and
+ * opens the story; otherwise the greeting and prompts are built from the fight
+ * in progress, active quests, current location and latest journal facts.
+ */
+export function buildStartScreen(
+  { characterName, state, recentFacts }: StartScreenContext,
+  messages: Messages
+): StartScreenConfig {
+  const text = messages.startScreen;
+  if (!state || !characterName) {
+    return {
+      greeting: messages.chat.greeting,
+      prompts: messages.chat.starterPrompts,
+    };
+  }
+
+  if (isNewGame(state, recentFacts)) {
+    const opening: StartScreenPrompt = {
+      label: text.beginAdventureLabel,
+      prompt: buildOpeningMessage(characterName, state, messages),
+      icon: "sparkle",
+    };
+    return {
+      greeting: text.newGameGreeting(characterName),
+      prompts: [opening, ...text.onboardingPrompts].slice(0, MAX_START_PROMPTS),
+    };
+  }
+
+  const prompts: StartScreenPrompt[] = [];
+  const activeQuests = getQuestsByStatus(state, "active");
+  const [mainQuest, ...otherQuests] = activeQuests;
+
+  if (state.combat) {
+    prompts.push({
+      label: text.resumeCombatLabel,
+      prompt: text.resumeCombatPrompt,
+      icon: "bolt",
+    });
+  }
+  if (mainQuest) {
+    prompts.push(buildQuestPrompt(mainQuest, text));
+  }
+  if (shouldReturnToGuild(state, activeQuests)) {
+    prompts.push({
+      label: text.returnToGuildLabel,
+      prompt: text.returnToGuildPrompt,
+      icon: "map-pin",
+    });
+  }
+  if (recentFacts.length > 0) {
+    prompts.push({
+      label: text.recallLabel,
+      prompt: text.recallPrompt(
+        recentFacts.slice(0, START_SCREEN_FACTS).map(clampFact)
+      ),
+      icon: "book-open",
+    });
+  }
+  if (otherQuests[0]) {
+    prompts.push(buildQuestPrompt(otherQuests[0], text));
+  }
+  if (!mainQuest) {
+    prompts.push({
+      label: text.questBoardLabel,
+      prompt: text.questBoardPrompt,
+      icon: "notebook-pencil",
+    });
+  }
+  if (state.location) {
+    prompts.push({
+      label: text.exploreLabel(state.location),
+      prompt: text.explorePrompt(state.location),
+      icon: "compass",
+    });
+  }
+
+  return {
+    greeting: text.resumeGreeting(
+      characterName,
+      state.stats.level,
+      state.location
+    ),
+    prompts: prompts.slice(0, MAX_START_PROMPTS),
+  };
+}
@@ -0,0 +1,19 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Server-only Supabase client with the service role key. It bypasses
+ * row-level security, so every query made with it must filter on the
+ * authenticated user itself. Never import this from client components.
+ */
+export function createSupabaseAdminClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL?.trim();
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY?.trim();
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
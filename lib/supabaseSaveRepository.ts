@@ -0,0 +1,42 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  clearJournal,
+  deleteJournalEntry,
+  fetchJournalEntries,
+  insertJournalEntries,
+  recordJournalFact,
+  setJournalEntryPinned,
+} from "@/lib/journal";
+import type { SaveRepository, SaveSlotStore } from "@/lib/saveRepository";
+import { fetchSnapshots, insertSnapshot } from "@/lib/snapshots";
+
+/**
+ * Saves stored in Supabase for the signed-in player. Slots are read and
+ * written through `slots` (the `/api/saves` client), which validates every
+ * write on the server; the journal and snapshots are queried directly under
+ * row-level security.
+ */
+export function createSupabaseSaveRepository(
+  client: SupabaseClient,
+  userId: string,
+  slots: SaveSlotStore
+): SaveRepository {
+  return {
+    kind: "supabase",
+    ownerId: userId,
+    ...slots,
+    listJournal: (slotNumber) => fetchJournalEntries(client, slotNumber),
+    recordJournalFact: (slotNumber, fact) =>
+      recordJournalFact(client, slotNumber, fact),
+    insertJournalEntries: (slotNumber, entries) =>
+      insertJournalEntries(client, slotNumber, entries),
+    setJournalEntryPinned: (slotNumber, factId, pinned) =>
+      setJournalEntryPinned(client, slotNumber, factId, pinned),
+    deleteJournalEntry: (slotNumber, factId) =>
+      deleteJournalEntry(client, slotNumber, factId),
+    clearJournal: (slotNumber) => clearJournal(client, slotNumber),
+    listSnapshots: (slotNumber) => fetchSnapshots(client, slotNumber),
+    addSnapshot: (slotNumber, snapshot, retention) =>
+      insertSnapshot(client, slotNumber, snapshot, retention),
+  };
+}
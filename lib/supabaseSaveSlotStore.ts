@@ -0,0 +1,231 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  findFreeSlotNumber,
+  requiresBaseLastSave,
+  type SaveConflict,
+  type SaveSlot,
+  type SaveSlotContents,
+  type SaveSlotRecord,
+  type SaveSlotStore,
+} from "@/lib/saveRepository";
+import { buildGameStateChanges } from "@/lib/saves";
+import { readGameState } from "@/lib/saveValidation";
+
+const SAVES_TABLE = "rpg_saves";
+const SNAPSHOTS_TABLE = "rpg_snapshots";
+const SAVE_SLOT_COLUMNS =
+  "id, save_slot, save_uid, save_name, character_name, level, location, last_save, game_state";
+
+/**
+ * Used when the limit cannot be read, e.g. before `supabase/schema.sql` was
+ * re-applied. The database trigger stays the source of truth.
+ */
+const FALLBACK_SAVE_SLOT_LIMIT = 3;
+
+/**
+ * Slot queries behind the `/api/saves` routes. The client carries the service
+ * role, so each query is filtered on `userId` explicitly. Operations on a slot
+ * that does not exist fail with PostgREST's `PGRST116` (no rows) error.
+ */
+export function createSupabaseSaveSlotStore(
+  client: SupabaseClient,
+  userId: string
+): SaveSlotStore {
+  const listSlots = async (): Promise<SaveSlot[]> => {
+    const { data, error } = await client
+      .from(SAVES_TABLE)
+      .select(SAVE_SLOT_COLUMNS)
+      .eq("user_id", userId)
+      .order("save_slot");
+
+    if (error) {
+      throw error;
+    }
+
+    return data ?? [];
+  };
+
+  const getSlotLimit = async (): Promise<number> => {
+    const { data, error } = await client.rpc("rpg_max_save_slots", {
+      target_user: userId,
+    });
+
+    if (error || typeof data !== "number") {
+      console.warn("[save-slot] could not read the slot limit", error);
+      return FALLBACK_SAVE_SLOT_LIMIT;
+    }
+
+    return data;
+  };
+
+  const getSlot = async (slotNumber: number): Promise<SaveSlotRecord> => {
+    const { data, error } = await client
+      .from(SAVES_TABLE)
+      .select(`${SAVE_SLOT_COLUMNS}, conversation_history`)
+      .eq("user_id", userId)
+      .eq("save_slot", slotNumber)
+      .single<SaveSlotRecord>();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  };
+
+  /**
+   * Applies `changes` only while the slot's `last_save` equals
+   * `baseLastSave`; returns the winning save otherwise.
+   */
+  const updateIfUnchanged = async (
+    slotNumber: number,
+    changes: Partial<SaveSlotContents>,
+    baseLastSave: string | null
+  ): Promise<SaveConflict | null> => {
+    const query = client
+      .from(SAVES_TABLE)
+      .update(changes)
+      .eq("user_id", userId)
+      .eq("save_slot", slotNumber);
+    const { data, error } = await (
+      baseLastSave === null
+        ? query.is("last_save", null)
+        : query.eq("last_save", baseLastSave)
+    ).select("save_slot");
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data?.length) {
+      // Either the slot is gone (getSlot throws) or it was saved elsewhere.
+      const current = await getSlot(slotNumber);
+      return { lastSave: current.last_save };
+    }
+
+    return null;
+  };
+
+  const updateSlot: SaveSlotStore["updateSlot"] = async (
+    slotNumber,
+    changes,
+    baseLastSave
+  ) => {
+    if (baseLastSave === undefined) {
+      if (requiresBaseLastSave(changes)) {
+        throw new Error("Replacing the game state requires base_last_save");
+      }
+      const { error } = await client
+        .from(SAVES_TABLE)
+        .update(changes)
+        .eq("user_id", userId)
+        .eq("save_slot", slotNumber)
+        .select("save_slot")
+        .single();
+
+      if (error) {
+        throw error;
+      }
+      return { ok: true };
+    }
+
+    const conflict = await updateIfUnchanged(slotNumber, changes, baseLastSave);
+    return conflict ? { ok: false, conflict } : { ok: true };
+  };
+
+  return {
+    listSlots,
+    getSlotLimit,
+    getSlot,
+    // The slot limit is enforced by the `rpg_saves_slot_limit` trigger.
+    createSlot: async (contents = {}) => {
+      const slotNumber = findFreeSlotNumber(await listSlots());
+      const { error } = await client.from(SAVES_TABLE).insert({
+        level: 1,
+        ...contents,
+        user_id: userId,
+        save_slot: slotNumber,
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      return slotNumber;
+    },
+    updateSlot,
+    saveGameState: async (slotNumber, state, baseLastSave) => {
+      const { state: nextState, changes } = buildGameStateChanges(state);
+      const conflict = await updateIfUnchanged(
+        slotNumber,
+        changes,
+        baseLastSave
+      );
+      if (conflict) {
+        return { ok: false, conflict };
+      }
+
+      return { ok: true, state: nextState, lastSave: changes.last_save };
+    },
+    // Snapshots are written by the browser, so their state gets the same
+    // bounds as an autosave before `rpg_restore_snapshot` swaps it in with the
+    // journal.
+    restoreSnapshot: async (slotNumber, snapshotId, baseLastSave) => {
+      const { data: snapshot, error } = await client
+        .from(SNAPSHOTS_TABLE)
+        .select("game_state")
+        .eq("user_id", userId)
+        .eq("save_slot", slotNumber)
+        .eq("id", snapshotId)
+        .single<{ game_state: unknown }>();
+
+      if (error) {
+        throw error;
+      }
+
+      const parsed = readGameState(snapshot.game_state);
+      if (!parsed.ok) {
+        return { ok: false, invalid: parsed.error };
+      }
+
+      const { changes } = buildGameStateChanges(parsed.value);
+      const { data: restoredAt, error: restoreError } = await client.rpc(
+        "rpg_restore_snapshot",
+        {
+          target_user: userId,
+          target_slot: slotNumber,
+          snapshot_id: snapshotId,
+          restored_state: changes.game_state,
+          restored_level: changes.level,
+          restored_location: changes.location,
+          base_last_save: baseLastSave,
+        }
+      );
+
+      if (restoreError) {
+        throw restoreError;
+      }
+
+      if (restoredAt === null) {
+        const current = await getSlot(slotNumber);
+        return { ok: false, conflict: { lastSave: current.last_save } };
+      }
+
+      return { ok: true };
+    },
+    // The journal goes with the slot through the foreign key.
+    deleteSlot: async (slotNumber) => {
+      const { error } = await client
+        .from(SAVES_TABLE)
+        .delete()
+        .eq("user_id", userId)
+        .eq("save_slot", slotNumber)
+        .select("save_slot")
+        .single();
+
+      if (error) {
+        throw error;
+      }
+    },
+  };
+}
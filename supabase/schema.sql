@@ -0,0 +1,273 @@
+-- Tables used by the game. Apply with the Supabase SQL editor or `supabase db push`.
+-- Every row belongs to a Supabase Auth user and row-level security limits
+-- each player to their own saves and journal.
+
+create table if not exists public.rpg_saves (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  save_slot integer not null,
+  save_name text,
+  character_name text,
+  level integer default 1,
+  location text,
+  conversation_history jsonb,
+  game_state jsonb,
+  last_save timestamptz
+);
+
+-- Facts recorded by the game master through the `record_fact` client tool.
+create table if not exists public.rpg_journal (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  save_slot integer not null,
+  fact_id text not null,
+  fact_text text not null,
+  pinned boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Projects created before accounts existed: slots were shared by everyone, so
+-- the old rows have no owner. Delete them (or assign them to a user) before
+-- running the `set not null` statements below.
+alter table public.rpg_saves
+  add column if not exists user_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table public.rpg_journal
+  add column if not exists user_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table public.rpg_saves alter column user_id set not null;
+alter table public.rpg_journal alter column user_id set not null;
+alter table public.rpg_saves drop constraint if exists rpg_saves_save_slot_key;
+alter table public.rpg_journal drop constraint if exists rpg_journal_save_slot_fact_id_key;
+create unique index if not exists rpg_saves_user_slot_key
+  on public.rpg_saves (user_id, save_slot);
+
+-- Slot numbers are reused once a slot is deleted, so ChatKit threads are scoped
+-- to this id instead. Imports replace it when they bring in another save.
+alter table public.rpg_saves
+  add column if not exists save_uid uuid not null default gen_random_uuid();
+create unique index if not exists rpg_journal_user_slot_fact_key
+  on public.rpg_journal (user_id, save_slot, fact_id);
+
+drop index if exists rpg_journal_save_slot_idx;
+create index if not exists rpg_journal_user_slot_idx
+  on public.rpg_journal (user_id, save_slot, created_at desc);
+
+alter table public.rpg_saves enable row level security;
+alter table public.rpg_journal enable row level security;
+
+-- Slots are written only by the `/api/saves` routes, which validate every
+-- payload and use the service role; players may still read their own rows.
+drop policy if exists "Players manage their own saves" on public.rpg_saves;
+drop policy if exists "Players read their own saves" on public.rpg_saves;
+create policy "Players read their own saves" on public.rpg_saves
+  for select to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists "Players manage their own journal" on public.rpg_journal;
+create policy "Players manage their own journal" on public.rpg_journal
+  for all to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Deleting a slot removes its journal. `not valid` skips checking journal rows
+-- left behind by slots that were deleted before this constraint existed.
+alter table public.rpg_journal drop constraint if exists rpg_journal_save_fkey;
+alter table public.rpg_journal
+  add constraint rpg_journal_save_fkey
+  foreign key (user_id, save_slot)
+  references public.rpg_saves (user_id, save_slot)
+  on delete cascade
+  not valid;
+
+-- Per-player slot limits. Players without a row get the default below; only
+-- the service role can grant more slots.
+create table if not exists public.rpg_slot_limits (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  max_slots integer not null check (max_slots > 0)
+);
+
+alter table public.rpg_slot_limits enable row level security;
+
+create or replace function public.rpg_max_save_slots(target_user uuid default auth.uid())
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select max_slots from public.rpg_slot_limits where user_id = target_user),
+    3
+  );
+$$;
+
+create or replace function public.rpg_enforce_save_slot_limit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Serialise inserts per player so two tabs cannot both take the last slot.
+  perform pg_advisory_xact_lock(hashtext(new.user_id::text));
+  if (select count(*) from public.rpg_saves where user_id = new.user_id)
+      >= public.rpg_max_save_slots(new.user_id) then
+    raise exception 'Save slot limit reached' using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists rpg_saves_slot_limit on public.rpg_saves;
+create trigger rpg_saves_slot_limit
+  before insert on public.rpg_saves
+  for each row execute function public.rpg_enforce_save_slot_limit();
+
+-- Rolling history of each slot, written on level-ups, location changes and
+-- quick-saves. The client keeps the newest snapshots per slot (10 by default)
+-- and deleting a slot removes its history.
+create table if not exists public.rpg_snapshots (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  save_slot integer not null,
+  reason text not null check (reason in ('level_up', 'location', 'manual')),
+  level integer,
+  location text,
+  game_state jsonb not null,
+  journal jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  constraint rpg_snapshots_save_fkey
+    foreign key (user_id, save_slot)
+    references public.rpg_saves (user_id, save_slot)
+    on delete cascade
+);
+
+create index if not exists rpg_snapshots_user_slot_idx
+  on public.rpg_snapshots (user_id, save_slot, created_at desc);
+
+alter table public.rpg_snapshots enable row level security;
+
+drop policy if exists "Players manage their own snapshots" on public.rpg_snapshots;
+create policy "Players manage their own snapshots" on public.rpg_snapshots
+  for all to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Rewinds a slot to one of its snapshots in a single transaction, so the game
+-- state and the journal can never end up from different points in time. The
+-- `/api/saves` routes validate the snapshot's game state and pass it in. Returns
+-- the new `last_save`, or null when the slot was saved since `base_last_save`.
+create or replace function public.rpg_restore_snapshot(
+  target_user uuid,
+  target_slot integer,
+  snapshot_id bigint,
+  restored_state jsonb,
+  restored_level integer,
+  restored_location text,
+  base_last_save timestamptz
+)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  restored_journal jsonb;
+  restored_at timestamptz := now();
+begin
+  select journal into restored_journal
+    from public.rpg_snapshots
+    where id = snapshot_id and user_id = target_user and save_slot = target_slot;
+  if not found then
+    raise exception 'Snapshot not found' using errcode = 'P0002';
+  end if;
+
+  update public.rpg_saves
+    set game_state = restored_state,
+        level = restored_level,
+        location = restored_location,
+        conversation_history = null,
+        last_save = restored_at
+    where user_id = target_user
+      and save_slot = target_slot
+      and last_save is not distinct from base_last_save;
+  if not found then
+    return null;
+  end if;
+
+  delete from public.rpg_journal
+    where user_id = target_user and save_slot = target_slot;
+  insert into public.rpg_journal
+      (user_id, save_slot, fact_id, fact_text, pinned, created_at, updated_at)
+    select target_user, target_slot, entry.fact_id, entry.fact_text,
+        coalesce(entry.pinned, false), entry.created_at, entry.updated_at
+      from jsonb_to_recordset(restored_journal) as entry(
+        fact_id text,
+        fact_text text,
+        pinned boolean,
+        created_at timestamptz,
+        updated_at timestamptz
+      );
+
+  return restored_at;
+end;
+$$;
+
+revoke execute on function public.rpg_restore_snapshot(uuid, integer, bigint, jsonb, integer, text, timestamptz)
+  from public, anon, authenticated;
+
+-- Token buckets for `/api/create-session` when `RATE_LIMIT_STORE=supabase`.
+-- Only the service role reaches them: the table has no policies and the
+-- function is not granted to players.
+create table if not exists public.rpg_rate_limits (
+  bucket_key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.rpg_rate_limits enable row level security;
+
+-- Takes one token from `target_key` and returns 0, or the seconds to wait
+-- until a token is available.
+create or replace function public.rpg_take_rate_limit_token(
+  target_key text,
+  bucket_capacity integer,
+  refill_rate double precision
+)
+returns double precision
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_tokens double precision;
+begin
+  insert into public.rpg_rate_limits (bucket_key, tokens, updated_at)
+    values (target_key, bucket_capacity, now())
+    on conflict (bucket_key) do nothing;
+
+  select least(
+      bucket_capacity,
+      tokens + extract(epoch from now() - updated_at) * refill_rate
+    )
+    into current_tokens
+    from public.rpg_rate_limits
+    where bucket_key = target_key
+    for update;
+
+  if current_tokens < 1 then
+    update public.rpg_rate_limits
+      set tokens = current_tokens, updated_at = now()
+      where bucket_key = target_key;
+    return (1 - current_tokens) / refill_rate;
+  end if;
+
+  update public.rpg_rate_limits
+    set tokens = current_tokens - 1, updated_at = now()
+    where bucket_key = target_key;
+  return 0;
+end;
+$$;
+
+revoke execute on function public.rpg_take_rate_limit_token(text, integer, double precision)
+  from public, anon, authenticated;